@@ -0,0 +1,289 @@
+// SPECWEAVER COMMAND LINE
+// Runs the local converters without a browser, for build pipelines:
+//   specweaver doc   <specs...> [-o out] [--html|--markdown|--pdf]  Spec -> DOCX (or HTML / Markdown / PDF), with an optional Word template
+//   specweaver spec  <docs...>  [-o out] [-f yaml|json]             HTML / DOCX / Markdown -> Spec
+//   specweaver check <specs...> [-t threshold] [--json]             Round-trip fidelity
+//   specweaver lint  <specs...> [--rules id=level,...] [--json]     Documentation rules
+// Inputs accept glob patterns. Exit codes: 0 ok, 1 fidelity below threshold or lint errors, 2 error.
+
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import fg from 'fast-glob';
+import { DOMParser } from 'linkedom';
+import { loadSpec } from '../services/specModel';
+import { convertSpecToDoc } from '../services/htmlRenderer';
+import { convertSpecToMarkdown } from '../services/markdownRenderer';
+import { generateDocxBlob } from '../services/docxRenderer';
+import { generatePdfBlob } from '../services/pdfRenderer';
+import { parseHTMLDocToSpec, validateSpecFidelity } from '../services/geminiService';
+import { parseDocxToSpec } from '../services/docxReader';
+import { parseMarkdownDocToSpec } from '../services/markdownReader';
+import { LINT_RULES, LintConfig, LintIssue, lintSpec } from '../services/specLinter';
+import { DEFAULT_DOCX_TEMPLATE } from '../services/docxTemplate';
+import { ConversionOptions, DocFormat, DocSection, DocxTemplate, FidelityReport, SpecFormat } from '../types';
+
+// The HTML and DOCX parsers rely on the browser DOMParser
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
+
+const EXIT_OK = 0;
+const EXIT_FIDELITY = 1; // Also lint errors
+const EXIT_ERROR = 2;
+
+// Chapter names on the command line: data-models for DocSection.DATA_MODELS
+const toSectionName = (section: DocSection) => section.toLowerCase().replace(/_/g, '-');
+
+const USAGE = `Usage:
+  specweaver doc   <specs...> [-o <file|dir>] [--html | --markdown | --pdf] [--no-examples] [--no-auth] [--group-by-tag]
+                   [--reference <template.docx>] [--sections <chapter,...>]
+  specweaver spec  <docs...>  [-o <file|dir|->] [-f yaml|json]
+  specweaver check <specs...> [-t <threshold>] [--json] [--verbose] [--no-examples] [--no-auth] [--group-by-tag]
+  specweaver lint  <specs...> [--rules <rule=error|warning|info|off,...>] [--json]
+
+Inputs may be glob patterns (quote them, e.g. "specs/**/*.yaml").
+doc    writes a .docx (or .html / .md / .pdf with --html / --markdown / --pdf, or when -o ends in .html / .md / .pdf)
+       next to each input.
+       --reference applies the styles, numbering, headers, footers and cover page of a Word document;
+       --sections picks and orders the chapters: ${Object.values(DocSection).map(toSectionName).join(', ')};
+       --group-by-tag puts the endpoints in one chapter per tag (grouped by x-tagGroups).
+spec   rebuilds the OpenAPI spec from a generated .html, .docx or .md document.
+check  renders each spec, parses it back and exits with 1 when a fidelity score
+       is below the threshold (default 100).
+lint   checks each spec against the documentation rules and exits with 1 on errors.
+       Rules: ${LINT_RULES.map(rule => rule.id).join(', ')}.`;
+
+class UsageError extends Error {}
+
+/**
+ * Word template from the --reference and --sections flags
+ */
+const readTemplate = async (values: any): Promise<DocxTemplate> => {
+  const template: DocxTemplate = { ...DEFAULT_DOCX_TEMPLATE };
+  if (values.reference) {
+    template.referenceDocx = { name: path.basename(values.reference), data: toArrayBuffer(await readFile(values.reference)) };
+  }
+  if (values.sections) {
+    template.sections = values.sections.split(',').map((name: string) => {
+      const section = Object.values(DocSection).find(s => toSectionName(s) === name.trim().toLowerCase());
+      if (!section) throw new UsageError(`Unknown section: ${name}`);
+      return section;
+    });
+  }
+  return template;
+};
+
+const expandInputs = async (patterns: string[]): Promise<string[]> => {
+  if (!patterns.length) throw new UsageError('No input files given.');
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    const matches = fg.isDynamicPattern(pattern) ? (await fg(pattern.replace(/\\/g, '/'), { onlyFiles: true })).sort() : [pattern];
+    if (!matches.length) throw new UsageError(`No files match ${pattern}`);
+    matches.forEach(file => { if (!files.includes(file)) files.push(file); });
+  }
+  return files;
+};
+
+const isDirectory = async (target: string) => {
+  try {
+    return (await stat(target)).isDirectory();
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Output path for an input: next to it by default, inside -o when that is a
+ * directory (or several inputs are given), otherwise -o itself. "-" is stdout.
+ */
+const resolveOutput = async (input: string, output: string | undefined, extension: string, multiple: boolean): Promise<string> => {
+  const fileName = path.basename(input, path.extname(input)) + extension;
+  if (!output) return path.join(path.dirname(input), fileName);
+  if (output === '-') return output;
+  if (multiple || output.endsWith('/') || await isDirectory(output)) {
+    await mkdir(output, { recursive: true });
+    return path.join(output, fileName);
+  }
+  await mkdir(path.dirname(output), { recursive: true });
+  return output;
+};
+
+const writeOutput = async (target: string, data: string | Uint8Array) => {
+  if (target === '-') process.stdout.write(data);
+  else await writeFile(target, data);
+};
+
+const toArrayBuffer = (data: Buffer): ArrayBuffer => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+
+/**
+ * Runs `task` for every input, reporting failures without stopping the batch
+ */
+const forEachInput = async (inputs: string[], task: (input: string) => Promise<void>): Promise<number> => {
+  let exitCode = EXIT_OK;
+  for (const input of inputs) {
+    try {
+      await task(input);
+    } catch (e) {
+      console.error(`specweaver: ${input}: ${e instanceof Error ? e.message : e}`);
+      exitCode = EXIT_ERROR;
+    }
+  }
+  return exitCode;
+};
+
+const runDoc = async (inputs: string[], values: any, options: ConversionOptions): Promise<number> => {
+  const asMarkdown = options.docFormat === DocFormat.MARKDOWN;
+  const asPdf = !asMarkdown && (!!values.pdf || /\.pdf$/i.test(values.output || ''));
+  const asHtml = !asMarkdown && !asPdf && (!!values.html || /\.html?$/i.test(values.output || ''));
+  const template = await readTemplate(values);
+  return forEachInput(inputs, async input => {
+    const content = await readFile(input, 'utf8');
+    const target = await resolveOutput(input, values.output, asMarkdown ? '.md' : asPdf ? '.pdf' : asHtml ? '.html' : '.docx', inputs.length > 1);
+    if (asMarkdown) {
+      await writeOutput(target, convertSpecToMarkdown(content, options));
+    } else if (asPdf) {
+      const blob = await generatePdfBlob(content, options);
+      await writeOutput(target, new Uint8Array(await blob.arrayBuffer()));
+    } else if (asHtml) {
+      await writeOutput(target, convertSpecToDoc(content, options));
+    } else {
+      const blob = await generateDocxBlob(content, options, template);
+      await writeOutput(target, new Uint8Array(await blob.arrayBuffer()));
+    }
+    if (target !== '-') console.error(`${input} -> ${target}`);
+  });
+};
+
+const runSpec = async (inputs: string[], values: any, options: ConversionOptions): Promise<number> => {
+  return forEachInput(inputs, async input => {
+    const data = await readFile(input);
+    const spec = /\.docx$/i.test(input)
+      ? await parseDocxToSpec(toArrayBuffer(data), options)
+      : /\.(md|markdown)$/i.test(input)
+        ? parseMarkdownDocToSpec(data.toString('utf8'), options)
+        : parseHTMLDocToSpec(data.toString('utf8'), options);
+    const target = await resolveOutput(input, values.output, options.outputFormat === SpecFormat.JSON ? '.json' : '.yaml', inputs.length > 1);
+    await writeOutput(target, spec);
+    if (target !== '-') console.error(`${input} -> ${target}`);
+  });
+};
+
+const runCheck = async (inputs: string[], values: any, options: ConversionOptions): Promise<number> => {
+  const threshold = values.threshold === undefined ? 100 : Number(values.threshold);
+  if (Number.isNaN(threshold)) throw new UsageError(`Invalid threshold: ${values.threshold}`);
+
+  const results: { file: string, report: FidelityReport }[] = [];
+  const exitCode = await forEachInput(inputs, async input => {
+    const content = await readFile(input, 'utf8');
+    // A file that is not a spec is an error, not a failed check
+    loadSpec(content);
+    results.push({ file: input, report: validateSpecFidelity(content, options) });
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(results.map(({ file, report }) => ({ file, ...report, passed: report.score >= threshold })), null, 2));
+  } else {
+    results.forEach(({ file, report }) => {
+      const count = (severity: string) => report.issues.filter(i => i.severity === severity).length;
+      const status = report.score >= threshold ? 'PASS' : 'FAIL';
+      console.log(`${status} ${String(report.score).padStart(3)}%  ${file}  (${count('error')} errors, ${count('warning')} warnings, ${count('info')} info)`);
+      if (values.verbose) {
+        report.issues.forEach(issue => console.log(`       ${issue.severity.padEnd(7)} ${issue.kind.padEnd(7)} ${issue.pointer || '/'}`));
+      }
+    });
+  }
+
+  if (exitCode !== EXIT_OK) return exitCode;
+  return results.every(r => r.report.score >= threshold) ? EXIT_OK : EXIT_FIDELITY;
+};
+
+/**
+ * Rule severities from the --rules flag, e.g. "operation-description=error,schema-description=off"
+ */
+const readLintConfig = (rules: string | undefined): LintConfig => {
+  const config: LintConfig = {};
+  (rules ? rules.split(',') : []).forEach(entry => {
+    const [id, level] = entry.split('=').map(part => part.trim());
+    if (!LINT_RULES.some(rule => rule.id === id)) throw new UsageError(`Unknown lint rule: ${id}`);
+    if (!['error', 'warning', 'info', 'off'].includes(level)) throw new UsageError(`Invalid level for ${id}: ${level}`);
+    config[id] = level as LintConfig[string];
+  });
+  return config;
+};
+
+const runLint = async (inputs: string[], values: any): Promise<number> => {
+  const config = readLintConfig(values.rules);
+  const results: { file: string, issues: LintIssue[] }[] = [];
+  const exitCode = await forEachInput(inputs, async input => {
+    results.push({ file: input, issues: lintSpec(await readFile(input, 'utf8'), config) });
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    results.forEach(({ file, issues }) => {
+      issues.forEach(issue => console.log(`${file}:${issue.line}  ${issue.severity.padEnd(7)} ${issue.message}  (${issue.rule})`));
+    });
+  }
+
+  if (exitCode !== EXIT_OK) return exitCode;
+  return results.some(r => r.issues.some(i => i.severity === 'error')) ? EXIT_FIDELITY : EXIT_OK;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      threshold: { type: 'string', short: 't' },
+      reference: { type: 'string' },
+      sections: { type: 'string' },
+      rules: { type: 'string' },
+      html: { type: 'boolean' },
+      markdown: { type: 'boolean' },
+      pdf: { type: 'boolean' },
+      json: { type: 'boolean' },
+      verbose: { type: 'boolean', short: 'v' },
+      'no-examples': { type: 'boolean' },
+      'no-auth': { type: 'boolean' },
+      'group-by-tag': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...patterns] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_OK : EXIT_ERROR;
+  }
+
+  const format = (values.format || 'yaml').toUpperCase();
+  if (format !== SpecFormat.YAML && format !== SpecFormat.JSON) throw new UsageError(`Unknown format: ${values.format}`);
+  const options: ConversionOptions = {
+    includeExamples: !values['no-examples'],
+    includeAuthentication: !values['no-auth'],
+    groupByTag: !!values['group-by-tag'],
+    outputFormat: format as SpecFormat,
+    docFormat: values.markdown || /\.md$/i.test(values.output || '') ? DocFormat.MARKDOWN : DocFormat.HTML,
+  };
+
+  const commands: Record<string, (inputs: string[]) => Promise<number>> = {
+    doc: inputs => runDoc(inputs, values, options),
+    spec: inputs => runSpec(inputs, values, options),
+    check: inputs => runCheck(inputs, values, options),
+    lint: inputs => runLint(inputs, values),
+  };
+  const run = Object.hasOwn(commands, command) ? commands[command] : undefined;
+  if (!run) throw new UsageError(`Unknown command: ${command}`);
+  return run(await expandInputs(patterns));
+};
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    console.error(`specweaver: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof UsageError || (error as any)?.code?.startsWith?.('ERR_PARSE_ARGS')) console.error(`\n${USAGE}`);
+    process.exitCode = EXIT_ERROR;
+  }
+);
@@ -1,4 +1,6 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
 import { 
   ArrowRightLeft, 
   FileText, 
@@ -12,69 +14,383 @@ import {
   Eye,
   EyeOff,
   ShieldCheck,
-  AlertTriangle
+  AlertTriangle,
+  Upload,
+  X,
+  FileJson,
+  FolderOpen,
+  Package,
+  GitCompare,
+  FileCode,
+  ChevronDown,
+  ChevronRight,
+  History,
+  Palette,
+  FileDown,
+  ListChecks
 } from 'lucide-react';
 import { Button } from './ui/Button';
-import { generateConversionStream, validateSpecFidelity, generateDocxBlob } from '../services/geminiService';
-import { ConversionMode, ConversionOptions, SpecFormat } from '../types';
+import { HistoryPanel } from './HistoryPanel';
+import { TemplatePanel } from './TemplatePanel';
+import { generateDocxBlob } from '../services/docxRenderer';
+import { generatePdfBlob } from '../services/pdfRenderer';
+import { generateConversionStream, validateSpecFidelity, getNormalizedSpec, serializeSpec } from '../services/geminiService';
+import { parseDocxToSpec } from '../services/docxReader';
+import { isMarkdownDoc, parseMarkdownDocToSpec } from '../services/markdownReader';
+import { bundleSpecFiles, isSpecFile, readSpecArchive, SpecFileMap } from '../services/specBundler';
+import { compareSpecs, generateChangelogDocxBlob, renderChangelogHTML } from '../services/specDiff';
+import { clearHistory, deleteHistoryItem, describeConversion, listHistory, saveHistoryItem } from '../services/historyStore';
+import { DEFAULT_DOCX_TEMPLATE, loadDocxTemplate, saveDocxTemplate } from '../services/docxTemplate';
+import { sanitizeHtml } from '../services/htmlSanitizer';
+import { LINT_RULES, LintConfig, lintSpec, loadLintConfig, saveLintConfig } from '../services/specLinter';
+import { ConversionMode, ConversionOptions, DocFormat, DocxTemplate, FidelityReport, FidelitySeverity, HistoryItem, SpecFormat } from '../types';
+
+const SEVERITY_GROUPS: { severity: FidelitySeverity, label: string, color: string }[] = [
+  { severity: 'error', label: 'Errors', color: 'bg-red-500' },
+  { severity: 'warning', label: 'Warnings', color: 'bg-amber-500' },
+  { severity: 'info', label: 'Info', color: 'bg-slate-400' },
+];
+
+const formatIssueValue = (value: any) => value === undefined ? '(absent)' : JSON.stringify(value, null, 2);
+
+// Multi-line table cells of the Markdown output break their lines with <br>, which the
+// preview shows as line breaks; any other raw HTML (the round-trip comments) is skipped
+const remarkCellBreaks = () => (tree: any) => {
+  const visit = (node: any) => node.children?.forEach((child: any, idx: number) => {
+    if (child.type === 'html' && /^<br\s*\/?>$/i.test(child.value)) node.children[idx] = { type: 'break' };
+    else visit(child);
+  });
+  visit(tree);
+};
+
+interface ConversionRequest {
+  mode: ConversionMode;
+  input: string;
+  baseInput: string;
+  docxFile: File | null;
+  options: ConversionOptions;
+  template: DocxTemplate; // Word template the DOCX download of a Spec to Doc conversion uses
+}
 
 const INITIAL_OPTIONS: ConversionOptions = {
   includeExamples: true,
   includeAuthentication: true,
+  groupByTag: false,
   outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
 };
 
 export const Converter: React.FC = () => {
   const [mode, setMode] = useState<ConversionMode>(ConversionMode.SPEC_TO_DOC);
   const [inputContent, setInputContent] = useState('');
+  const [baseContent, setBaseContent] = useState(''); // Old version in Compare mode
   const [outputContent, setOutputContent] = useState('');
+  const [isMarkdownOutput, setIsMarkdownOutput] = useState(false); // Spec to Doc rendered as Markdown
   const [isGenerating, setIsGenerating] = useState(false);
   const [options, setOptions] = useState<ConversionOptions>(INITIAL_OPTIONS);
   const [showOptions, setShowOptions] = useState(false);
+  const [template, setTemplate] = useState<DocxTemplate>(loadDocxTemplate);
+  const [showTemplate, setShowTemplate] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showSource, setShowSource] = useState(false);
+  const [docxFile, setDocxFile] = useState<File | null>(null);
+  const [isSwaggerInput, setIsSwaggerInput] = useState(false);
+  const [bundle, setBundle] = useState<{ source: string, entry: string, fileCount: number, spec: any } | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   
   // Validation State
-  const [validationReport, setValidationReport] = useState<{score: number, report: string[]} | null>(null);
+  const [validationReport, setValidationReport] = useState<FidelityReport | null>(null);
   const [showValidation, setShowValidation] = useState(false);
+  const [openSeverities, setOpenSeverities] = useState<FidelitySeverity[]>(['error']);
+  const [openIssue, setOpenIssue] = useState<string | null>(null);
+  const [issueFilter, setIssueFilter] = useState('');
+
+  // Lint State
+  const [showLint, setShowLint] = useState(false);
+  const [showLintRules, setShowLintRules] = useState(false);
+  const [lintConfig, setLintConfig] = useState<LintConfig>(loadLintConfig);
+
+  // History State
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
 
   const outputRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Spec to Doc and Compare render HTML previews; Doc to Spec outputs YAML/JSON
+  const isHtmlOutput = mode !== ConversionMode.DOC_TO_SPEC;
+
+  // The open lint panel follows the input as it is edited
+  const lintResult = useMemo(() => {
+    if (!showLint || mode !== ConversionMode.SPEC_TO_DOC || !inputContent.trim()) return null;
+    try {
+      return { issues: lintSpec(inputContent, lintConfig), error: '' };
+    } catch (error) {
+      return { issues: [], error: error instanceof Error ? error.message : 'The spec could not be parsed.' };
+    }
+  }, [showLint, mode, inputContent, lintConfig]);
 
-  const handleModeToggle = () => {
-    setMode(prev => prev === ConversionMode.SPEC_TO_DOC ? ConversionMode.DOC_TO_SPEC : ConversionMode.SPEC_TO_DOC);
+  const handleModeChange = (next: ConversionMode) => {
+    if (next === mode) return;
+    setMode(next);
+    setShowTemplate(false);
     setInputContent('');
+    setBaseContent('');
     setOutputContent('');
     setShowSource(false);
     setValidationReport(null);
+    setShowLint(false);
+    setDocxFile(null);
+    setIsSwaggerInput(false);
+    setBundle(null);
   };
 
-  const handleGenerate = async () => {
-    if (!inputContent.trim()) return;
+  useEffect(() => {
+    listHistory().then(setHistory).catch(error => console.error("Error loading history:", error));
+  }, []);
+
+  // Records a finished conversion; history is a convenience, so failures are only logged
+  const recordHistory = async (request: ConversionRequest, output: string) => {
+    try {
+      await saveHistoryItem({
+        mode: request.mode,
+        preview: describeConversion(request.mode, request.input, output, request.docxFile?.name),
+        input: request.input,
+        baseInput: request.mode === ConversionMode.COMPARE ? request.baseInput : undefined,
+        docx: request.docxFile ? { name: request.docxFile.name, data: await request.docxFile.arrayBuffer() } : undefined,
+        output,
+        options: request.options,
+        template: request.mode === ConversionMode.SPEC_TO_DOC ? request.template : undefined,
+      });
+      setHistory(await listHistory());
+    } catch (error) {
+      console.error("Error saving history:", error);
+    }
+  };
+
+  const runConversion = async (request: ConversionRequest) => {
+    const { mode, input, baseInput, docxFile, options } = request;
+    if (!input.trim() && !docxFile) return;
+    if (mode === ConversionMode.COMPARE && !baseInput.trim()) return;
     setIsGenerating(true);
     setOutputContent('');
     setValidationReport(null);
     setShowSource(false);
+    setIsSwaggerInput(false);
+    setIsMarkdownOutput(mode === ConversionMode.SPEC_TO_DOC && options.docFormat === DocFormat.MARKDOWN);
 
     try {
-      const stream = generateConversionStream(inputContent, mode, options);
-      for await (const chunk of stream) {
-        setOutputContent(prev => prev + chunk);
+      let output = '';
+      if (mode === ConversionMode.COMPARE) {
+        output = renderChangelogHTML(compareSpecs(baseInput, input));
+        setOutputContent(output);
+      } else if (mode === ConversionMode.DOC_TO_SPEC && docxFile) {
+        output = await parseDocxToSpec(await docxFile.arrayBuffer(), options);
+        setOutputContent(output);
+      } else if (mode === ConversionMode.DOC_TO_SPEC && isMarkdownDoc(input)) {
+        output = parseMarkdownDocToSpec(input, options);
+        setOutputContent(output);
+      } else {
+        const stream = generateConversionStream(input, mode, options);
+        for await (const chunk of stream) {
+          output += chunk;
+          setOutputContent(prev => prev + chunk);
+        }
+        if (mode === ConversionMode.SPEC_TO_DOC) {
+          setIsSwaggerInput(getNormalizedSpec(input, options) !== null);
+        }
       }
+      await recordHistory(request, output);
     } catch (error) {
       console.error("Error generating content:", error);
-      setOutputContent("Error: Failed to generate content.");
+      setOutputContent(`Error: ${error instanceof Error ? error.message : 'Failed to generate content.'}`);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleGenerate = () => runConversion({ mode, input: inputContent, baseInput: baseContent, docxFile, options, template });
+
+  // Puts a past conversion back into the editor as it was, output included
+  const restoreHistoryItem = (item: HistoryItem): ConversionRequest => {
+    const file = item.docx ? new File([item.docx.data], item.docx.name) : null;
+    // Items saved before an option existed get its default; older items have no template and keep the current one
+    const itemOptions = { ...INITIAL_OPTIONS, ...item.options };
+    const itemTemplate = item.template ? { ...DEFAULT_DOCX_TEMPLATE, ...item.template } : template;
+    if (item.template) handleTemplateChange(itemTemplate);
+    setMode(item.mode);
+    setInputContent(item.input);
+    setBaseContent(item.baseInput || '');
+    setDocxFile(file);
+    setOptions(itemOptions);
+    setOutputContent(item.output);
+    setIsMarkdownOutput(item.mode === ConversionMode.SPEC_TO_DOC && itemOptions.docFormat === DocFormat.MARKDOWN);
+    setBundle(null);
+    setValidationReport(null);
+    setShowSource(false);
+    setIsSwaggerInput(item.mode === ConversionMode.SPEC_TO_DOC && getNormalizedSpec(item.input, itemOptions) !== null);
+    setShowHistory(false);
+    return { mode: item.mode, input: item.input, baseInput: item.baseInput || '', docxFile: file, options: itemOptions, template: itemTemplate };
+  };
+
+  const handleRerunHistoryItem = (item: HistoryItem) => runConversion(restoreHistoryItem(item));
+
+  const handleDeleteHistoryItem = async (item: HistoryItem) => {
+    try {
+      await deleteHistoryItem(item.id);
+      setHistory(prev => prev.filter(h => h.id !== item.id));
+    } catch (error) {
+      console.error("Error deleting history item:", error);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm('Delete all saved conversions from this browser?')) return;
+    try {
+      await clearHistory();
+      setHistory([]);
+    } catch (error) {
+      console.error("Error clearing history:", error);
+    }
+  };
+
+  // Bundles a multi-file spec into the input so Generate and the DOCX download see one document
+  const loadBundle = async (source: string, readFiles: () => Promise<SpecFileMap>) => {
+    try {
+      const files = await readFiles();
+      const { entry, spec } = bundleSpecFiles(files);
+      setDocxFile(null);
+      setOutputContent('');
+      setInputContent(serializeSpec(spec, options));
+      setBundle({ source, entry, fileCount: Object.keys(files).length, spec });
+    } catch (error) {
+      console.error("Error bundling files:", error);
+      setOutputContent(`Error: ${error instanceof Error ? error.message : 'Failed to bundle files.'}`);
+    }
+  };
+
+  const loadInputFile = async (file: File) => {
+    const name = file.name.toLowerCase();
+    if (mode === ConversionMode.DOC_TO_SPEC && name.endsWith('.docx')) {
+      setDocxFile(file);
+      setInputContent('');
+    } else if (mode === ConversionMode.SPEC_TO_DOC && name.endsWith('.zip')) {
+      await loadBundle(file.name, async () => readSpecArchive(await file.arrayBuffer()));
+    } else {
+      setDocxFile(null);
+      setBundle(null);
+      setInputContent(await file.text());
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) await loadInputFile(file);
+  };
+
+  const handleFolderSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (!selected.length) return;
+
+    const folder = selected[0].webkitRelativePath.split('/')[0];
+    await loadBundle(folder, async () => {
+      const files: SpecFileMap = {};
+      for (const file of selected) {
+        if (isSpecFile(file.webkitRelativePath)) files[file.webkitRelativePath] = await file.text();
+      }
+      return files;
+    });
+  };
+
+  const readDroppedEntry = async (entry: FileSystemEntry, files: SpecFileMap): Promise<void> => {
+    if (entry.isFile) {
+      const path = entry.fullPath.replace(/^\//, '');
+      if (!isSpecFile(path)) return;
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      files[path] = await file.text();
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries hands out directory listings in batches until it returns an empty one
+      let batch: FileSystemEntry[];
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        for (const child of batch) await readDroppedEntry(child, files);
+      } while (batch.length);
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (mode === ConversionMode.COMPARE) return;
+    // Entries must be read before the event handler yields
+    const entries = Array.from<DataTransferItem>(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    const droppedFiles = Array.from<File>(e.dataTransfer.files);
+
+    if (mode === ConversionMode.DOC_TO_SPEC || (entries.length <= 1 && !entries[0]?.isDirectory)) {
+      if (droppedFiles[0]) await loadInputFile(droppedFiles[0]);
+      return;
+    }
+
+    await loadBundle(entries.length === 1 ? entries[0].name : `${entries.length} items`, async () => {
+      const files: SpecFileMap = {};
+      for (const entry of entries) await readDroppedEntry(entry, files);
+      return files;
+    });
+  };
+
+  const handleClearInput = () => {
+    setInputContent('');
+    setBaseContent('');
+    setDocxFile(null);
+    setBundle(null);
+  };
+
   const handleValidation = () => {
       if (!inputContent.trim() || mode !== ConversionMode.SPEC_TO_DOC) return;
       const result = validateSpecFidelity(inputContent, options);
       setValidationReport(result);
+      setOpenSeverities(['error']);
+      setOpenIssue(null);
+      setIssueFilter('');
       setShowValidation(true);
   };
 
+  const handleLintRuleChange = (id: string, severity: string) => {
+    const { [id]: _, ...rest } = lintConfig;
+    const next = severity === LINT_RULES.find(rule => rule.id === id)?.severity ? rest : { ...rest, [id]: severity as LintConfig[string] };
+    setLintConfig(next);
+    saveLintConfig(next);
+  };
+
+  // Selects the offending line in the input and scrolls it into view
+  const jumpToLine = (line: number) => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+    const lines = textarea.value.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, text) => offset + text.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + (lines[line - 1]?.length || 0));
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (line - 3) * lineHeight);
+  };
+
+  const toggleSeverity = (severity: FidelitySeverity) => {
+    setOpenSeverities(prev => prev.includes(severity) ? prev.filter(s => s !== severity) : [...prev, severity]);
+  };
+
+  // The Word template is kept in this browser for the next session
+  const handleTemplateChange = (next: DocxTemplate) => {
+    setTemplate(next);
+    saveDocxTemplate(next);
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(outputContent);
     setCopied(true);
@@ -88,9 +404,15 @@ export const Converter: React.FC = () => {
     let blob: Blob;
     let filename: string;
 
-    if (mode === ConversionMode.SPEC_TO_DOC) {
+    if (mode === ConversionMode.COMPARE) {
+      blob = await generateChangelogDocxBlob(compareSpecs(baseContent, inputContent));
+      filename = 'changelog.docx';
+    } else if (mode === ConversionMode.SPEC_TO_DOC && isMarkdownOutput) {
+      blob = new Blob([outputContent], { type: 'text/markdown' });
+      filename = 'documentation.md';
+    } else if (mode === ConversionMode.SPEC_TO_DOC) {
       // Generate Real DOCX on download
-      blob = await generateDocxBlob(inputContent, options);
+      blob = await generateDocxBlob(inputContent, options, template);
       filename = 'documentation.docx';
     } else {
       const type = options.outputFormat === SpecFormat.JSON ? 'application/json' : 'text/yaml';
@@ -98,6 +420,33 @@ export const Converter: React.FC = () => {
       filename = `openapi-spec.${options.outputFormat.toLowerCase()}`;
     }
 
+    triggerDownload(blob, filename);
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!inputContent) return;
+    triggerDownload(await generatePdfBlob(inputContent, options), 'documentation.pdf');
+  };
+
+  const handleDownloadHtml = () => {
+    if (!outputContent) return;
+    triggerDownload(new Blob([outputContent], { type: 'text/html' }), 'changelog.html');
+  };
+
+  const handleDownloadNormalized = () => {
+    const normalized = getNormalizedSpec(inputContent, options);
+    if (!normalized) return;
+    const type = options.outputFormat === SpecFormat.JSON ? 'application/json' : 'text/yaml';
+    triggerDownload(new Blob([normalized], { type }), `openapi-3.${options.outputFormat.toLowerCase()}`);
+  };
+
+  const handleDownloadBundle = () => {
+    if (!bundle) return;
+    const type = options.outputFormat === SpecFormat.JSON ? 'application/json' : 'text/yaml';
+    triggerDownload(new Blob([serializeSpec(bundle.spec, options)], { type }), `openapi-bundled.${options.outputFormat.toLowerCase()}`);
+  };
+
+  const triggerDownload = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -108,13 +457,52 @@ export const Converter: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const getPreviewHtml = (fullHtml: string) => {
-    const match = fullHtml.match(/<body[^>]*>([\s\S]*)<\/body>/i);
-    return match ? match[1] : fullHtml;
-  };
+  // Only the sanitized body of the document is injected into the page
+  const previewHtml = useMemo(() => isHtmlOutput && !isMarkdownOutput && outputContent ? sanitizeHtml(outputContent) : '', [outputContent, isHtmlOutput, isMarkdownOutput]);
 
   const loadSample = () => {
-    if (mode === ConversionMode.SPEC_TO_DOC) {
+    if (mode === ConversionMode.COMPARE) {
+      setBaseContent(`openapi: 3.0.0
+info:
+  title: Sample User API
+  version: 1.0.0
+paths:
+  /users:
+    get:
+      parameters:
+        - { name: limit, in: query, schema: { type: integer } }
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  id: { type: integer }
+                  role: { type: string, enum: [admin, member, guest] }`);
+      setInputContent(`openapi: 3.0.0
+info:
+  title: Sample User API
+  version: 2.0.0
+paths:
+  /users:
+    get:
+      parameters:
+        - { name: limit, in: query, schema: { type: integer } }
+        - { name: org, in: query, required: true, schema: { type: string } }
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  id: { type: string }
+                  role: { type: string, enum: [admin, member] }
+                  email: { type: string }`);
+    } else if (mode === ConversionMode.SPEC_TO_DOC) {
       setInputContent(`openapi: 3.0.0
 info:
   title: Sample User API
@@ -140,6 +528,7 @@ paths:
                 items: 
                   $ref: '#/components/schemas/User'`);
     } else {
+      setDocxFile(null);
       setInputContent("Paste generated HTML Source here...");
     }
   };
@@ -150,7 +539,7 @@ paths:
       {/* Validation Modal */}
       {showValidation && validationReport && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-            <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 animate-in zoom-in-95">
+            <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full p-6 animate-in zoom-in-95">
                 <div className="flex justify-between items-center mb-4">
                     <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
                         {validationReport.score === 100 ? <ShieldCheck className="text-green-600"/> : <AlertTriangle className="text-amber-500"/>}
@@ -164,20 +553,64 @@ paths:
                     <div className="text-sm text-slate-500 uppercase tracking-wide font-medium">Fidelity Score</div>
                 </div>
 
-                <div className="bg-slate-50 rounded-lg p-4 max-h-60 overflow-y-auto border border-slate-200">
-                    {validationReport.report.length === 0 ? (
+                {validationReport.issues.length > 0 && (
+                    <input
+                        value={issueFilter}
+                        onChange={(e) => setIssueFilter(e.target.value)}
+                        placeholder="Filter by JSON pointer, e.g. /paths/~1users"
+                        className="w-full mb-3 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200 font-mono"
+                    />
+                )}
+
+                <div className="bg-slate-50 rounded-lg p-4 max-h-96 overflow-y-auto border border-slate-200">
+                    {validationReport.issues.length === 0 ? (
                         <div className="text-green-600 flex items-center gap-2">
                             <Check size={16} /> No discrepancies found. Perfect round-trip!
                         </div>
                     ) : (
-                        <ul className="space-y-2">
-                            {validationReport.report.map((item, idx) => (
-                                <li key={idx} className="text-sm text-red-600 flex items-start gap-2">
-                                    <span className="mt-1 block h-1.5 w-1.5 rounded-full bg-red-500 flex-shrink-0"></span>
-                                    {item}
-                                </li>
-                            ))}
-                        </ul>
+                        <div className="space-y-3">
+                            {SEVERITY_GROUPS.map(({ severity, label, color }) => {
+                                const issues = validationReport.issues.filter(i => i.severity === severity && i.pointer.includes(issueFilter));
+                                if (issues.length === 0) return null;
+                                const isOpen = openSeverities.includes(severity);
+                                return (
+                                    <div key={severity}>
+                                        <button onClick={() => toggleSeverity(severity)} className="w-full flex items-center gap-2 text-sm font-semibold text-slate-700 hover:text-slate-900">
+                                            {isOpen ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                            <span className={`block h-2 w-2 rounded-full ${color}`}></span>
+                                            {label} ({issues.length})
+                                        </button>
+                                        {isOpen && (
+                                            <ul className="mt-2 ml-6 space-y-1">
+                                                {issues.map(issue => {
+                                                    const key = `${issue.kind}:${issue.pointer}`;
+                                                    return (
+                                                        <li key={key} className="text-sm">
+                                                            <button onClick={() => setOpenIssue(openIssue === key ? null : key)} className="w-full flex items-start gap-2 text-left hover:bg-white rounded px-1">
+                                                                <span className="text-xs uppercase font-semibold text-slate-400 w-16 flex-shrink-0 pt-0.5">{issue.kind}</span>
+                                                                <span className="font-mono text-slate-700 break-all">{issue.pointer || '/'}</span>
+                                                            </button>
+                                                            {openIssue === key && (
+                                                                <div className="grid grid-cols-2 gap-2 mt-1 mb-2 ml-16">
+                                                                    <div>
+                                                                        <div className="text-xs font-medium text-slate-500 mb-1">Original</div>
+                                                                        <pre className="bg-white border border-slate-200 rounded p-2 text-xs overflow-x-auto max-h-40">{formatIssueValue(issue.expected)}</pre>
+                                                                    </div>
+                                                                    <div>
+                                                                        <div className="text-xs font-medium text-slate-500 mb-1">Restored</div>
+                                                                        <pre className="bg-white border border-slate-200 rounded p-2 text-xs overflow-x-auto max-h-40">{formatIssueValue(issue.actual)}</pre>
+                                                                    </div>
+                                                                </div>
+                                                            )}
+                                                        </li>
+                                                    );
+                                                })}
+                                            </ul>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
                     )}
                 </div>
                 <div className="mt-6 flex justify-end">
@@ -187,12 +620,23 @@ paths:
         </div>
       )}
 
+      {showHistory && (
+        <HistoryPanel
+          items={history}
+          onRestore={restoreHistoryItem}
+          onRerun={handleRerunHistoryItem}
+          onDelete={handleDeleteHistoryItem}
+          onClear={handleClearHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Header Controls */}
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 flex flex-col sm:flex-row justify-between items-center gap-4">
         
         <div className="flex items-center space-x-4 bg-slate-100 p-1 rounded-xl">
           <button
-            onClick={() => mode !== ConversionMode.SPEC_TO_DOC && handleModeToggle()}
+            onClick={() => handleModeChange(ConversionMode.SPEC_TO_DOC)}
             className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
               mode === ConversionMode.SPEC_TO_DOC 
                 ? 'bg-white text-indigo-600 shadow-sm' 
@@ -203,7 +647,7 @@ paths:
             <span>Spec to Doc</span>
           </button>
           <button
-            onClick={() => mode !== ConversionMode.DOC_TO_SPEC && handleModeToggle()}
+            onClick={() => handleModeChange(ConversionMode.DOC_TO_SPEC)}
             className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
               mode === ConversionMode.DOC_TO_SPEC 
                 ? 'bg-white text-indigo-600 shadow-sm' 
@@ -213,10 +657,22 @@ paths:
             <FileText size={18} />
             <span>Doc to Spec</span>
           </button>
+          <button
+            onClick={() => handleModeChange(ConversionMode.COMPARE)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+              mode === ConversionMode.COMPARE 
+                ? 'bg-white text-indigo-600 shadow-sm' 
+                : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            <GitCompare size={18} />
+            <span>Compare</span>
+          </button>
         </div>
 
         <div className="flex items-center space-x-3">
            <Button variant="ghost" onClick={loadSample} title="Load Sample Data">Sample</Button>
+           <Button variant="ghost" icon={<History size={16}/>} onClick={() => setShowHistory(true)} title="Browse past conversions">History</Button>
 
            {mode === ConversionMode.SPEC_TO_DOC && (
                <Button 
@@ -230,31 +686,94 @@ paths:
                </Button>
            )}
 
+           {mode === ConversionMode.SPEC_TO_DOC && (
+               <Button
+                 variant={showLint ? 'secondary' : 'outline'}
+                 icon={<ListChecks size={16}/>}
+                 onClick={() => setShowLint(!showLint)}
+                 disabled={!inputContent.trim() && !showLint}
+                 title="Check the spec against the documentation rules"
+               >
+                 Lint
+               </Button>
+           )}
+
+          {mode === ConversionMode.SPEC_TO_DOC && (
+            <div className="relative">
+              <Button variant="outline" icon={<Palette size={18} />} onClick={() => { setShowTemplate(!showTemplate); setShowOptions(false); }} title="Word template and branding">Template</Button>
+              {showTemplate && (
+                <div className="absolute right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto bg-white rounded-xl shadow-xl border border-slate-200 z-50 p-4 animate-in fade-in slide-in-from-top-2">
+                  <h3 className="font-semibold text-slate-900 mb-3">Word Template</h3>
+                  <TemplatePanel template={template} onChange={handleTemplateChange} />
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="relative">
-            <Button variant="outline" icon={<Settings2 size={18} />} onClick={() => setShowOptions(!showOptions)}>Options</Button>
+            <Button variant="outline" icon={<Settings2 size={18} />} onClick={() => { setShowOptions(!showOptions); setShowTemplate(false); }}>Options</Button>
             {showOptions && (
               <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-200 z-50 p-4 space-y-4 animate-in fade-in slide-in-from-top-2">
                 <h3 className="font-semibold text-slate-900 mb-2">Configuration</h3>
-                {mode === ConversionMode.DOC_TO_SPEC && (
-                  <div>
-                    <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Output Format</label>
-                    <div className="flex bg-slate-100 rounded-lg p-1">
-                      {[SpecFormat.YAML, SpecFormat.JSON].map(fmt => (
-                        <button
-                          key={fmt}
-                          onClick={() => setOptions({...options, outputFormat: fmt})}
-                          className={`flex-1 text-xs py-1 rounded-md font-medium transition-all ${
-                            options.outputFormat === fmt ? 'bg-white shadow text-indigo-600' : 'text-slate-500'
-                          }`}
-                        >
-                          {fmt}
-                        </button>
-                      ))}
-                    </div>
+                {mode === ConversionMode.COMPARE && (
+                  <p className="text-xs text-slate-500">Compare has no options: it lists every change between the old and the new spec and flags the breaking ones.</p>
+                )}
+                {mode !== ConversionMode.COMPARE && (
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 uppercase mb-1">
+                    {mode === ConversionMode.DOC_TO_SPEC ? 'Output Format' : 'Normalized Spec Format'}
+                  </label>
+                  <div className="flex bg-slate-100 rounded-lg p-1">
+                    {[SpecFormat.YAML, SpecFormat.JSON].map(fmt => (
+                      <button
+                        key={fmt}
+                        onClick={() => setOptions({...options, outputFormat: fmt})}
+                        className={`flex-1 text-xs py-1 rounded-md font-medium transition-all ${
+                          options.outputFormat === fmt ? 'bg-white shadow text-indigo-600' : 'text-slate-500'
+                        }`}
+                      >
+                        {fmt}
+                      </button>
+                    ))}
                   </div>
+                  {mode === ConversionMode.SPEC_TO_DOC && (
+                    <p className="text-xs text-slate-400 mt-1">Used when downloading a bundled spec or a Swagger 2.0 input upgraded to OpenAPI 3.</p>
+                  )}
+                </div>
                 )}
                 {mode === ConversionMode.SPEC_TO_DOC && (
-                     <div className="text-sm text-slate-500 italic">No additional options for documentation generation.</div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Document Format</label>
+                  <div className="flex bg-slate-100 rounded-lg p-1">
+                    {[DocFormat.HTML, DocFormat.MARKDOWN].map(fmt => (
+                      <button
+                        key={fmt}
+                        onClick={() => setOptions({...options, docFormat: fmt})}
+                        className={`flex-1 text-xs py-1 rounded-md font-medium transition-all ${
+                          options.docFormat === fmt ? 'bg-white shadow text-indigo-600' : 'text-slate-500'
+                        }`}
+                      >
+                        {fmt === DocFormat.HTML ? 'HTML / DOCX' : 'Markdown'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                )}
+                {mode === ConversionMode.SPEC_TO_DOC && (
+                  <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      <input type="checkbox" checked={options.includeExamples} onChange={(e) => setOptions({...options, includeExamples: e.target.checked})} className="rounded text-indigo-600" />
+                      Include examples
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      <input type="checkbox" checked={options.includeAuthentication} onChange={(e) => setOptions({...options, includeAuthentication: e.target.checked})} className="rounded text-indigo-600" />
+                      Include authentication chapter
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                      <input type="checkbox" checked={options.groupByTag} onChange={(e) => setOptions({...options, groupByTag: e.target.checked})} className="rounded text-indigo-600" />
+                      Group endpoints by tag
+                    </label>
+                  </div>
                 )}
               </div>
             )}
@@ -275,45 +794,187 @@ paths:
         <div className="flex flex-col bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
           <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex justify-between items-center">
             <span className="font-medium text-slate-700 flex items-center gap-2">
-              {mode === ConversionMode.SPEC_TO_DOC ? <Code2 size={18}/> : <FileText size={18}/>}
-              {mode === ConversionMode.SPEC_TO_DOC ? "OpenAPI Specification" : "Doc Source (HTML)"}
+              {mode === ConversionMode.DOC_TO_SPEC ? <FileText size={18}/> : <Code2 size={18}/>}
+              {mode === ConversionMode.DOC_TO_SPEC ? "Doc Source (HTML / DOCX / Markdown)" : mode === ConversionMode.COMPARE ? "Old & New Specifications" : "OpenAPI Specification"}
             </span>
-            <button onClick={() => setInputContent('')} className="text-slate-400 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+            <div className="flex items-center space-x-3">
+              {mode === ConversionMode.COMPARE ? null : mode === ConversionMode.DOC_TO_SPEC ? (
+                <>
+                  <input ref={fileInputRef} type="file" accept=".docx,.html,.htm,.md,.markdown" className="hidden" onChange={handleFileSelect} />
+                  <button onClick={() => fileInputRef.current?.click()} className="text-slate-400 hover:text-indigo-600 transition-colors" title="Upload .docx, .html or .md"><Upload size={16} /></button>
+                </>
+              ) : (
+                <>
+                  <input ref={fileInputRef} type="file" accept=".yaml,.yml,.json,.zip" className="hidden" onChange={handleFileSelect} />
+                  <input ref={folderInputRef} type="file" multiple className="hidden" onChange={handleFolderSelect} {...{ webkitdirectory: '' }} />
+                  <button onClick={() => fileInputRef.current?.click()} className="text-slate-400 hover:text-indigo-600 transition-colors" title="Upload a spec file or a .zip of spec files"><Upload size={16} /></button>
+                  <button onClick={() => folderInputRef.current?.click()} className="text-slate-400 hover:text-indigo-600 transition-colors" title="Upload a folder of spec files"><FolderOpen size={16} /></button>
+                </>
+              )}
+              <button onClick={handleClearInput} className="text-slate-400 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+            </div>
           </div>
-          <div className="flex-1 relative">
+          {bundle && (
+            <div className="px-4 py-2 bg-indigo-50 border-b border-indigo-100 flex justify-between items-center text-xs text-indigo-700">
+              <span className="flex items-center gap-2">
+                <Package size={14} />
+                Bundled {bundle.fileCount} files from {bundle.source} (entry: {bundle.entry})
+              </span>
+              <button onClick={handleDownloadBundle} className="flex items-center gap-1 font-medium hover:text-indigo-900" title="Download the bundled single-file spec">
+                <Download size={14} /> Bundled spec
+              </button>
+            </div>
+          )}
+          <div
+            className={`flex-1 relative ${isDragging ? 'ring-2 ring-inset ring-indigo-400 bg-indigo-50/50' : ''}`}
+            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            {mode === ConversionMode.COMPARE ? (
+              <div className="absolute inset-0 flex flex-col">
+                <div className="flex-1 relative border-b border-slate-200">
+                  <span className="absolute top-2 right-3 text-xs font-medium text-slate-400 uppercase">Old version</span>
+                  <textarea
+                    value={baseContent}
+                    onChange={(e) => setBaseContent(e.target.value)}
+                    placeholder="Paste the previous YAML/JSON spec here..."
+                    className="absolute inset-0 w-full h-full p-4 resize-none focus:ring-0 focus:outline-none font-mono text-sm text-slate-800 bg-transparent"
+                    spellCheck={false}
+                  />
+                </div>
+                <div className="flex-1 relative">
+                  <span className="absolute top-2 right-3 text-xs font-medium text-slate-400 uppercase">New version</span>
+                  <textarea
+                    value={inputContent}
+                    onChange={(e) => setInputContent(e.target.value)}
+                    placeholder="Paste the new YAML/JSON spec here..."
+                    className="absolute inset-0 w-full h-full p-4 resize-none focus:ring-0 focus:outline-none font-mono text-sm text-slate-800 bg-transparent"
+                    spellCheck={false}
+                  />
+                </div>
+              </div>
+            ) : docxFile ? (
+              <div className="absolute inset-0 flex flex-col items-center justify-center text-slate-500 space-y-3">
+                <FileText size={48} className="text-indigo-500 opacity-60" />
+                <span className="font-medium text-slate-700">{docxFile.name}</span>
+                <span className="text-xs">Word document will be parsed locally on Generate.</span>
+                <button onClick={() => setDocxFile(null)} className="text-xs text-slate-400 hover:text-red-500 flex items-center gap-1"><X size={14} /> Remove file</button>
+              </div>
+            ) : (
             <textarea
+              ref={inputRef}
               value={inputContent}
               onChange={(e) => setInputContent(e.target.value)}
-              placeholder={mode === ConversionMode.SPEC_TO_DOC ? "Paste YAML/JSON here..." : "Paste the HTML Source code from a previously generated document..."}
+              placeholder={mode === ConversionMode.SPEC_TO_DOC ? "Paste YAML/JSON here, or drop a file, folder or .zip of a multi-file spec..." : "Paste the HTML Source or Markdown of a previously generated document, or upload the .docx..."}
               className="absolute inset-0 w-full h-full p-4 resize-none focus:ring-0 focus:outline-none font-mono text-sm text-slate-800"
               spellCheck={false}
             />
+            )}
           </div>
+          {showLint && mode === ConversionMode.SPEC_TO_DOC && (
+            <div className="border-t border-slate-200 flex flex-col max-h-64">
+              <div className="bg-slate-50 px-4 py-2 border-b border-slate-200 flex justify-between items-center text-sm">
+                <span className="font-medium text-slate-700 flex items-center gap-3">
+                  <ListChecks size={16} /> Lint
+                  {lintResult && !lintResult.error && SEVERITY_GROUPS.map(({ severity, color }) => (
+                    <span key={severity} className="flex items-center gap-1 text-xs text-slate-500">
+                      <span className={`block h-2 w-2 rounded-full ${color}`}></span>
+                      {lintResult.issues.filter(i => i.severity === severity).length}
+                    </span>
+                  ))}
+                </span>
+                <div className="flex items-center gap-3">
+                  <button onClick={() => setShowLintRules(!showLintRules)} className={`text-xs font-medium ${showLintRules ? 'text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}>Rules</button>
+                  <button onClick={() => setShowLint(false)} className="text-slate-400 hover:text-slate-600"><X size={14} /></button>
+                </div>
+              </div>
+              <div className="overflow-y-auto">
+                {showLintRules ? (
+                  <ul className="divide-y divide-slate-100">
+                    {LINT_RULES.map(rule => (
+                      <li key={rule.id} className="px-4 py-1.5 flex items-center justify-between gap-3 text-sm">
+                        <span className="min-w-0">
+                          <span className="font-mono text-xs text-slate-700">{rule.id}</span>
+                          <span className="block text-xs text-slate-400 truncate">{rule.description}</span>
+                        </span>
+                        <select
+                          value={lintConfig[rule.id] || rule.severity}
+                          onChange={(e) => handleLintRuleChange(rule.id, e.target.value)}
+                          className="text-xs border border-slate-200 rounded-md px-1 py-0.5 bg-white text-slate-700"
+                        >
+                          {['error', 'warning', 'info', 'off'].map(level => <option key={level} value={level}>{level}</option>)}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                ) : !lintResult ? (
+                  <div className="px-4 py-3 text-sm text-slate-400">Paste or upload a spec to lint it.</div>
+                ) : lintResult.error ? (
+                  <div className="px-4 py-3 text-sm text-red-600 flex items-center gap-2"><AlertTriangle size={16} /> {lintResult.error}</div>
+                ) : lintResult.issues.length === 0 ? (
+                  <div className="px-4 py-3 text-sm text-green-600 flex items-center gap-2"><Check size={16} /> No lint issues found.</div>
+                ) : (
+                  <ul>
+                    {lintResult.issues.map((issue, i) => (
+                      <li key={`${issue.rule}:${issue.pointer}:${i}`}>
+                        <button
+                          onClick={() => jumpToLine(issue.line)}
+                          className="w-full flex items-start gap-2 px-4 py-1 text-left text-sm hover:bg-slate-50"
+                          title={issue.pointer || '/'}
+                        >
+                          <span className={`block h-2 w-2 mt-1.5 rounded-full flex-shrink-0 ${SEVERITY_GROUPS.find(g => g.severity === issue.severity)?.color}`}></span>
+                          <span className="font-mono text-xs text-slate-400 w-10 flex-shrink-0 pt-0.5">L{issue.line}</span>
+                          <span className="flex-1 text-slate-700">{issue.message}</span>
+                          <span className="font-mono text-xs text-slate-400 flex-shrink-0 pt-0.5">{issue.rule}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex flex-col bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
           <div className="bg-slate-50 px-4 py-3 border-b border-slate-200 flex justify-between items-center">
             <span className="font-medium text-slate-700 flex items-center gap-2">
-              {mode === ConversionMode.SPEC_TO_DOC ? <FileText size={18}/> : <Code2 size={18}/>}
+              {isHtmlOutput ? <FileText size={18}/> : <Code2 size={18}/>}
               Output
             </span>
             
             <div className="flex items-center space-x-2">
               {outputContent && (
                 <>
-                  {mode === ConversionMode.SPEC_TO_DOC && (
+                  {isHtmlOutput && (
                       <button 
                         onClick={() => setShowSource(!showSource)}
                         className={`p-1.5 rounded-lg transition-colors flex items-center gap-1 ${showSource ? 'bg-indigo-100 text-indigo-700' : 'text-slate-500 hover:bg-slate-200'}`}
-                        title={showSource ? "View Preview" : "View XML Source"}
+                        title={showSource ? "View Preview" : isMarkdownOutput ? "View Markdown Source" : "View XML Source"}
                       >
                          {showSource ? <Eye size={18} /> : <EyeOff size={18} />}
                       </button>
                   )}
+                  {isSwaggerInput && (
+                      <button onClick={handleDownloadNormalized} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg transition-colors" title="Download Swagger 2.0 input as OpenAPI 3">
+                        <FileJson size={18} />
+                      </button>
+                  )}
                   <button onClick={handleCopy} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg transition-colors" title="Copy to Clipboard">
                     {copied ? <Check size={18} className="text-green-600" /> : <Copy size={18} />}
                   </button>
-                  <button onClick={handleDownload} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg transition-colors" title="Download (.docx)">
+                  {mode === ConversionMode.COMPARE && (
+                      <button onClick={handleDownloadHtml} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg transition-colors" title="Download change log (.html)">
+                        <FileCode size={18} />
+                      </button>
+                  )}
+                  {mode === ConversionMode.SPEC_TO_DOC && (
+                      <button onClick={handleDownloadPdf} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg transition-colors" title="Download (.pdf)">
+                        <FileDown size={18} />
+                      </button>
+                  )}
+                  <button onClick={handleDownload} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg transition-colors" title={isMarkdownOutput ? "Download (.md)" : "Download (.docx)"}>
                     <Download size={18} />
                   </button>
                 </>
@@ -323,11 +984,13 @@ paths:
           <div ref={outputRef} className="flex-1 relative bg-slate-50/50 overflow-auto">
             {outputContent ? (
               <div className="p-6 prose prose-indigo max-w-none">
-                {mode === ConversionMode.SPEC_TO_DOC ? (
+                {isHtmlOutput ? (
                   showSource ? (
                     <pre className="bg-slate-900 text-slate-100 p-4 rounded-lg overflow-x-auto text-xs font-mono">{outputContent}</pre>
+                  ) : isMarkdownOutput ? (
+                    <ReactMarkdown remarkPlugins={[remarkGfm, remarkCellBreaks]} skipHtml>{outputContent}</ReactMarkdown>
                   ) : (
-                    <div dangerouslySetInnerHTML={{ __html: getPreviewHtml(outputContent) }} />
+                    <div dangerouslySetInnerHTML={{ __html: previewHtml }} />
                   )
                 ) : (
                   <pre className="bg-slate-900 text-slate-100 p-4 rounded-lg overflow-x-auto text-sm"><code>{outputContent}</code></pre>
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Code2, FileText, GitCompare, History, RotateCcw, Play, Search, Trash2, X } from 'lucide-react';
+import { ConversionMode, HistoryItem } from '../types';
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  onRestore: (item: HistoryItem) => void;
+  onRerun: (item: HistoryItem) => void;
+  onDelete: (item: HistoryItem) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<ConversionMode, { label: string, icon: React.ReactNode }> = {
+  [ConversionMode.SPEC_TO_DOC]: { label: 'Spec to Doc', icon: <Code2 size={14} /> },
+  [ConversionMode.DOC_TO_SPEC]: { label: 'Doc to Spec', icon: <FileText size={14} /> },
+  [ConversionMode.COMPARE]: { label: 'Compare', icon: <GitCompare size={14} /> },
+};
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ items, onRestore, onRerun, onDelete, onClear, onClose }) => {
+  const [query, setQuery] = useState('');
+
+  // Matches the label, the mode and the full input so a path or schema name finds the conversion
+  const needle = query.trim().toLowerCase();
+  const visibleItems = needle
+    ? items.filter(item => [item.preview, MODE_LABELS[item.mode].label, item.input, item.baseInput || '', item.docx?.name || '']
+        .some(text => text.toLowerCase().includes(needle)))
+    : items;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <aside className="bg-white w-full max-w-md h-full shadow-2xl flex flex-col animate-in slide-in-from-right" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-slate-200 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <History size={18} className="text-indigo-600" />
+            History
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={18} /></button>
+        </div>
+
+        <div className="p-4 border-b border-slate-100">
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search title, mode or spec content..."
+              className="w-full pl-8 pr-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {visibleItems.length === 0 ? (
+            <div className="p-8 text-center text-sm text-slate-400">
+              {items.length === 0 ? 'Conversions will be listed here after you press Generate.' : 'No conversion matches your search.'}
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {visibleItems.map(item => (
+                <li key={item.id} className="px-4 py-3 hover:bg-slate-50 group">
+                  <div className="flex justify-between items-start gap-2">
+                    <button onClick={() => onRestore(item)} className="text-left min-w-0" title="Restore input and output">
+                      <div className="font-medium text-slate-800 truncate">{item.preview}</div>
+                      <div className="text-xs text-slate-400 flex items-center gap-1 mt-0.5">
+                        {MODE_LABELS[item.mode].icon}
+                        {MODE_LABELS[item.mode].label} · {formatTimestamp(item.timestamp)}
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-1 flex-shrink-0 opacity-60 group-hover:opacity-100">
+                      <button onClick={() => onRestore(item)} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg" title="Restore"><RotateCcw size={14} /></button>
+                      <button onClick={() => onRerun(item)} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-lg" title="Re-run with the current converter"><Play size={14} /></button>
+                      <button onClick={() => onDelete(item)} className="p-1.5 text-slate-500 hover:bg-red-50 hover:text-red-500 rounded-lg" title="Delete"><Trash2 size={14} /></button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="px-4 py-3 border-t border-slate-200 flex justify-between items-center text-xs text-slate-400">
+            <span>{items.length} saved in this browser</span>
+            <button onClick={onClear} className="hover:text-red-500">Clear all</button>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useRef } from 'react';
+import { ArrowDown, ArrowUp, Image, RotateCcw, Upload, X } from 'lucide-react';
+import { DocSection, DocxTemplate } from '../types';
+import { DEFAULT_DOCX_TEMPLATE, DOC_SECTION_LABELS } from '../services/docxTemplate';
+
+interface TemplatePanelProps {
+  template: DocxTemplate;
+  onChange: (template: DocxTemplate) => void;
+}
+
+// Logos are scaled to this height in the page header
+const LOGO_HEIGHT = 40;
+
+const COLOR_FIELDS: { key: 'accentColor' | 'tableHeaderFill' | 'tableBorderColor', label: string }[] = [
+  { key: 'accentColor', label: 'Accent' },
+  { key: 'tableHeaderFill', label: 'Table header' },
+  { key: 'tableBorderColor', label: 'Borders' },
+];
+
+const FRONT_MATTER_FIELDS: { key: 'coverPage' | 'tableOfContents' | 'revisionHistory' | 'pageNumbers', label: string }[] = [
+  { key: 'coverPage', label: 'Cover page' },
+  { key: 'tableOfContents', label: 'Table of contents' },
+  { key: 'revisionHistory', label: 'Revision history' },
+  { key: 'pageNumbers', label: 'Page X of Y in footer' },
+];
+
+const readImageSize = (url: string) => new Promise<{ width: number, height: number }>((resolve, reject) => {
+  const img = new window.Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => reject(new Error('Unsupported image'));
+  img.src = url;
+});
+
+export const TemplatePanel: React.FC<TemplatePanelProps> = ({ template, onChange }) => {
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  // Disabled chapters stay listed after the enabled ones so they can be switched back on
+  const orderedSections: DocSection[] = [
+    ...template.sections,
+    ...Object.values(DocSection).filter(s => !template.sections.includes(s)),
+  ];
+
+  const update = (changes: Partial<DocxTemplate>) => onChange({ ...template, ...changes });
+
+  const toggleSection = (section: DocSection) => {
+    update({
+      sections: template.sections.includes(section)
+        ? template.sections.filter(s => s !== section)
+        : [...template.sections, section]
+    });
+  };
+
+  const moveSection = (section: DocSection, offset: number) => {
+    const sections = [...template.sections];
+    const index = sections.indexOf(section);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= sections.length) return;
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    update({ sections });
+  };
+
+  const handleReferenceSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) update({ referenceDocx: { name: file.name, data: await file.arrayBuffer() } });
+  };
+
+  const handleLogoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    try {
+      const size = await readImageSize(url);
+      const width = Math.round(size.width * LOGO_HEIGHT / size.height);
+      update({ logo: { name: file.name, data: await file.arrayBuffer(), width, height: LOGO_HEIGHT } });
+    } catch (error) {
+      console.error("Error reading logo:", error);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Reference document</label>
+        <input ref={referenceInputRef} type="file" accept=".docx,.dotx" className="hidden" onChange={handleReferenceSelect} />
+        {template.referenceDocx ? (
+          <div className="flex items-center justify-between bg-slate-50 rounded-lg px-2 py-1.5">
+            <span className="truncate text-slate-700">{template.referenceDocx.name}</span>
+            <button onClick={() => update({ referenceDocx: undefined })} className="text-slate-400 hover:text-red-500" title="Remove"><X size={14} /></button>
+          </div>
+        ) : (
+          <button onClick={() => referenceInputRef.current?.click()} className="w-full flex items-center justify-center gap-2 border border-dashed border-slate-300 rounded-lg py-1.5 text-slate-500 hover:border-indigo-400 hover:text-indigo-600">
+            <Upload size={14} /> Upload .docx / .dotx
+          </button>
+        )}
+        <p className="text-xs text-slate-400 mt-1">Styles, numbering, headers, footers and its cover page (a Word cover page or the first section) are taken from this document.</p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Header & footer</label>
+        <input ref={logoInputRef} type="file" accept=".png,.jpg,.jpeg,.gif,.bmp" className="hidden" onChange={handleLogoSelect} />
+        <div className="flex items-center gap-2 mb-2">
+          {template.logo ? (
+            <div className="flex-1 flex items-center justify-between bg-slate-50 rounded-lg px-2 py-1.5">
+              <span className="truncate text-slate-700 flex items-center gap-1"><Image size={14} /> {template.logo.name}</span>
+              <button onClick={() => update({ logo: undefined })} className="text-slate-400 hover:text-red-500" title="Remove logo"><X size={14} /></button>
+            </div>
+          ) : (
+            <button onClick={() => logoInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-2 border border-dashed border-slate-300 rounded-lg py-1.5 text-slate-500 hover:border-indigo-400 hover:text-indigo-600">
+              <Image size={14} /> Add logo
+            </button>
+          )}
+        </div>
+        <input
+          value={template.headerText || ''}
+          onChange={(e) => update({ headerText: e.target.value })}
+          placeholder="Header text"
+          className="w-full mb-2 px-2 py-1.5 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <input
+          value={template.footerText || ''}
+          onChange={(e) => update({ footerText: e.target.value })}
+          placeholder="Footer text"
+          className="w-full px-2 py-1.5 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-200"
+        />
+        <p className="text-xs text-slate-400 mt-1">When set, these replace the header or footer of the reference document (so does the page number footer).</p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Colors</label>
+        <div className="flex gap-3">
+          {COLOR_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col items-center gap-1 text-xs text-slate-500">
+              <input
+                type="color"
+                value={`#${template[key]}`}
+                onChange={(e) => update({ [key]: e.target.value.replace('#', '') })}
+                className="h-7 w-10 rounded border border-slate-200"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Front matter</label>
+        <div className="space-y-1">
+          {FRONT_MATTER_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-slate-700">
+              <input type="checkbox" checked={template[key]} onChange={(e) => update({ [key]: e.target.checked })} className="rounded text-indigo-600" />
+              {label}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400 mt-1">Revisions are read from <code>info.x-revisions</code> when the spec has them.</p>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-500 uppercase mb-1">Chapters</label>
+        <ul className="space-y-1">
+          {orderedSections.map(section => {
+            const enabled = template.sections.includes(section);
+            const index = template.sections.indexOf(section);
+            return (
+              <li key={section} className="flex items-center gap-2">
+                <label className={`flex-1 flex items-center gap-2 ${enabled ? 'text-slate-700' : 'text-slate-400'}`}>
+                  <input type="checkbox" checked={enabled} onChange={() => toggleSection(section)} className="rounded text-indigo-600" />
+                  {DOC_SECTION_LABELS[section]}
+                </label>
+                {enabled && (
+                  <>
+                    <button onClick={() => moveSection(section, -1)} disabled={index === 0} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move up"><ArrowUp size={14} /></button>
+                    <button onClick={() => moveSection(section, 1)} disabled={index === template.sections.length - 1} className="text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Move down"><ArrowDown size={14} /></button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <button onClick={() => onChange(DEFAULT_DOCX_TEMPLATE)} className="flex items-center gap-1 text-xs text-slate-400 hover:text-slate-600">
+        <RotateCcw size={12} /> Reset template
+      </button>
+    </div>
+  );
+};
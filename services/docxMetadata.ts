@@ -0,0 +1,107 @@
+// DOCX ROUND-TRIP METADATA
+// Word files cannot carry the data-* attributes the HTML preview relies on.
+// generateDocxBlob wraps key elements in bookmarks instead, and this module
+// stores what each bookmark stands for in a custom XML part, which Word keeps
+// untouched when a writer edits and re-saves the document.
+
+import JSZip from 'jszip';
+
+const METADATA_NAMESPACE = 'urn:specweaver:roundtrip:v1';
+const BOOKMARK_PREFIX = 'sw_';
+
+export interface DocxMetadataEntry {
+  operationId?: string;
+  tags?: string[];
+  security?: any[];
+  securityRequirement?: any; // Requirement of a "Global Security" bullet, whose scheme name may hold any character
+  callback?: string; // Name of the callback the operation heading belongs to
+  schemaRef?: string;
+  defs?: Record<string, any>; // 3.1 $defs of the schema a table shows
+  rawPath?: string;
+  ref?: string;
+  refDescription?: boolean; // The row description sits next to its $ref
+  param?: any; // Parameter schema and serialization settings (style, explode, examples...)
+  paramRef?: string; // Shared parameter of the row (#/components/parameters/...)
+  paramLevel?: 'path'; // The parameter is declared on the path item rather than the operation
+  requestBodyRef?: string; // Shared request body of the "Request Body" heading
+  responseRef?: string; // Shared response of the "HTTP code" line
+  headerRef?: string; // Shared header of a response header row
+  encoding?: any; // Encoding object of a multipart or form body media type
+  variants?: { path: string, kind: 'oneOf' | 'anyOf', type: string }; // oneOf/anyOf section after a schema table
+  info?: any; // spec.info fields shown only in the front matter (contact, license...)
+  tag?: string; // Tag chapter of the grouped endpoint layout ('' for "Other")
+  declaredTag?: boolean; // The chapter tag is listed in the top-level tags array
+  tagGroup?: string; // x-tagGroups entry around the heading
+}
+
+export interface DocxRoundTripMetadata {
+  openapi?: string;
+  entries: Record<string, DocxMetadataEntry>;
+}
+
+/**
+ * Hands out bookmark names and records the metadata attached to each one
+ */
+export const createMetadataCollector = (openapi?: string) => {
+  const metadata: DocxRoundTripMetadata = { openapi, entries: {} };
+  let counter = 0;
+
+  const mark = (kind: 'op' | 'tbl' | 'row' | 'info' | 'tag' | 'sec', entry: DocxMetadataEntry): string => {
+    counter++;
+    const id = `${BOOKMARK_PREFIX}${kind}_${counter}`;
+    metadata.entries[id] = entry;
+    return id;
+  };
+
+  return { metadata, mark };
+};
+
+export const isMetadataBookmark = (name: string) => name.startsWith(BOOKMARK_PREFIX);
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Adds the metadata as customXml/item1.xml (plus its properties part and
+ * relationships) to a packed DOCX.
+ */
+export const embedRoundTripMetadata = async (docx: Blob, metadata: DocxRoundTripMetadata): Promise<Blob> => {
+  const zip = await JSZip.loadAsync(await docx.arrayBuffer());
+
+  zip.file('customXml/item1.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><specweaver xmlns="${METADATA_NAMESPACE}">${escapeXml(JSON.stringify(metadata))}</specweaver>`);
+  zip.file('customXml/itemProps1.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?><ds:datastoreItem ds:itemID="{5E1D3C2A-8B4F-4C61-9A7E-2F0B6D9C4E31}" xmlns:ds="http://schemas.openxmlformats.org/officeDocument/2006/customXml"><ds:schemaRefs><ds:schemaRef ds:uri="${METADATA_NAMESPACE}"/></ds:schemaRefs></ds:datastoreItem>`);
+  zip.file('customXml/_rels/item1.xml.rels',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXmlProps" Target="itemProps1.xml"/></Relationships>`);
+
+  const contentTypes = await zip.file('[Content_Types].xml')!.async('string');
+  zip.file('[Content_Types].xml', contentTypes.replace('</Types>',
+    `<Override ContentType="application/vnd.openxmlformats-officedocument.customXmlProperties+xml" PartName="/customXml/itemProps1.xml"/></Types>`));
+
+  const documentRels = await zip.file('word/_rels/document.xml.rels')!.async('string');
+  zip.file('word/_rels/document.xml.rels', documentRels.replace('</Relationships>',
+    `<Relationship Id="rIdSpecWeaverMetadata" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXml" Target="../customXml/item1.xml"/></Relationships>`));
+
+  return zip.generateAsync({ type: 'blob', mimeType: docx.type || 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
+
+/**
+ * Finds the SpecWeaver custom XML part in a DOCX package. Word may renumber
+ * the part on save, so every customXml item is inspected.
+ */
+export const readRoundTripMetadata = async (zip: JSZip): Promise<DocxRoundTripMetadata | null> => {
+  const items = zip.file(/^customXml\/item\d+\.xml$/);
+  for (const item of items) {
+    const xml = await item.async('string');
+    if (!xml.includes(METADATA_NAMESPACE)) continue;
+
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    try {
+      const metadata = JSON.parse(doc.documentElement.textContent || '');
+      if (metadata && metadata.entries) return metadata;
+    } catch (e) {
+      // Corrupted part: fall back to the visible document content
+    }
+  }
+  return null;
+};
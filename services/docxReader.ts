@@ -0,0 +1,827 @@
+// LOCAL DOCX IMPORT SERVICE
+// Unzips a Word document in the browser and rebuilds an OpenAPI spec from the
+// headings and tables written by generateDocxBlob. Nothing leaves the machine.
+
+import JSZip from 'jszip';
+import { ConversionOptions } from '../types';
+import { applySchemaVariants, OAUTH_FLOW_FIELDS, parseEncodingPart, parseExampleValue, restoreVariantTitle, schemaFromTypeLabel, SECURITY_SCHEME_FIELDS, splitSchemaNotes, stripParameterNotes, unflattenSchema } from './specModel';
+import { registerSharedComponent, serializeSpec } from './geminiService';
+import { DocxMetadataEntry, DocxRoundTripMetadata, isMetadataBookmark, readRoundTripMetadata } from './docxMetadata';
+
+// `markdown` is the paragraph with its formatting written back as Markdown (descriptions)
+export type DocxBlock =
+  | { kind: 'paragraph'; style: string; text: string; markdown?: string; bookmarks: string[] }
+  | { kind: 'table'; rows: string[][]; rowBookmarks: string[][] };
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Local part of a WordprocessingML element name ("w:p" -> "p"). Read from the
+ * qualified tag name so it behaves the same in browser and Node DOM parsers.
+ */
+const wName = (el: Element): string => el.tagName.split(':').pop() || '';
+
+const wChildren = (el: Element, name: string): Element[] => Array.from(el.children).filter(c => wName(c) === name);
+
+/**
+ * Collects the visible text of a paragraph, honouring tabs and line breaks
+ */
+const readParagraphText = (p: Element): string => {
+  let text = '';
+  const walk = (node: Element) => {
+    Array.from(node.children).forEach(child => {
+      const name = wName(child);
+      if (name === 't') text += child.textContent || '';
+      else if (name === 'tab') text += '\t';
+      else if (name === 'br') text += '\n';
+      else if (name !== 'pPr' && name !== 'rPr') walk(child);
+    });
+  };
+  walk(p);
+  return text;
+};
+
+// Relationship id -> target of the external links in word/document.xml
+type DocxLinks = Record<string, string>;
+
+const isOn = (props: Element | undefined, name: string): boolean => {
+  const el = props && wChildren(props, name)[0];
+  if (!el) return false;
+  const val = el.getAttribute('w:val');
+  return val !== 'false' && val !== '0';
+};
+
+const isCodeFont = (rPr: Element | undefined): boolean => {
+  const fonts = rPr && wChildren(rPr, 'rFonts')[0];
+  return /courier|consolas|mono/i.test(fonts?.getAttribute('w:ascii') || '');
+};
+
+/**
+ * Wraps text in emphasis markers, keeping surrounding spaces outside them
+ * (CommonMark ignores "** bold**")
+ */
+const wrapMarker = (text: string, marker: string): string => {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+};
+
+type RunFormat = { bold: boolean, italics: boolean, strike: boolean, code: boolean };
+
+/**
+ * Reads a paragraph as Markdown, the reverse of markdownToDocx: bold, italic,
+ * struck-through and monospace runs get their markers, hyperlinks become
+ * [text](url), bullets "- " items and shaded monospace paragraphs code fences.
+ */
+const readParagraphMarkdown = (p: Element, links: DocxLinks): string => {
+  // Word splits text into runs freely, so neighbouring runs with the same format are merged first
+  const segments: { text: string, format: RunFormat, link?: string }[] = [];
+  const collect = (node: Element, link?: string) => {
+    Array.from(node.children).forEach(child => {
+      const name = wName(child);
+      if (name === 'r') {
+        const rPr = wChildren(child, 'rPr')[0];
+        const text = readParagraphText(child);
+        if (!text) return;
+        const format = { bold: isOn(rPr, 'b'), italics: isOn(rPr, 'i'), strike: isOn(rPr, 'strike'), code: isCodeFont(rPr) };
+        const last = segments[segments.length - 1];
+        if (last && last.link === link && JSON.stringify(last.format) === JSON.stringify(format)) last.text += text;
+        else segments.push({ text, format, link });
+      } else if (name === 'hyperlink') {
+        collect(child, links[child.getAttribute('r:id') || ''] || '');
+      } else if (name !== 'pPr') {
+        collect(child, link);
+      }
+    });
+  };
+  collect(p);
+
+  const format = ({ text, format }: { text: string, format: RunFormat }): string => {
+    let run = format.code ? `\`${text}\`` : text;
+    if (format.strike) run = wrapMarker(run, '~~');
+    if (format.italics) run = wrapMarker(run, '*');
+    if (format.bold) run = wrapMarker(run, '**');
+    return run;
+  };
+
+  let markdown = '';
+  for (let i = 0; i < segments.length; i++) {
+    const { link } = segments[i];
+    if (link === undefined) {
+      markdown += format(segments[i]);
+      continue;
+    }
+    let text = '';
+    for (; i < segments.length && segments[i].link === link; i++) text += format(segments[i]);
+    i--;
+    markdown += !link || link === text ? text : `[${text}](${link})`;
+  }
+
+  const pPr = wChildren(p, 'pPr')[0];
+  if (pPr && wChildren(pPr, 'shd')[0] && segments.length && segments.every(seg => seg.format.code)) {
+    return `\`\`\`\n${readParagraphText(p)}\n\`\`\``;
+  }
+  const numPr = pPr && wChildren(pPr, 'numPr')[0];
+  if (numPr) {
+    const level = parseInt(wChildren(numPr, 'ilvl')[0]?.getAttribute('w:val') || '0', 10);
+    return `${'  '.repeat(level)}- ${markdown}`;
+  }
+  return markdown;
+};
+
+const LIST_ITEM = /^\s*([-*+]|\d+\.)\s/;
+
+/**
+ * Joins the paragraphs of a description: list items stay on consecutive
+ * lines, anything else is a new Markdown paragraph
+ */
+export const joinMarkdownParagraphs = (first: string, next: string): string => {
+  if (!first) return next;
+  const lastLine = first.split('\n').pop() || '';
+  return `${first}${LIST_ITEM.test(lastLine) && LIST_ITEM.test(next) ? '\n' : '\n\n'}${next}`;
+};
+
+const readParagraphStyle = (p: Element): string => {
+  const pPr = wChildren(p, 'pPr')[0];
+  const pStyle = pPr && wChildren(pPr, 'pStyle')[0];
+  return pStyle?.getAttribute('w:val') || '';
+};
+
+const readBookmarks = (el: Element): string[] => {
+  return Array.from(el.getElementsByTagName('w:bookmarkStart'))
+    .map(b => b.getAttribute('w:name') || '')
+    .filter(isMetadataBookmark);
+};
+
+const readTable = (tbl: Element, links: DocxLinks): string[][] => {
+  return wChildren(tbl, 'tr')
+    .map(tr => wChildren(tr, 'tc')
+      .map(tc => wChildren(tc, 'p')
+        .map(p => readParagraphMarkdown(p, links).trimEnd())
+        .reduce(joinMarkdownParagraphs, '')
+        .trim()));
+};
+
+const readLinks = async (zip: JSZip): Promise<DocxLinks> => {
+  const rels = await zip.file('word/_rels/document.xml.rels')?.async('string');
+  const links: DocxLinks = {};
+  if (!rels) return links;
+  const xml = new DOMParser().parseFromString(rels, 'application/xml');
+  Array.from(xml.getElementsByTagName('Relationship')).forEach(rel => {
+    if (rel.getAttribute('TargetMode') === 'External') links[rel.getAttribute('Id') || ''] = rel.getAttribute('Target') || '';
+  });
+  return links;
+};
+
+/**
+ * Reads word/document.xml into a flat sequence of paragraphs and tables,
+ * together with the round-trip metadata part when the file carries one.
+ */
+export const readDocx = async (data: ArrayBuffer): Promise<{ blocks: DocxBlock[], metadata: DocxRoundTripMetadata | null }> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (e) {
+    throw new Error("Invalid file. Please provide a .docx document.");
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error("Invalid .docx: word/document.xml is missing.");
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+  const body = xml.getElementsByTagName('w:body')[0];
+  if (!body) throw new Error("Invalid .docx: document body is missing.");
+
+  const links = await readLinks(zip);
+  const blocks: DocxBlock[] = [];
+  Array.from(body.children).forEach(el => {
+    if (wName(el) === 'p') {
+      blocks.push({
+        kind: 'paragraph',
+        style: readParagraphStyle(el),
+        text: readParagraphText(el).trim(),
+        markdown: readParagraphMarkdown(el, links).trimEnd(),
+        bookmarks: readBookmarks(el)
+      });
+    } else if (wName(el) === 'tbl') {
+      blocks.push({ kind: 'table', rows: readTable(el, links), rowBookmarks: wChildren(el, 'tr').map(readBookmarks) });
+    }
+  });
+
+  return { blocks, metadata: await readRoundTripMetadata(zip) };
+};
+
+const headingLevel = (style: string): number => {
+  if (/^title$/i.test(style)) return 1;
+  const match = style.match(/^heading\s*(\d)$/i);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+/**
+ * Maps table rows to objects keyed by the (lowercased) header cell text,
+ * so reordered or extra columns added by a writer do not shift the data.
+ */
+const tableToRecords = (rows: string[][]): Record<string, string>[] => {
+  if (rows.length < 2) return [];
+  const headers = rows[0].map(h => h.toLowerCase());
+  return rows.slice(1).map(cells => {
+    const record: Record<string, string> = {};
+    headers.forEach((h, i) => { record[h] = cells[i] ?? ''; });
+    return record;
+  });
+};
+
+const cleanCell = (value: string | undefined): string => {
+  const text = (value || '').trim();
+  return text === '-' ? '' : text;
+};
+
+/**
+ * Adds an example to a media type: a single unnamed one becomes `example`,
+ * anything more becomes the named `examples` map
+ */
+const addExample = (media: any, name: string | undefined, value: any) => {
+  if (!name && media.example === undefined && !media.examples) {
+    media.example = value;
+    return;
+  }
+  if (!media.examples) media.examples = {};
+  if (media.example !== undefined) {
+    media.examples.example1 = { value: media.example };
+    delete media.example;
+  }
+  media.examples[name || `example${Object.keys(media.examples).length + 1}`] = { value };
+};
+
+/**
+ * Rebuilds an OpenAPI Spec from the paragraphs and tables of a document laid
+ * out like generateDocxBlob output (the Markdown reader produces the same blocks).
+ */
+export const parseDocumentBlocks = (blocks: DocxBlock[], metadata: DocxRoundTripMetadata | null, options: ConversionOptions): string => {
+
+  const lookup = (bookmarks: string[] | undefined): DocxMetadataEntry | undefined => {
+    const id = bookmarks?.find(b => metadata?.entries[b]);
+    return id ? metadata!.entries[id] : undefined;
+  };
+
+  const schemaFromTable = (block: Extract<DocxBlock, { kind: 'table' }>) => {
+    const tableMeta = lookup(block.rowBookmarks[0]);
+    if (tableMeta?.schemaRef) return { $ref: tableMeta.schemaRef };
+
+    const flatRows = tableToRecords(block.rows).map((r, idx) => {
+      const rowMeta = lookup(block.rowBookmarks[idx + 1]);
+      const { description, notes } = splitSchemaNotes(r['description'] || '');
+      return {
+        path: rowMeta?.rawPath ?? cleanCell(r['json path']),
+        type: cleanCell(r['type']).replace('(Ref)', '').trim() || 'string',
+        required: cleanCell(r['required']) === 'Yes',
+        description: cleanCell(description),
+        constraints: cleanCell(r['constraints']),
+        notes,
+        ref: rowMeta?.ref,
+        refDescription: rowMeta?.refDescription
+      };
+    });
+    const schema = unflattenSchema(flatRows);
+    if (tableMeta?.defs) schema.$defs = tableMeta.defs;
+    return schema;
+  };
+
+  // Multipart / form encoding; without the table metadata the visible cells still name the parts
+  const encodingFromTable = (block: Extract<DocxBlock, { kind: 'table' }>) => {
+    const tableMeta = lookup(block.rowBookmarks[0]);
+    if (tableMeta?.encoding) return tableMeta.encoding;
+    const encoding: any = {};
+    tableToRecords(block.rows).forEach(r => {
+      const name = cleanCell(r['part']);
+      if (name) encoding[name] = parseEncodingPart(cleanCell(r['content-type']), cleanCell(r['serialization']));
+    });
+    return encoding;
+  };
+
+  let title = "Imported API";
+  let version = "1.0.0";
+  const descriptionParts: string[] = [];
+  // Info fields carried by the front matter bookmarks (contact, license...)
+  let frontMatterInfo: any = {};
+  const servers: any[] = [];
+  const tags: any[] = [];
+  const tagGroups: { name: string, tags: string[] }[] = [];
+  const security: any[] = [];
+  const paths: any = {};
+  const webhooks: any = {};
+  const schemas: any = {};
+  const securitySchemes: any = {};
+  // Shared parameters, headers, bodies and responses, rebuilt from their first use as in the HTML reader.
+  // Bodies and responses are filled paragraph by paragraph, so they are registered once the document is read.
+  const sharedComponents: any = {};
+  const pendingShared: { owner: any, key: string, ref: string }[] = [];
+
+  let chapter = '';
+  let subsection = '';
+  let operation: any = null;
+  // Path item of the operation, which takes the parameters marked as path-level
+  let pathItem: any = null;
+  // Operation whose "Callbacks" subsection is open: its callback operations are H5 headings
+  // ("name: METHOD expression") with H6 subsections
+  let callbackHost: any = null;
+  let modelName = '';
+  // Descriptions of the data models, read from the paragraphs between the heading and the table
+  const modelDescriptions: Record<string, string> = {};
+  // Declared tag whose chapter is open, to collect its description (grouped layout)
+  let chapterTag: any = null;
+  let scheme: any = null;
+  let flow: any = null;
+  let contentType = 'application/json';
+  let responseCode = '';
+  // Set by an "Example" / "Example: name" label; the next paragraph holds the JSON.
+  // An "Example (generated)" was made up from the schema and is skipped.
+  let pendingExample: { name?: string, generated?: boolean } | null = null;
+  // oneOf/anyOf sections being read, outermost first; a nested one belongs to the last variant
+  // of the section above. Each holds the union node (null under a referenced schema, whose
+  // variants are only shown), its variants with their labels and the one waiting for its table
+  let unions: { node: any, variants: any[], labels: (string | undefined)[], pending: number | null }[] = [];
+
+  // Closes the sections below `depth`; the titles wait until the variants are complete
+  const closeUnions = (depth: number = 0) => {
+    unions.splice(depth).forEach(union => union.labels.forEach((label, idx) => {
+      if (label) restoreVariantTitle(label, union.variants[idx]);
+    }));
+  };
+
+  // Chapters laid out as operations: the endpoints (or tag chapters) and the webhooks
+  const readsOperations = () => chapter === 'endpoints' || chapter === 'webhooks';
+
+  const startOperation = (opMeta: DocxMetadataEntry | undefined) => ({
+    summary: '',
+    description: '',
+    operationId: opMeta?.operationId,
+    tags: opMeta?.tags,
+    security: opMeta?.security,
+    responses: {}
+  });
+
+  // Schema a oneOf/anyOf section belongs to: the data model, or the body or response media type
+  const unionSchema = (): any => {
+    if (chapter === 'data models' && modelName) {
+      if (!schemas[modelName]) schemas[modelName] = unflattenSchema([]);
+      return schemas[modelName];
+    }
+    const media = !operation ? undefined
+      : subsection === 'request body' ? operation.requestBody?.content?.[contentType]
+      : subsection === 'responses' && responseCode ? operation.responses[responseCode]?.content?.[contentType]
+      : undefined;
+    if (!media) return undefined;
+    if (!media.schema) media.schema = unflattenSchema([]);
+    return media.schema;
+  };
+
+  /**
+   * Reads the "pet: One of" label, discriminator and "Variant A: Cat" labels of a union.
+   * Labels inside a variant start with it ("Variant B / kind: Any of"), which gives their depth.
+   * Any other paragraph ends the sections and is left to the caller.
+   */
+  const readUnionParagraph = (block: Extract<DocxBlock, { kind: 'paragraph' }>, text: string): boolean => {
+    const prefix = text.match(/^(Variant [A-Z0-9]+ \/ )*/)![0];
+    const depth = prefix ? prefix.split(' / ').length - 1 : 0;
+    const label = text.slice(prefix.length);
+    const sectionMeta = lookup(block.bookmarks)?.variants;
+    const sectionMatch = label.match(/^(?:(.+): )?(One|Any) of$/);
+    if (sectionMeta || (sectionMatch && (chapter === 'data models' || readsOperations()))) {
+      if (depth > unions.length) return false;
+      const kind: 'oneOf' | 'anyOf' = sectionMatch?.[2] === 'Any' ? 'anyOf' : 'oneOf';
+      const section = sectionMeta || { path: sectionMatch![1] || '', kind, type: kind };
+      let schema: any;
+      if (depth) {
+        const parent = unions[depth - 1];
+        schema = parent.variants[parent.variants.length - 1];
+        if (schema && !parent.labels[parent.variants.length - 1]) schema = undefined;
+        parent.pending = null;
+      } else {
+        schema = unionSchema();
+      }
+      closeUnions(depth);
+      const variants: any[] = [];
+      unions.push({ node: schema && !schema.$ref ? applySchemaVariants(schema, { ...section, variants }) : null, variants, labels: [], pending: null });
+      return true;
+    }
+    if (!unions.length) return false;
+    // The discriminator line follows its section title; variant labels name their depth
+    const current = unions[unions.length - 1];
+    if (text.startsWith('Discriminator:')) {
+      if (current.node) current.node.discriminator = { ...current.node.discriminator, propertyName: text.replace('Discriminator:', '').trim() };
+      return true;
+    }
+    const union = unions[Math.min(depth, unions.length - 1)];
+    const variantMatch = label.match(/^Variant [A-Z0-9]+: (.+?)( \(Ref\))?$/);
+    if (variantMatch) {
+      closeUnions(unions.indexOf(union) + 1);
+      // Without the bookmark, a referenced variant is taken to be a component schema
+      const ref = lookup(block.bookmarks)?.ref || (variantMatch[2] ? `#/components/schemas/${variantMatch[1]}` : undefined);
+      union.pending = ref ? null : union.variants.length;
+      union.labels.push(ref ? undefined : label);
+      union.variants.push(ref ? { $ref: ref } : {});
+      return true;
+    }
+    if (current.pending !== null && text.startsWith('Type:')) {
+      current.variants[current.pending] = schemaFromTypeLabel(text.replace('Type:', ''));
+      current.pending = null;
+      return true;
+    }
+    closeUnions();
+    return false;
+  };
+
+  blocks.forEach(block => {
+    if (block.kind === 'paragraph') {
+      const level = headingLevel(block.style);
+      const text = block.text;
+      // Descriptions keep their formatting; labels and names are matched on the plain text
+      const markdown = block.markdown ?? text;
+
+      if (level) closeUnions();
+      if (level && level <= 3) callbackHost = null;
+      const headingMeta = level === 1 || level === 2 ? lookup(block.bookmarks) : undefined;
+      if (level === 1 && headingMeta?.tagGroup !== undefined) {
+        tagGroups.push({ name: headingMeta.tagGroup, tags: [] });
+        chapter = 'tag group';
+        operation = null;
+        return;
+      }
+      if (level === 2 && headingMeta?.tag !== undefined) {
+        // Tag chapter of the grouped layout: its operations are read like the Endpoints chapter
+        chapter = 'endpoints';
+        subsection = '';
+        operation = null;
+        chapterTag = null;
+        const name = headingMeta.tag;
+        if (name && headingMeta.declaredTag && !tags.some(t => t.name === name)) {
+          chapterTag = { name, description: '' };
+          tags.push(chapterTag);
+        }
+        const group = tagGroups.find(g => g.name === headingMeta.tagGroup);
+        if (name && group) group.tags.push(name);
+        return;
+      }
+      if (level === 1) {
+        title = text || title;
+        chapter = 'info';
+        return;
+      }
+      if (level === 2) {
+        chapter = text.toLowerCase();
+        subsection = '';
+        operation = null;
+        chapterTag = null;
+        return;
+      }
+      if (level === 3) {
+        subsection = '';
+        if (readsOperations()) {
+          // A webhook heading names the webhook where an endpoint has its path
+          const [method, ...rest] = text.split(/\s+/);
+          const path = rest.join(' ');
+          if (HTTP_METHODS.includes(method.toLowerCase()) && path) {
+            const pathItems = chapter === 'webhooks' ? webhooks : paths;
+            operation = startOperation(lookup(block.bookmarks));
+            if (!pathItems[path]) pathItems[path] = {};
+            pathItem = pathItems[path];
+            pathItem[method.toLowerCase()] = operation;
+          } else {
+            operation = null;
+          }
+        } else if (chapter === 'data models') {
+          modelName = text;
+        } else if (chapter === 'authentication') {
+          scheme = {};
+          flow = null;
+          securitySchemes[text] = scheme;
+        }
+        return;
+      }
+      if (level === 5 && callbackHost) {
+        subsection = '';
+        const opMeta = lookup(block.bookmarks);
+        const match = opMeta?.callback && text.startsWith(`${opMeta.callback}: `)
+          ? [text, opMeta.callback, text.slice(opMeta.callback.length + 2)]
+          : text.match(/^(.+?): (\S+\s+.+)$/);
+        const [method, ...rest] = match ? match[2].split(/\s+/) : [''];
+        const expression = rest.join(' ');
+        if (match && HTTP_METHODS.includes(method.toLowerCase()) && expression) {
+          operation = startOperation(opMeta);
+          if (!callbackHost.callbacks) callbackHost.callbacks = {};
+          const callback = callbackHost.callbacks[match[1]] || (callbackHost.callbacks[match[1]] = {});
+          if (!callback[expression]) callback[expression] = {};
+          pathItem = callback[expression];
+          pathItem[method.toLowerCase()] = operation;
+        } else {
+          operation = null;
+        }
+        return;
+      }
+      if (level === 4 || (level === 6 && callbackHost)) {
+        if (level === 4 && callbackHost) {
+          operation = callbackHost;
+          callbackHost = null;
+        }
+        subsection = text.toLowerCase();
+        contentType = 'application/json';
+        if (level === 4 && subsection === 'callbacks' && operation && readsOperations()) callbackHost = operation;
+        const requestBodyRef = lookup(block.bookmarks)?.requestBodyRef;
+        if (subsection === 'request body' && operation && requestBodyRef) {
+          operation.requestBody = { content: {} };
+          pendingShared.push({ owner: operation, key: 'requestBody', ref: requestBodyRef });
+        }
+        const flowMatch = text.match(/^Flow:\s*(.+)$/);
+        if (chapter === 'authentication' && scheme && flowMatch) {
+          flow = { scopes: {} };
+          if (!scheme.flows) scheme.flows = {};
+          scheme.flows[flowMatch[1].trim()] = flow;
+        }
+        return;
+      }
+      if (!chapter) {
+        // Cover page, contents and revision history come before the first heading
+        const info = lookup(block.bookmarks)?.info;
+        if (info) {
+          frontMatterInfo = { ...frontMatterInfo, ...info };
+          title = info.title || title;
+          version = info.version || version;
+        }
+        return;
+      }
+      if (!text) return;
+
+      if (pendingExample?.generated) {
+        pendingExample = null;
+        return;
+      }
+      if (pendingExample && readsOperations() && operation) {
+        const value = parseExampleValue(text, contentType);
+        if (subsection === 'request body') {
+          if (!operation.requestBody) operation.requestBody = { content: {} };
+          if (!operation.requestBody.content[contentType]) operation.requestBody.content[contentType] = {};
+          addExample(operation.requestBody.content[contentType], pendingExample.name, value);
+        } else if (subsection === 'responses' && responseCode) {
+          const response = operation.responses[responseCode];
+          if (!response.content) response.content = {};
+          if (!response.content[contentType]) response.content[contentType] = {};
+          addExample(response.content[contentType], pendingExample.name, value);
+        }
+        pendingExample = null;
+        return;
+      }
+
+      if (readUnionParagraph(block, text)) return;
+
+      if (chapter === 'info') {
+        if (text.startsWith('Version:')) version = text.replace('Version:', '').trim() || version;
+        else descriptionParts.push(markdown);
+        return;
+      }
+
+      if (chapter === 'global security') {
+        const requirement = lookup(block.bookmarks)?.securityRequirement;
+        if (requirement) {
+          security.push(requirement);
+          return;
+        }
+        // Without the metadata the scheme name ends at the scopes in parentheses
+        const match = text.match(/^(\S+)(?:\s*\((.*)\))?$/);
+        if (match) security.push({ [match[1]]: match[2] ? match[2].split(',').map(s => s.trim()).filter(s => s) : [] });
+        return;
+      }
+
+      if (chapter === 'data models') {
+        if (modelName && !schemas[modelName]) modelDescriptions[modelName] = joinMarkdownParagraphs(modelDescriptions[modelName] || '', markdown);
+        return;
+      }
+
+      if (chapter === 'authentication') {
+        if (scheme) scheme.description = joinMarkdownParagraphs(scheme.description || '', markdown);
+        return;
+      }
+
+      if (chapter === 'tags') {
+        // Each tag is a "name: description" bullet; other paragraphs continue the description above
+        const lastTag = tags[tags.length - 1];
+        if (lastTag && block.markdown !== undefined && !LIST_ITEM.test(block.markdown)) {
+          lastTag.description = joinMarkdownParagraphs(lastTag.description, markdown);
+          return;
+        }
+        const [name] = text.split(':');
+        const description = markdown.replace(/^[-*+]\s+/, '').replace(/^(\*\*)?[^:]*?(\*\*)?:\s*/, '');
+        if (name.trim()) tags.push({ name: name.trim(), description: text.includes(':') ? description.trim() : '' });
+        return;
+      }
+
+      if (chapter === 'endpoints' && !operation && chapterTag) {
+        chapterTag.description = joinMarkdownParagraphs(chapterTag.description, markdown);
+        return;
+      }
+
+      if (readsOperations() && operation) {
+        if (!subsection) {
+          if (text.startsWith('Summary:')) {
+            operation.summary = text.replace('Summary:', '').trim();
+          } else if (/^(ID|Tags|Security):/.test(text)) {
+            // Visible copy of the operation metadata; only used when the file lost its metadata part
+            const id = text.match(/ID:\s*(\S+)/);
+            const opTags = text.match(/Tags:\s*(.*?)(?:\s{2,}|\s*Security:|$)/);
+            if (!operation.operationId && id) operation.operationId = id[1];
+            if (!operation.tags && opTags) operation.tags = opTags[1].split(',').map(t => t.trim()).filter(t => t);
+          } else {
+            operation.description = joinMarkdownParagraphs(operation.description, markdown);
+          }
+          return;
+        }
+        const exampleMatch = text.match(/^Example(?::\s*(.+)| \((generated)\))?$/);
+        if (exampleMatch && (subsection === 'request body' || subsection === 'responses')) {
+          pendingExample = { name: exampleMatch[1]?.trim(), generated: !!exampleMatch[2] };
+          return;
+        }
+        if (subsection === 'request body') {
+          if (!operation.requestBody) operation.requestBody = { content: {} };
+          const requestBody = operation.requestBody;
+          if (text.startsWith('Content-Type:')) {
+            contentType = text.replace('Content-Type:', '').trim() || contentType;
+            if (!requestBody.content[contentType]) requestBody.content[contentType] = {};
+          } else if (text.startsWith('Required:')) {
+            requestBody.required = text.replace('Required:', '').trim() === 'Yes';
+          } else if (text.startsWith('Type:') && requestBody.content[contentType]) {
+            requestBody.content[contentType].schema = schemaFromTypeLabel(text.replace('Type:', ''));
+          } else if (text !== 'Encoding') {
+            requestBody.description = joinMarkdownParagraphs(requestBody.description || '', markdown);
+          }
+          return;
+        }
+        if (subsection === 'responses') {
+          const codeMatch = text.match(/^HTTP\s+(\S+)(?:\s+-\s*([\s\S]*))?$/);
+          if (codeMatch) {
+            responseCode = codeMatch[1];
+            operation.responses[responseCode] = { description: markdown.replace(/^(\*\*)?HTTP\s+\S+?(\*\*)?(\s+-\s*|\s*$)/, '').trim() };
+            const responseRef = lookup(block.bookmarks)?.responseRef;
+            if (responseRef) pendingShared.push({ owner: operation.responses, key: responseCode, ref: responseRef });
+            return;
+          }
+          const schemaMatch = text.match(/^Schema \((.+)\)$/);
+          const media = operation.responses[responseCode]?.content?.[contentType];
+          if (schemaMatch && responseCode) {
+            contentType = schemaMatch[1];
+            const response = operation.responses[responseCode];
+            if (!response.content) response.content = {};
+            if (!response.content[contentType]) response.content[contentType] = {};
+          } else if (media && text.startsWith('Type:')) {
+            media.schema = schemaFromTypeLabel(text.replace('Type:', ''));
+          } else if (responseCode && text !== 'Response Headers' && text !== 'Encoding') {
+            // Further paragraphs of a multi-paragraph response description
+            const response = operation.responses[responseCode];
+            response.description = joinMarkdownParagraphs(response.description, markdown);
+          }
+        }
+      }
+      return;
+    }
+
+    // Tables
+    const union = unions[unions.length - 1];
+    if (union) {
+      const headers = block.rows[0]?.map(h => h.toLowerCase()) || [];
+      if (headers[0] === 'value' && headers[1] === 'schema') {
+        const mapping: Record<string, string> = {};
+        tableToRecords(block.rows).forEach(r => {
+          const value = cleanCell(r['value']);
+          if (value) mapping[value] = cleanCell(r['schema']);
+        });
+        if (union.node) union.node.discriminator = { ...union.node.discriminator, mapping };
+        return;
+      }
+      if (union.pending !== null) {
+        union.variants[union.pending] = schemaFromTable(block);
+        union.pending = null;
+        return;
+      }
+      closeUnions();
+    }
+
+    if (chapter === 'servers') {
+      tableToRecords(block.rows).forEach(r => {
+        const url = cleanCell(r['url']);
+        if (url) servers.push({ url, description: cleanCell(r['description']) });
+      });
+      return;
+    }
+
+    if (chapter === 'authentication' && scheme) {
+      const headers = block.rows[0]?.map(h => h.toLowerCase()) || [];
+      if (headers[0] === 'scope' && flow) {
+        tableToRecords(block.rows).forEach(r => {
+          const scope = cleanCell(r['scope']);
+          if (scope) flow.scopes[scope] = cleanCell(r['description']);
+        });
+      } else if (headers[0] === 'property') {
+        const fields = flow ? OAUTH_FLOW_FIELDS : SECURITY_SCHEME_FIELDS;
+        tableToRecords(block.rows).forEach(r => {
+          const field = fields.find(f => f.label.toLowerCase() === cleanCell(r['property']).toLowerCase());
+          if (field) (flow || scheme)[field.key] = cleanCell(r['value']);
+        });
+      }
+      return;
+    }
+
+    if (chapter === 'data models' && modelName) {
+      schemas[modelName] = schemaFromTable(block);
+      return;
+    }
+
+    if (readsOperations() && operation) {
+      if (subsection === 'parameters') {
+        operation.parameters = [];
+        tableToRecords(block.rows).forEach((r, idx) => {
+          const rowMeta = lookup(block.rowBookmarks[idx + 1]);
+          const name = cleanCell(r['name']);
+          const inLoc = cleanCell(r['in']) || 'query';
+          if (!name) return;
+          const param = registerSharedComponent(sharedComponents, rowMeta?.paramRef, {
+            name,
+            in: inLoc,
+            required: cleanCell(r['required']) === 'Yes',
+            description: cleanCell(stripParameterNotes(r['description'] || '')),
+            // Without the row metadata only the type label is left
+            ...(rowMeta?.param || { schema: schemaFromTypeLabel(cleanCell(r['type'])) }),
+          });
+          if (rowMeta?.paramLevel === 'path' && pathItem) {
+            // Declared once on the path item, repeated in every operation of the document
+            if (!pathItem.parameters) {
+              // Listed before the operations, as in the source
+              const operations = Object.entries(pathItem);
+              operations.forEach(([key]) => delete pathItem[key]);
+              pathItem.parameters = [];
+              operations.forEach(([key, value]) => { pathItem[key] = value; });
+            }
+            const key = rowMeta.paramRef || `${inLoc}:${name}`;
+            if (!pathItem.parameters.some((p: any) => (p.$ref || `${p.in}:${p.name}`) === key)) pathItem.parameters.push(param);
+          } else {
+            operation.parameters.push(param);
+          }
+        });
+        if (!operation.parameters.length) delete operation.parameters;
+      } else if (block.rows[0]?.[0]?.toLowerCase() === 'part' && (subsection === 'request body' || subsection === 'responses')) {
+        const media = subsection === 'request body'
+          ? operation.requestBody?.content?.[contentType]
+          : operation.responses[responseCode]?.content?.[contentType];
+        if (media) media.encoding = encodingFromTable(block);
+      } else if (subsection === 'request body') {
+        if (!operation.requestBody) operation.requestBody = { content: {} };
+        operation.requestBody.content[contentType] = { ...operation.requestBody.content[contentType], schema: schemaFromTable(block) };
+      } else if (subsection === 'responses' && responseCode) {
+        const response = operation.responses[responseCode];
+        if (block.rows[0]?.[0]?.toLowerCase() === 'header name') {
+          response.headers = {};
+          tableToRecords(block.rows).forEach((r, idx) => {
+            const name = cleanCell(r['header name']);
+            const headerRef = lookup(block.rowBookmarks[idx + 1])?.headerRef;
+            if (name) response.headers[name] = registerSharedComponent(sharedComponents, headerRef, { schema: { type: cleanCell(r['type']) || 'string' }, description: cleanCell(r['description']) });
+          });
+          return;
+        }
+        if (!response.content) response.content = {};
+        response.content[contentType] = { ...response.content[contentType], schema: schemaFromTable(block) };
+      }
+    }
+  });
+  closeUnions();
+  pendingShared.forEach(({ owner, key, ref }) => {
+    owner[key] = registerSharedComponent(sharedComponents, ref, owner[key]);
+  });
+
+  Object.entries(modelDescriptions).forEach(([name, description]) => {
+    if (schemas[name] && schemas[name].description === undefined) schemas[name].description = description;
+  });
+
+  const spec: any = {
+    openapi: metadata?.openapi || "3.0.0",
+    info: { ...frontMatterInfo, title, version, description: descriptionParts.reduce(joinMarkdownParagraphs, '') },
+    paths
+  };
+
+  if (Object.keys(webhooks).length) spec.webhooks = webhooks;
+  if (servers.length) spec.servers = servers;
+  if (tags.length) spec.tags = tags;
+  if (tagGroups.length) spec['x-tagGroups'] = tagGroups;
+  if (security.length) spec.security = security;
+  const components: any = {};
+  if (Object.keys(schemas).length) components.schemas = schemas;
+  if (Object.keys(securitySchemes).length) components.securitySchemes = securitySchemes;
+  Object.assign(components, sharedComponents);
+  if (Object.keys(components).length) spec.components = components;
+
+  return serializeSpec(spec, options);
+};
+
+/**
+ * Parses a .docx produced by generateDocxBlob back into an OpenAPI Spec.
+ */
+export const parseDocxToSpec = async (data: ArrayBuffer, options: ConversionOptions): Promise<string> => {
+  const { blocks, metadata } = await readDocx(data);
+  return parseDocumentBlocks(blocks, metadata, options);
+};
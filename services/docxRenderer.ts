@@ -0,0 +1,621 @@
+// DOCX RENDERER
+// Builds the Word document for a spec in the browser. The round-trip metadata
+// it embeds lets docxReader rebuild the spec from the edited file.
+
+import { Document, Packer, Paragraph, ParagraphChild, TextRun, ExternalHyperlink, Table, TableRow, TableCell, HeadingLevel, BorderStyle, WidthType, AlignmentType, VerticalAlign, Bookmark, Header, Footer, ImageRun, PageBreak, PageNumber, TableOfContents } from 'docx';
+import { ConversionOptions, DocSection, DocxTemplate } from '../types';
+import { createMetadataCollector, embedRoundTripMetadata } from './docxMetadata';
+import { applyReferenceParts, DEFAULT_DOCX_TEMPLATE, hasReferenceCover, readReferenceStyles } from './docxTemplate';
+import { dereference } from './jsonPointer';
+import { describeEncoding, describeSchemaConstraints, describeSchemaNotes, descriptionMarked, exampleLabel, FlatSchemaRow, flattenSchema, formatExampleValue, getCallbackOperations, getMediaExamples, getModelDescription, getOperations, getParameterNotes, getParameterSchema, getSecuritySchemes, groupOperationsByTag, isTypeOnlySchema, loadSpec, OAUTH_FLOW_FIELDS, parameterMetadata, schemaTypeLabel, SchemaVariantSection, SECURITY_SCHEME_FIELDS, splitSchemaVariants, unescapeHtml, UNSAFE_LINK, variantHasTable, variantSectionTitle } from './specModel';
+
+const DOCX_CODE_FONT = 'Courier New';
+
+type DocxInlineStyle = { bold?: boolean, italics?: boolean, strike?: boolean, code?: boolean, link?: boolean };
+
+const docxTextRuns = (text: string, style: DocxInlineStyle): TextRun[] => text.split('\n').map((line, idx) => new TextRun({
+    text: line,
+    bold: style.bold,
+    italics: style.italics,
+    strike: style.strike,
+    font: style.code ? DOCX_CODE_FONT : undefined,
+    style: style.link ? 'Hyperlink' : undefined,
+    break: idx > 0 ? 1 : undefined
+}));
+
+// Marked escapes the text of inline tokens; raw HTML is kept as written
+const docxInlineRuns = (tokens: any[], style: DocxInlineStyle = {}): ParagraphChild[] => tokens.flatMap((token: any): ParagraphChild[] => {
+    switch (token.type) {
+        case 'strong': return docxInlineRuns(token.tokens, { ...style, bold: true });
+        case 'em': return docxInlineRuns(token.tokens, { ...style, italics: true });
+        case 'del': return docxInlineRuns(token.tokens, { ...style, strike: true });
+        case 'codespan': return docxTextRuns(unescapeHtml(token.text), { ...style, code: true });
+        case 'br': return [new TextRun({ text: '', break: 1 })];
+        case 'link':
+            if (UNSAFE_LINK.test(token.href)) return docxInlineRuns(token.tokens, style);
+            return [new ExternalHyperlink({ link: token.href, children: docxInlineRuns(token.tokens, { ...style, link: true }) })];
+        case 'html': return docxTextRuns(token.text, style);
+        case 'image': return docxTextRuns(token.text, style);
+        default: return token.tokens ? docxInlineRuns(token.tokens, style) : docxTextRuns(unescapeHtml(token.text || ''), style);
+    }
+});
+
+/**
+ * Word paragraphs for a CommonMark description: bold, italics, code spans and
+ * links become formatted runs, bullet lists real Word bullets and code blocks
+ * shaded monospace paragraphs. `lead` runs open the first paragraph (which is
+ * a bullet with `bullet`); `spacing` goes before the first and after the last.
+ */
+const markdownToDocx = (markdown: string, options: { codeFill: string, lead?: ParagraphChild[], bullet?: boolean, spacing?: { before?: number, after?: number } }): Paragraph[] => {
+    const blocks: { children: ParagraphChild[], bullet?: { level: number }, shading?: { fill: string }, indent?: { left: number } }[] = [];
+
+    const walk = (tokens: any[], level: number, indent: number) => tokens.forEach((token: any) => {
+        switch (token.type) {
+            case 'paragraph':
+            case 'text':
+                blocks.push({ children: docxInlineRuns(token.tokens || [token]), indent: indent ? { left: indent } : undefined });
+                break;
+            case 'heading':
+                blocks.push({ children: docxInlineRuns(token.tokens, { bold: true }) });
+                break;
+            case 'code':
+                blocks.push({ children: docxTextRuns(token.text, { code: true }), shading: { fill: options.codeFill } });
+                break;
+            case 'blockquote':
+                walk(token.tokens, level, indent + 720);
+                break;
+            case 'list':
+                token.items.forEach((item: any, idx: number) => {
+                    const [first, ...rest] = item.tokens;
+                    const inline = first && (first.type === 'text' || first.type === 'paragraph');
+                    const runs = inline ? docxInlineRuns(first.tokens || [first]) : [];
+                    // Numbered items keep their number as text, so no numbering definition is needed
+                    blocks.push(token.ordered
+                        ? { children: [new TextRun(`${(token.start === '' ? 1 : Number(token.start)) + idx}. `), ...runs], indent: { left: indent + 360 * (level + 1) } }
+                        : { children: runs, bullet: { level } });
+                    walk(inline ? rest : item.tokens, level + 1, indent);
+                });
+                break;
+            case 'table':
+                [token.header, ...token.rows].forEach((cells: any[]) => blocks.push({
+                    children: cells.flatMap((cell, idx) => [...(idx ? [new TextRun(' | ')] : []), ...docxInlineRuns(cell.tokens)])
+                }));
+                break;
+            case 'html':
+                if (token.text.trim()) blocks.push({ children: docxTextRuns(token.text.trim(), {}) });
+                break;
+        }
+    });
+    walk(descriptionMarked.lexer(String(markdown)), 0, 0);
+
+    if (options.lead) {
+        const first = blocks[0];
+        if (first && !first.bullet && !first.shading && !first.indent) first.children = [...options.lead, ...first.children];
+        else blocks.unshift({ children: options.lead });
+    }
+    return blocks.map((block, idx) => new Paragraph({
+        ...block,
+        bullet: block.bullet || (idx === 0 && options.bullet ? { level: 0 } : undefined),
+        spacing: { before: idx === 0 ? options.spacing?.before : undefined, after: idx === blocks.length - 1 ? options.spacing?.after : undefined }
+    }));
+};
+
+/**
+ * Generates a real DOCX Blob using 'docx' library
+ */
+export const generateDocxBlob = async (specContent: string, options: ConversionOptions, template: DocxTemplate = DEFAULT_DOCX_TEMPLATE): Promise<Blob> => {
+    const spec = loadSpec(specContent);
+    const sections = [];
+    const children: any[] = [];
+
+    // Bookmarks + custom XML part stand in for the HTML data-* attributes
+    const meta = createMetadataCollector(spec.openapi);
+
+    // Table styles (colors come from the template)
+    const borderStyle = { style: BorderStyle.SINGLE, size: 1, color: template.tableBorderColor };
+    const tableBorders = { top: borderStyle, bottom: borderStyle, left: borderStyle, right: borderStyle, insideVertical: borderStyle, insideHorizontal: borderStyle };
+
+    const createHeaderCell = (text: string) => new TableCell({
+        children: [new Paragraph({ text, style: "strong" })],
+        shading: { fill: template.tableHeaderFill },
+        verticalAlign: VerticalAlign.CENTER,
+        margins: { top: 100, bottom: 100, left: 100, right: 100 }
+    });
+
+    const createCell = (text: string, bookmarkId?: string) => new TableCell({
+        children: [bookmarkId
+            ? new Paragraph({ children: [new Bookmark({ id: bookmarkId, children: [new TextRun(text)] })] })
+            : new Paragraph({ text })],
+        verticalAlign: VerticalAlign.TOP,
+        margins: { top: 100, bottom: 100, left: 100, right: 100 }
+    });
+
+    const createDescription = (markdown: string, spacing?: { before?: number, after?: number }) => markdownToDocx(markdown, { codeFill: template.tableHeaderFill, spacing });
+
+    // Description cell; the Allowed/Const/Examples notes of schema rows follow in their own paragraph
+    const createDescriptionCell = (markdown: string | undefined, notes: string = '') => {
+        const paragraphs = markdown ? createDescription(markdown) : [];
+        return new TableCell({
+            children: [...(paragraphs.length ? paragraphs : [new Paragraph({ text: '-' })]), ...(notes ? [new Paragraph({ text: notes })] : [])],
+            verticalAlign: VerticalAlign.TOP,
+            margins: { top: 100, bottom: 100, left: 100, right: 100 }
+        });
+    };
+
+    // One paragraph per constraint line
+    const createConstraintsCell = (lines: string[]) => new TableCell({
+        children: (lines.length ? lines : ['-']).map(line => new Paragraph({ children: [new TextRun({ text: line, size: 18 })] })),
+        verticalAlign: VerticalAlign.TOP,
+        margins: { top: 100, bottom: 100, left: 100, right: 100 }
+    });
+
+    // Schema table followed by its oneOf/anyOf variants. Within an inline variant the
+    // labels start with the variants above ("Variant B / kind: Any of"), so the reader can nest them.
+    const createSchemaBlocks = (schema: any, rootSpec: any, variantPrefix: string = ''): any[] => {
+        if (!schema) return [];
+        const { rows, sections } = splitSchemaVariants(flattenSchema(schema, rootSpec), rootSpec);
+        const blocks: any[] = [];
+        if (rows.length) blocks.push(createSchemaTable(schema, rows));
+        sections.forEach(section => blocks.push(...createVariantBlocks(section, rootSpec, variantPrefix)));
+        return blocks;
+    };
+
+    const createSchemaTable = (schema: any, rows: FlatSchemaRow[]) => {
+        // The header carries the referenced schema, or the 3.1 $defs the table does not show
+        const tableMeta = schema.$ref ? { schemaRef: schema.$ref } : schema.$defs ? { defs: schema.$defs } : undefined;
+        const pathHeader = tableMeta
+            ? new TableCell({
+                children: [new Paragraph({ children: [new Bookmark({ id: meta.mark('tbl', tableMeta), children: [new TextRun("JSON Path")] })], style: "strong" })],
+                shading: { fill: template.tableHeaderFill },
+                verticalAlign: VerticalAlign.CENTER,
+                margins: { top: 100, bottom: 100, left: 100, right: 100 }
+            })
+            : createHeaderCell("JSON Path");
+
+        return new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: tableBorders,
+            rows: [
+                new TableRow({
+                    children: [pathHeader, createHeaderCell("Type"), createHeaderCell("Required"), createHeaderCell("Constraints"), createHeaderCell("Description")]
+                }),
+                ...rows.map(row => {
+                    let typeText = row.type;
+                    if (row.ref) typeText += " (Ref)";
+                    
+                    const notes = describeSchemaNotes(row).map(note => `[${note}]`);
+
+                    const rowBookmark = meta.mark('row', { rawPath: row.path, ref: row.ref, refDescription: row.refDescription });
+
+                    return new TableRow({
+                        children: [createCell(row.path, rowBookmark), createCell(typeText), createCell(row.required ? "Yes" : "No"), createConstraintsCell(describeSchemaConstraints(row.constraints)), createDescriptionCell(row.description, notes.join(' '))]
+                    });
+                })
+            ]
+        });
+    };
+
+    // "pet: One of" label, discriminator and mapping, then each "Variant A: Cat" with its table
+    const createVariantBlocks = (section: SchemaVariantSection, rootSpec: any, prefix: string): any[] => {
+        const blocks: any[] = [new Paragraph({
+            children: [new Bookmark({ id: meta.mark('tbl', { variants: { path: section.path, kind: section.kind, type: section.type } }), children: [new TextRun({ text: prefix + variantSectionTitle(section), bold: true })] })],
+            spacing: { before: 100, after: 50 }
+        })];
+        if (section.discriminator?.propertyName) {
+            blocks.push(new Paragraph({ children: [new TextRun({ text: "Discriminator: ", bold: true }), new TextRun(section.discriminator.propertyName)] }));
+        }
+        const mapping = Object.entries(section.discriminator?.mapping || {});
+        if (mapping.length) {
+            blocks.push(new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                borders: tableBorders,
+                rows: [
+                    new TableRow({ children: [createHeaderCell("Value"), createHeaderCell("Schema")] }),
+                    ...mapping.map(([value, target]) => new TableRow({ children: [createCell(value), createCell(String(target))] }))
+                ]
+            }));
+        }
+        section.variants.forEach(variant => {
+            const ref = variant.schema?.$ref;
+            const label = new TextRun({ text: prefix + (ref ? `${variant.label} (Ref)` : variant.label), bold: true, color: template.accentColor });
+            blocks.push(new Paragraph({
+                children: [ref ? new Bookmark({ id: meta.mark('row', { ref }), children: [label] }) : label],
+                spacing: { before: 100, after: 50 }
+            }));
+            if (ref) return;
+            if (variantHasTable(variant.schema, rootSpec)) blocks.push(...createSchemaBlocks(variant.schema, rootSpec, `${prefix}${variant.id} / `));
+            else blocks.push(new Paragraph({ children: [new TextRun({ text: "Type: ", bold: true }), new TextRun({ text: schemaTypeLabel(variant.schema, rootSpec), font: 'Courier New' })] }));
+        });
+        return blocks;
+    };
+
+    // "Example" / "Example: name" label followed by the JSON in a single monospace paragraph
+    const createExampleParagraphs = (media: any, contentType: string) => {
+        if (!options.includeExamples) return [];
+        return getMediaExamples(media, spec, contentType).flatMap(ex => [
+            new Paragraph({ children: [new TextRun({ text: exampleLabel(ex), bold: true })], spacing: { before: 100 } }),
+            new Paragraph({
+                children: formatExampleValue(ex.value, contentType).split('\n').map((line, idx) => new TextRun({ text: line, font: 'Courier New', size: 18, break: idx > 0 ? 1 : undefined })),
+                shading: { fill: template.tableHeaderFill },
+                spacing: { after: 100 }
+            })
+        ]);
+    };
+
+    // Schema table (or type line), encoding and examples of one body media type
+    const createMediaTypeContent = (contentType: string, media: any) => {
+        const content: any[] = [];
+        const schemaBlocks = isTypeOnlySchema(media?.schema, spec) ? [] : createSchemaBlocks(media?.schema, spec);
+        if (schemaBlocks.length) content.push(...schemaBlocks);
+        else if (media?.schema) content.push(new Paragraph({ children: [new TextRun({ text: "Type: ", bold: true }), new TextRun({ text: schemaTypeLabel(media.schema, spec), font: 'Courier New' })] }));
+        const parts = Object.entries(media?.encoding || {});
+        if (parts.length) {
+            content.push(new Paragraph({ text: "Encoding", spacing: { before: 50 } }));
+            content.push(new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                borders: tableBorders,
+                rows: [
+                    new TableRow({
+                        children: [new TableCell({
+                            children: [new Paragraph({ children: [new Bookmark({ id: meta.mark('tbl', { encoding: media.encoding }), children: [new TextRun("Part")] })], style: "strong" })],
+                            shading: { fill: template.tableHeaderFill },
+                            verticalAlign: VerticalAlign.CENTER,
+                            margins: { top: 100, bottom: 100, left: 100, right: 100 }
+                        }), createHeaderCell("Content-Type"), createHeaderCell("Headers"), createHeaderCell("Serialization")]
+                    }),
+                    ...parts.map(([name, part]: [string, any]) => new TableRow({
+                        children: [createCell(name), createCell(part?.contentType || '-'), createCell(Object.keys(part?.headers || {}).join(', ') || '-'), createCell(describeEncoding(part) || '-')]
+                    }))
+                ]
+            }));
+        }
+        content.push(...createExampleParagraphs(media, contentType));
+        return content;
+    };
+
+    // One operation: H3 "METHOD /path" followed by its details and H4 subsections.
+    // A callback operation is an H5 "name: METHOD expression" with H6 subsections.
+    const pushOperation = (path: string, method: string, op: any, pathParams: any[] = [], callback?: string) => {
+        const [opHeading, subHeading] = callback ? [HeadingLevel.HEADING_5, HeadingLevel.HEADING_6] : [HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+        const opBookmark = meta.mark('op', { operationId: op.operationId, tags: op.tags, security: op.security, callback });
+        children.push(new Paragraph({ 
+            children: [new Bookmark({ id: opBookmark, children: [new TextRun(`${callback ? `${callback}: ` : ''}${method.toUpperCase()} ${path}`)] })],
+            heading: opHeading, 
+            spacing: { before: 400, after: 100 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: template.tableBorderColor } } 
+        }));
+
+        const opMeta: TextRun[] = [];
+        if (op.operationId) opMeta.push(new TextRun({ text: "ID: ", bold: true }), new TextRun(`${op.operationId}   `));
+        if (op.tags && op.tags.length) opMeta.push(new TextRun({ text: "Tags: ", bold: true }), new TextRun(`${op.tags.join(', ')}   `));
+        if (op.security) opMeta.push(new TextRun({ text: "Security: ", bold: true }), new TextRun(op.security.map((s: any) => Object.keys(s)[0]).join(', ')));
+        if (opMeta.length) children.push(new Paragraph({ children: opMeta, spacing: { after: 100 } }));
+
+        if (op.summary) children.push(new Paragraph({ children: [new TextRun({ text: "Summary: ", bold: true }), new TextRun(op.summary)] }));
+        if (op.description) children.push(...createDescription(op.description, { after: 200 }));
+
+        // Parameters
+        if (op.parameters && op.parameters.length > 0) {
+            children.push(new Paragraph({ text: "Parameters", heading: subHeading, spacing: { after: 100 } }));
+            children.push(new Table({
+                width: { size: 100, type: WidthType.PERCENTAGE },
+                borders: tableBorders,
+                rows: [
+                    new TableRow({ children: [createHeaderCell("Name"), createHeaderCell("In"), createHeaderCell("Required"), createHeaderCell("Type"), createHeaderCell("Description")] }),
+                    ...op.parameters.map((rawParam: any) => {
+                        const p = dereference(rawParam, spec);
+                        const rowMeta = parameterMetadata(rawParam, p, pathParams);
+                        const notes = getParameterNotes(p, spec).map(note => `[${note}]`).join(' ');
+                        return new TableRow({
+                            children: [createCell(p.name, rowMeta ? meta.mark('row', rowMeta) : undefined), createCell(p.in), createCell(p.required ? "Yes" : "No"), createCell(schemaTypeLabel(getParameterSchema(p), spec)), createDescriptionCell(p.description, notes)]
+                        });
+                    })
+                ]
+            }));
+        }
+
+        // Request Body
+        const requestBody = dereference(op.requestBody, spec);
+        if (requestBody && requestBody.content) {
+            children.push(op.requestBody.$ref
+                ? new Paragraph({ children: [new Bookmark({ id: meta.mark('op', { requestBodyRef: op.requestBody.$ref }), children: [new TextRun("Request Body")] })], heading: subHeading, spacing: { before: 200, after: 100 } })
+                : new Paragraph({ text: "Request Body", heading: subHeading, spacing: { before: 200, after: 100 } }));
+            if (requestBody.required) children.push(new Paragraph({ children: [new TextRun({ text: "Required: ", bold: true }), new TextRun("Yes")] }));
+            if (requestBody.description) children.push(...createDescription(requestBody.description, { after: 100 }));
+            for (const [contentType, content] of Object.entries(requestBody.content as any)) {
+                children.push(new Paragraph({ children: [new TextRun({ text: "Content-Type: ", bold: true }), new TextRun(contentType)] }));
+                children.push(...createMediaTypeContent(contentType, content));
+            }
+        }
+
+        // Responses
+        if (op.responses) {
+            children.push(new Paragraph({ text: "Responses", heading: subHeading, spacing: { before: 200, after: 100 } }));
+            for (const [code, res] of Object.entries(op.responses as any)) {
+                const r = dereference(res, spec) || {};
+                const codeRun = new TextRun({ text: `HTTP ${code}`, bold: true, color: template.accentColor });
+                const responseRef = (res as any)?.$ref;
+                children.push(...markdownToDocx(r.description || '', {
+                    codeFill: template.tableHeaderFill,
+                    lead: [responseRef ? new Bookmark({ id: meta.mark('op', { responseRef }), children: [codeRun] }) : codeRun, new TextRun(' - ')],
+                    spacing: { before: 100 }
+                }));
+
+                if (r.headers && Object.keys(r.headers).length > 0) {
+                    children.push(new Paragraph({ text: "Response Headers", spacing: { before: 50 } }));
+                    children.push(new Table({
+                        width: { size: 100, type: WidthType.PERCENTAGE },
+                        borders: tableBorders,
+                        rows: [
+                            new TableRow({ children: [createHeaderCell("Header Name"), createHeaderCell("Type"), createHeaderCell("Description")] }),
+                            ...Object.entries(r.headers as any).map(([hName, hVal]) => {
+                                const h = dereference(hVal, spec) || {};
+                                const headerRef = (hVal as any)?.$ref;
+                                return new TableRow({ children: [createCell(hName, headerRef ? meta.mark('row', { headerRef }) : undefined), createCell(dereference(h.schema, spec)?.type || 'string'), createDescriptionCell(h.description)] });
+                            })
+                        ]
+                    }));
+                }
+
+                if (r.content) {
+                    for (const [contentType, content] of Object.entries(r.content as any)) {
+                        children.push(new Paragraph({ text: `Schema (${contentType})`, spacing: { before: 50 } }));
+                        children.push(...createMediaTypeContent(contentType, content));
+                    }
+                }
+            }
+        }
+        // A callback's own callbacks have no heading level left
+        const callbacks = callback ? [] : Object.entries(op.callbacks || {});
+        if (callbacks.length) {
+            children.push(new Paragraph({ text: "Callbacks", heading: HeadingLevel.HEADING_4, spacing: { before: 200, after: 100 } }));
+            callbacks.forEach(([name, cb]) => getCallbackOperations(cb, spec)
+                .forEach(entry => pushOperation(entry.expression, entry.method, entry.op, entry.pathParams, name)));
+        }
+    };
+
+    const chapters: Record<DocSection, () => void> = {
+        // Title, version and description
+        [DocSection.SUMMARY]: () => {
+            children.push(new Paragraph({
+                text: spec.info?.title || "API Documentation",
+                heading: HeadingLevel.HEADING_1,
+                spacing: { after: 200 }
+            }));
+            if (spec.info?.version) {
+                children.push(new Paragraph({ children: [new TextRun({ text: "Version: ", bold: true }), new TextRun(spec.info.version)], spacing: { after: 200 } }));
+            }
+            if (spec.info?.description) {
+                children.push(...createDescription(spec.info.description, { after: 400 }));
+            }
+        },
+        [DocSection.SERVERS]: () => {
+            if (spec.servers && spec.servers.length > 0) {
+                children.push(new Paragraph({ text: "Servers", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+                children.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    borders: tableBorders,
+                    rows: [
+                        new TableRow({ children: [createHeaderCell("URL"), createHeaderCell("Description")] }),
+                        ...spec.servers.map((s: any) => new TableRow({ children: [createCell(s.url), createDescriptionCell(s.description)] }))
+                    ]
+                }));
+            }
+        },
+        [DocSection.SECURITY]: () => {
+            if (spec.security && spec.security.length > 0) {
+                children.push(new Paragraph({ text: "Global Security", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+                spec.security.forEach((sec: any) => {
+                    const key = Object.keys(sec)[0];
+                    if (!key) return;
+                    const scopes: string[] = sec[key] || [];
+                    children.push(new Paragraph({
+                        children: [new Bookmark({ id: meta.mark('sec', { securityRequirement: sec }), children: [new TextRun({ text: key, bold: true })] }), new TextRun(scopes.length ? ` (${scopes.join(', ')})` : '')],
+                        bullet: { level: 0 }
+                    }));
+                });
+            }
+        },
+        // Grouped documents list the tags as endpoint chapters instead
+        [DocSection.TAGS]: () => {
+            if (spec.tags && spec.tags.length > 0 && !options.groupByTag) {
+                children.push(new Paragraph({ text: "Tags", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+                spec.tags.forEach((tag: any) => {
+                    children.push(...markdownToDocx(tag.description || '', {
+                        codeFill: template.tableHeaderFill,
+                        lead: [new TextRun({ text: tag.name, bold: true }), new TextRun(': ')],
+                        bullet: true
+                    }));
+                });
+            }
+        },
+        // Security schemes
+        [DocSection.AUTHENTICATION]: () => {
+            const schemes = options.includeAuthentication ? getSecuritySchemes(spec) : [];
+            if (schemes.length > 0) {
+                children.push(new Paragraph({ text: "Authentication", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+                const createDetailsTable = (source: any, fields: { key: string, label: string }[]) => new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    borders: tableBorders,
+                    rows: [
+                        new TableRow({ children: [createHeaderCell("Property"), createHeaderCell("Value")] }),
+                        ...fields
+                            .filter(f => source[f.key] !== undefined && source[f.key] !== '')
+                            .map(f => new TableRow({ children: [createCell(f.label), createCell(String(source[f.key]))] }))
+                    ]
+                });
+
+                schemes.forEach(([name, scheme]) => {
+                    children.push(new Paragraph({ text: name, heading: HeadingLevel.HEADING_3, spacing: { before: 200, after: 100 } }));
+                    if (scheme.description) children.push(...createDescription(scheme.description, { after: 100 }));
+                    children.push(createDetailsTable(scheme, SECURITY_SCHEME_FIELDS));
+
+                    Object.entries(scheme.flows || {}).forEach(([flowName, flow]: [string, any]) => {
+                        children.push(new Paragraph({ text: `Flow: ${flowName}`, heading: HeadingLevel.HEADING_4, spacing: { before: 200, after: 100 } }));
+                        children.push(createDetailsTable(flow || {}, OAUTH_FLOW_FIELDS));
+                        children.push(new Table({
+                            width: { size: 100, type: WidthType.PERCENTAGE },
+                            borders: tableBorders,
+                            rows: [
+                                new TableRow({ children: [createHeaderCell("Scope"), createHeaderCell("Description")] }),
+                                ...Object.entries(flow?.scopes || {}).map(([scope, desc]) => new TableRow({ children: [createCell(scope), createDescriptionCell(desc ? String(desc) : undefined)] }))
+                            ]
+                        }));
+                    });
+                });
+            }
+        },
+        [DocSection.ENDPOINTS]: () => {
+            if (spec.paths && options.groupByTag) {
+                // Group headings are H1 and tag chapters H2; their bookmarks keep the reader from taking them for the title or a fixed chapter
+                groupOperationsByTag(spec).forEach(({ group, chapters: tagChapters }) => {
+                    if (group !== null) {
+                        children.push(new Paragraph({
+                            children: [new Bookmark({ id: meta.mark('tag', { tagGroup: group }), children: [new TextRun(group)] })],
+                            heading: HeadingLevel.HEADING_1,
+                            spacing: { before: 600, after: 200 }
+                        }));
+                    }
+                    tagChapters.forEach(chapter => {
+                        const tagMark = meta.mark('tag', { tag: chapter.tag ?? '', declaredTag: chapter.declared, tagGroup: group ?? undefined });
+                        children.push(new Paragraph({
+                            children: [new Bookmark({ id: tagMark, children: [new TextRun(chapter.tag ?? 'Other')] })],
+                            heading: HeadingLevel.HEADING_2,
+                            spacing: { before: 400, after: 200 }
+                        }));
+                        if (chapter.description) children.push(...createDescription(chapter.description, { after: 200 }));
+                        chapter.operations.forEach(({ path, method, op, pathParams }) => pushOperation(path, method, op, pathParams));
+                    });
+                });
+            } else if (spec.paths) {
+                children.push(new Paragraph({ text: "Endpoints", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+
+                for (const [path, pathItem] of Object.entries(spec.paths)) {
+                    for (const { method, op, pathParams } of getOperations(pathItem, spec)) {
+                        pushOperation(path, method, op, pathParams);
+                    }
+                }
+            }
+
+            // Webhooks (OpenAPI 3.1) follow in their own chapter, named instead of a path
+            const webhooks = Object.entries(spec.webhooks || {});
+            if (webhooks.length) {
+                children.push(new Paragraph({ text: "Webhooks", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+                webhooks.forEach(([name, pathItem]) => getOperations(pathItem, spec).forEach(({ method, op, pathParams }) => pushOperation(name, method, op, pathParams)));
+            }
+        },
+        // Components
+        [DocSection.DATA_MODELS]: () => {
+            if (spec.components && spec.components.schemas) {
+                children.push(new Paragraph({ text: "Data Models", heading: HeadingLevel.HEADING_2, spacing: { before: 600, after: 200 } }));
+                for (const [name, schema] of Object.entries(spec.components.schemas)) {
+                    children.push(new Paragraph({ text: name, heading: HeadingLevel.HEADING_3, spacing: { before: 200, after: 100 } }));
+                    const modelDescription = getModelDescription(schema, spec);
+                    if (modelDescription) children.push(...createDescription(modelDescription, { after: 100 }));
+                    children.push(...createSchemaBlocks(schema, spec));
+                }
+            }
+        }
+    };
+
+    // Front matter. Nothing here is a heading, so the reader skips it; the info
+    // fields that only appear here travel in the bookmark metadata.
+    const info = spec.info || {};
+    const today = new Date().toISOString().slice(0, 10);
+    const referenceCover = template.coverPage && !!template.referenceDocx && await hasReferenceCover(template.referenceDocx.data);
+    if (template.coverPage) {
+        const coverInfo: any = { title: info.title, version: info.version };
+        if (info.contact) coverInfo.contact = info.contact;
+        if (info.license) coverInfo.license = info.license;
+        if (info.termsOfService) coverInfo.termsOfService = info.termsOfService;
+        const infoMark = meta.mark('info', { info: coverInfo });
+
+        if (referenceCover) {
+            // The cover page of the reference document goes before this paragraph, which only carries the info
+            children.push(new Paragraph({ children: [new Bookmark({ id: infoMark, children: [] })] }));
+        } else {
+            const coverLine = (label: string, value: string) => new Paragraph({
+                children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+                alignment: AlignmentType.CENTER,
+                spacing: { after: 100 }
+            });
+
+            children.push(new Paragraph({
+                children: [new Bookmark({ id: infoMark, children: [new TextRun({ text: info.title || "API Documentation", bold: true, size: 56, color: template.accentColor })] })],
+                alignment: AlignmentType.CENTER,
+                spacing: { before: 3000, after: 400 }
+            }));
+            if (info.summary) children.push(new Paragraph({ children: [new TextRun({ text: info.summary, size: 28 })], alignment: AlignmentType.CENTER, spacing: { after: 400 } }));
+            if (info.version) children.push(coverLine("Version", info.version));
+            const contact = [info.contact?.name, info.contact?.email, info.contact?.url].filter(Boolean).join(' · ');
+            if (contact) children.push(coverLine("Contact", contact));
+            if (info.license?.name) children.push(coverLine("License", info.license.url ? `${info.license.name} (${info.license.url})` : info.license.name));
+            if (info.termsOfService) children.push(coverLine("Terms of Service", info.termsOfService));
+            children.push(coverLine("Date", today));
+            children.push(new Paragraph({ children: [new PageBreak()] }));
+        }
+    }
+
+    if (template.tableOfContents) {
+        children.push(new Paragraph({ children: [new TextRun({ text: "Contents", bold: true, size: 32 })], spacing: { after: 200 } }));
+        // Word fills the field on open (features.updateFields below)
+        children.push(new TableOfContents("Contents", { hyperlink: true, headingStyleRange: "1-3" }));
+        children.push(new Paragraph({ children: [new PageBreak()] }));
+    }
+
+    if (template.revisionHistory) {
+        // x-revisions: [{ version, date, author, description }] in spec.info, else a single row for this version
+        const revisions: any[] = Array.isArray(info['x-revisions']) && info['x-revisions'].length
+            ? info['x-revisions']
+            : [{ version: info.version, date: today, author: info.contact?.name, description: "Generated from the OpenAPI specification" }];
+        const revisionMark = Array.isArray(info['x-revisions']) ? meta.mark('info', { info: { 'x-revisions': info['x-revisions'] } }) : undefined;
+        const revisionLabel = new TextRun({ text: "Revision History", bold: true, size: 32 });
+        children.push(new Paragraph({ children: [revisionMark ? new Bookmark({ id: revisionMark, children: [revisionLabel] }) : revisionLabel], spacing: { after: 200 } }));
+        children.push(new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: tableBorders,
+            rows: [
+                new TableRow({ children: [createHeaderCell("Version"), createHeaderCell("Date"), createHeaderCell("Author"), createHeaderCell("Description")] }),
+                ...revisions.map(r => new TableRow({ children: [createCell(String(r.version ?? '-')), createCell(String(r.date ?? '-')), createCell(String(r.author || '-')), createCell(String(r.description || '-'))] }))
+            ]
+        }));
+        children.push(new Paragraph({ children: [new PageBreak()] }));
+    }
+
+    template.sections.forEach(section => chapters[section]());
+
+    // Header/footer defined by the template replace the ones of the reference document
+    const hasOwnHeader = !!(template.headerText || template.logo);
+    const hasOwnFooter = !!(template.footerText || template.pageNumbers);
+    const headerRuns = [
+        ...(template.logo ? [new ImageRun({ data: template.logo.data, transformation: { width: template.logo.width, height: template.logo.height } })] : []),
+        ...(template.headerText ? [new TextRun(template.logo ? `   ${template.headerText}` : template.headerText)] : [])
+    ];
+    const footerRuns = [
+        ...(template.footerText ? [new TextRun(template.footerText)] : []),
+        ...(template.pageNumbers ? [new TextRun({ children: [template.footerText ? "   Page " : "Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES] })] : [])
+    ];
+
+    const doc = new Document({
+        title: info.title || "API Documentation",
+        subject: info.summary || "API Reference",
+        description: info.description,
+        keywords: (spec.tags || []).map((tag: any) => tag.name).join(', '),
+        creator: info.contact?.name || "SpecWeaver",
+        features: { updateFields: template.tableOfContents },
+        externalStyles: template.referenceDocx ? await readReferenceStyles(template.referenceDocx.data) : undefined,
+        sections: [{
+            // The cover page gets no header or footer
+            properties: { titlePage: template.coverPage },
+            headers: hasOwnHeader ? { default: new Header({ children: [new Paragraph({ children: headerRuns })] }) } : undefined,
+            footers: hasOwnFooter ? { default: new Footer({ children: [new Paragraph({ children: footerRuns, alignment: AlignmentType.CENTER })] }) } : undefined,
+            children
+        }]
+    });
+
+    let blob = await Packer.toBlob(doc);
+    if (template.referenceDocx) {
+        blob = await applyReferenceParts(blob, template.referenceDocx.data, { headers: !hasOwnHeader, footers: !hasOwnFooter, cover: referenceCover });
+    }
+    return await embedRoundTripMetadata(blob, meta.metadata);
+};
@@ -0,0 +1,352 @@
+// DOCX TEMPLATES
+// Company branding for generated Word files. A reference .docx provides the
+// styles, list numbering, headers, footers and cover page; the template itself
+// adds an optional logo, header/footer text, colors and the chapter selection.
+
+import JSZip from 'jszip';
+import { DocSection, DocxTemplate } from '../types';
+
+export const DOC_SECTION_LABELS: Record<DocSection, string> = {
+  [DocSection.SUMMARY]: 'Executive Summary',
+  [DocSection.SERVERS]: 'Servers',
+  [DocSection.SECURITY]: 'Global Security',
+  [DocSection.TAGS]: 'Tags',
+  [DocSection.AUTHENTICATION]: 'Authentication',
+  [DocSection.ENDPOINTS]: 'Endpoints',
+  [DocSection.DATA_MODELS]: 'Data Models',
+};
+
+export const DEFAULT_DOCX_TEMPLATE: DocxTemplate = {
+  accentColor: '2563eb',
+  tableBorderColor: 'cbd5e1',
+  tableHeaderFill: 'f1f5f9',
+  sections: Object.values(DocSection),
+  coverPage: true,
+  tableOfContents: true,
+  revisionHistory: true,
+  pageNumbers: true,
+};
+
+const TEMPLATE_STORAGE_KEY = 'specweaver.docxTemplate';
+
+// Reference numbering definitions are shifted past the ids the docx library uses for bullets
+const NUMBERING_ID_OFFSET = 1000;
+
+const RELATIONSHIP_TYPES = {
+  header: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/header',
+  footer: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer',
+};
+
+const MEDIA_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp',
+  tif: 'image/tiff', tiff: 'image/tiff', emf: 'image/x-emf', wmf: 'image/x-wmf', svg: 'image/svg+xml',
+};
+
+// Word's cover pages are content controls in this building block gallery
+const COVER_PAGE_GALLERY = /<w:docPartGallery w:val="Cover Pages"\/>/;
+
+const PAGE_BREAK_RUN = '<w:r><w:br w:type="page"/></w:r>';
+
+const toBase64 = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): ArrayBuffer => Uint8Array.from(atob(text), c => c.charCodeAt(0)).buffer;
+
+/**
+ * Template saved in this browser, or the default one. Binary parts are stored as base64.
+ */
+export const loadDocxTemplate = (): DocxTemplate => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) || 'null');
+    if (!stored) return DEFAULT_DOCX_TEMPLATE;
+    const template: DocxTemplate = { ...DEFAULT_DOCX_TEMPLATE, ...stored };
+    if (stored.referenceDocx) template.referenceDocx = { ...stored.referenceDocx, data: fromBase64(stored.referenceDocx.data) };
+    if (stored.logo) template.logo = { ...stored.logo, data: fromBase64(stored.logo.data) };
+    // Drop chapters this version does not know (e.g. saved by a newer one)
+    template.sections = (template.sections || []).filter(s => s in DOC_SECTION_LABELS);
+    return template;
+  } catch (e) {
+    console.error("Error loading template:", e);
+    return DEFAULT_DOCX_TEMPLATE;
+  }
+};
+
+export const saveDocxTemplate = (template: DocxTemplate) => {
+  const stored: any = { ...template };
+  if (template.referenceDocx) stored.referenceDocx = { ...template.referenceDocx, data: toBase64(template.referenceDocx.data) };
+  if (template.logo) stored.logo = { ...template.logo, data: toBase64(template.logo.data) };
+  try {
+    localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    // Quota exceeded (large reference documents): the template still applies to this session
+    console.error("Error saving template:", e);
+  }
+};
+
+const openReference = async (data: ArrayBuffer): Promise<JSZip> => {
+  try {
+    return await JSZip.loadAsync(data);
+  } catch (e) {
+    throw new Error("Invalid template. Please provide a .docx or .dotx document.");
+  }
+};
+
+// Rewrites <w:num w:numId>, <w:abstractNum w:abstractNumId> and the numId/abstractNumId
+// references; numId 0 ("no numbering") keeps its meaning
+const shiftNumberingIds = (xml: string) => xml.replace(
+  /(<w:(?:numId|abstractNumId|abstractNum|num)\b[^>]*\bw:(?:val|numId|abstractNumId)=")(\d+)"/g,
+  (_, prefix, id) => id === '0' ? `${prefix}0"` : `${prefix}${parseInt(id, 10) + NUMBERING_ID_OFFSET}"`
+);
+
+/**
+ * styles.xml of the reference document, ready for the docx `externalStyles`
+ * option. Numbering ids are shifted to match what applyReferenceParts copies.
+ */
+export const readReferenceStyles = async (data: ArrayBuffer): Promise<string> => {
+  const zip = await openReference(data);
+  const styles = await zip.file('word/styles.xml')?.async('string');
+  if (!styles) throw new Error("Invalid template: the document has no styles (word/styles.xml).");
+  return shiftNumberingIds(styles);
+};
+
+const readAttribute = (tag: string, name: string): string | undefined => tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+const readRelationships = (xml: string) => Array.from(xml.matchAll(/<Relationship\b[^>]*\/?>/g)).map(m => ({
+  tag: m[0],
+  id: readAttribute(m[0], 'Id') || '',
+  target: readAttribute(m[0], 'Target') || '',
+  external: readAttribute(m[0], 'TargetMode') === 'External',
+}));
+
+/**
+ * Keeps only markup whose namespace prefixes the target part declares:
+ * Word adds vendor extensions that would make the merged XML invalid.
+ */
+const dropUndeclaredPrefixes = (xml: string, declared: Set<string>): string => xml
+  .replace(/<(\w+):\w+\b[^>]*\/>/g, (tag, prefix) => declared.has(prefix) ? tag : '')
+  .replace(/\s(\w+):\w+="[^"]*"/g, (attr, prefix) => declared.has(prefix) || prefix === 'xmlns' ? attr : '');
+
+/**
+ * Registers the content type of a copied image by its extension
+ */
+const addMediaContentType = (contentTypes: string, fileName: string): string => {
+  const extension = fileName.split('.').pop()!.toLowerCase();
+  if (!MEDIA_CONTENT_TYPES[extension] || new RegExp(`Extension="${extension}"`, 'i').test(contentTypes)) return contentTypes;
+  return contentTypes.replace('</Types>', `<Default ContentType="${MEDIA_CONTENT_TYPES[extension]}" Extension="${extension}"/></Types>`);
+};
+
+/**
+ * Offset just past the element that opens at `start`, counting nested elements of the same name
+ */
+const elementEnd = (xml: string, start: number, name: string): number => {
+  const tags = new RegExp(`<(/?)${name}\\b[^>]*?(/?)>`, 'g');
+  tags.lastIndex = start;
+  let depth = 0;
+  for (let match = tags.exec(xml); match; match = tags.exec(xml)) {
+    if (!match[2]) depth += match[1] ? -1 : 1;
+    if (depth === 0) return tags.lastIndex;
+  }
+  return xml.length;
+};
+
+/**
+ * Cover page of a reference document.xml: Word's cover page content control or,
+ * when the document has several sections, the first one. It comes back as a
+ * cover page content control ending in a page break, without the bookmarks,
+ * comments and notes it pointed to.
+ */
+const readCoverPage = (document: string): string | undefined => {
+  const body = document.match(/<w:body\b[^>]*>/);
+  if (!body) return undefined;
+  const bodyStart = body.index! + body[0].length;
+
+  let cover: string | undefined;
+  for (const sdt of document.slice(bodyStart).matchAll(/<w:sdt\b[^>]*>/g)) {
+    const start = bodyStart + sdt.index!;
+    const block = document.slice(start, elementEnd(document, start, 'w:sdt'));
+    if (!COVER_PAGE_GALLERY.test(block.slice(0, block.indexOf('</w:sdtPr>')))) continue;
+    cover = /<w:br\b[^>]*w:type="page"/.test(block)
+      ? block
+      : block.replace(/<\/w:sdtContent>(?![\s\S]*<\/w:sdtContent>)/, `<w:p>${PAGE_BREAK_RUN}</w:p></w:sdtContent>`);
+    break;
+  }
+
+  // The first section ends with the paragraph holding its section properties; the last ones belong to the body
+  const sections = Array.from(document.slice(bodyStart).matchAll(/<w:sectPr\b/g));
+  if (!cover && sections.length > 1) {
+    const breakAt = bodyStart + sections[0].index!;
+    const paragraphStart = Math.max(document.lastIndexOf('<w:p>', breakAt), document.lastIndexOf('<w:p ', breakAt));
+    if (paragraphStart < bodyStart) return undefined;
+    const paragraph = document.slice(paragraphStart, elementEnd(document, paragraphStart, 'w:p'))
+      .replace(/<w:sectPr\b[^>]*?(\/>|>[\s\S]*?<\/w:sectPr>)/, '')
+      .replace(/<\/w:p>$/, `${PAGE_BREAK_RUN}</w:p>`);
+    const content = document.slice(bodyStart, paragraphStart) + paragraph;
+    if (!/<w:t[ >]|<w:drawing\b|<w:pict\b/.test(content)) return undefined;
+    cover = `<w:sdt><w:sdtPr><w:docPartObj><w:docPartGallery w:val="Cover Pages"/><w:docPartUnique/></w:docPartObj></w:sdtPr><w:sdtContent>${content}</w:sdtContent></w:sdt>`;
+  }
+
+  return cover?.replace(/<w:(bookmarkStart|bookmarkEnd|commentRangeStart|commentRangeEnd|commentReference|footnoteReference|endnoteReference)\b[^>]*\/>/g, '');
+};
+
+/**
+ * Whether the reference document has a cover page for applyReferenceParts to copy
+ */
+export const hasReferenceCover = async (data: ArrayBuffer): Promise<boolean> => {
+  const reference = await openReference(data);
+  return !!readCoverPage(await reference.file('word/document.xml')?.async('string') || '');
+};
+
+/**
+ * Inserts the cover page of the reference document at the start of the body,
+ * with the images and links it uses and the namespaces it is written in
+ */
+const copyCoverPage = async (out: JSZip, reference: JSZip) => {
+  const refDocument = await reference.file('word/document.xml')?.async('string') || '';
+  let cover = readCoverPage(refDocument);
+  if (!cover) return;
+  const refRels = readRelationships(await reference.file('word/_rels/document.xml.rels')?.async('string') || '');
+
+  let contentTypes = await out.file('[Content_Types].xml')!.async('string');
+  let documentRels = await out.file('word/_rels/document.xml.rels')!.async('string');
+  let counter = 0;
+  for (const rel of refRels) {
+    if (!cover.includes(`="${rel.id}"`)) continue;
+    counter++;
+    const relId = `rIdSpecWeaverCover${counter}`;
+    let target = rel.target;
+    const file = !rel.external && reference.file(`word/${rel.target}`);
+    if (file) {
+      target = rel.target.replace(/([^/]+)$/, `swcover${counter}_$1`);
+      out.file(`word/${target}`, await file.async('arraybuffer'));
+      contentTypes = addMediaContentType(contentTypes, target);
+    }
+    const tag = rel.tag.replace(`Id="${rel.id}"`, `Id="${relId}"`).replace(`Target="${rel.target}"`, `Target="${target}"`);
+    documentRels = documentRels.replace('</Relationships>', `${tag}</Relationships>`);
+    cover = cover.replace(new RegExp(`(\\br:\\w+=")${rel.id}"`, 'g'), `$1${relId}"`);
+  }
+
+  let document = await out.file('word/document.xml')!.async('string');
+  const root = document.match(/<w:document\b[^>]*>/)![0];
+  const missing = Array.from((refDocument.match(/<w:document\b[^>]*>/)?.[0] || '').matchAll(/\sxmlns:(\w+)="[^"]*"/g))
+    .filter(m => !root.includes(`xmlns:${m[1]}=`))
+    .map(m => m[0]);
+  document = document
+    .replace(root, root.replace(/>$/, `${missing.join('')}>`))
+    .replace(/<w:body\b[^>]*>/, body => body + cover);
+
+  out.file('word/document.xml', document);
+  out.file('word/_rels/document.xml.rels', documentRels);
+  out.file('[Content_Types].xml', contentTypes);
+};
+
+/**
+ * Appends the reference list definitions (heading numbering, corporate
+ * bullets) to the numbering part written by the docx library
+ */
+const mergeNumbering = async (out: JSZip, reference: JSZip) => {
+  const source = await reference.file('word/numbering.xml')?.async('string');
+  const target = await out.file('word/numbering.xml')?.async('string');
+  if (!source || !target) return;
+
+  const declared = new Set(Array.from(target.matchAll(/xmlns:(\w+)=/g)).map(m => m[1]));
+  const copy = (pattern: RegExp) => Array.from(source.matchAll(pattern)).map(m => dropUndeclaredPrefixes(shiftNumberingIds(m[0]), declared)).join('');
+  const abstractNums = copy(/<w:abstractNum\b[\s\S]*?<\/w:abstractNum>/g).replace(/<w:lvlPicBulletId\b[^>]*\/>/g, '');
+  const nums = copy(/<w:num\b[\s\S]*?<\/w:num>/g);
+  if (!abstractNums && !nums) return;
+
+  // Schema order: every abstractNum comes before the first num
+  const firstNum = target.search(/<w:num\b/);
+  const merged = firstNum === -1
+    ? target.replace('</w:numbering>', `${abstractNums}${nums}</w:numbering>`)
+    : target.slice(0, firstNum) + abstractNums + target.slice(firstNum).replace('</w:numbering>', `${nums}</w:numbering>`);
+  out.file('word/numbering.xml', merged);
+};
+
+/**
+ * Copies the section headers and/or footers of the reference document,
+ * together with the images they use, and links them from the last section
+ */
+const copyHeadersFooters = async (out: JSZip, reference: JSZip, kinds: ('header' | 'footer')[]) => {
+  const refDocument = await reference.file('word/document.xml')?.async('string') || '';
+  const refSection = refDocument.match(/<w:sectPr\b[^>]*>(?![\s\S]*<w:sectPr\b)[\s\S]*?<\/w:sectPr>/)?.[0] || '';
+  const refRels = readRelationships(await reference.file('word/_rels/document.xml.rels')?.async('string') || '');
+
+  let contentTypes = await out.file('[Content_Types].xml')!.async('string');
+  let documentRels = await out.file('word/_rels/document.xml.rels')!.async('string');
+  const references: Record<'header' | 'footer', string[]> = { header: [], footer: [] };
+  let counter = 0;
+
+  for (const kind of kinds) {
+    for (const match of refSection.matchAll(new RegExp(`<w:${kind}Reference\\b[^>]*/>`, 'g'))) {
+      const type = readAttribute(match[0], 'w:type') || 'default';
+      const relationship = refRels.find(r => r.id === readAttribute(match[0], 'r:id'));
+      const part = relationship && await reference.file(`word/${relationship.target}`)?.async('string');
+      if (!part) continue;
+
+      counter++;
+      const partName = `sw_${kind}${counter}.xml`;
+      out.file(`word/${partName}`, part);
+
+      // Images and other parts the header points to
+      const partRels = await reference.file(`word/_rels/${relationship.target}.rels`)?.async('string');
+      if (partRels) {
+        let rewritten = partRels;
+        for (const rel of readRelationships(partRels)) {
+          const file = !rel.external && reference.file(`word/${rel.target}`);
+          if (!file) continue;
+          const copied = rel.target.replace(/([^/]+)$/, `sw${counter}_$1`);
+          out.file(`word/${copied}`, await file.async('arraybuffer'));
+          rewritten = rewritten.replace(rel.tag, rel.tag.replace(`Target="${rel.target}"`, `Target="${copied}"`));
+          contentTypes = addMediaContentType(contentTypes, copied);
+        }
+        out.file(`word/_rels/${partName}.rels`, rewritten);
+      }
+
+      const relId = `rIdSpecWeaver${kind === 'header' ? 'Header' : 'Footer'}${counter}`;
+      documentRels = documentRels.replace('</Relationships>', `<Relationship Id="${relId}" Type="${RELATIONSHIP_TYPES[kind]}" Target="${partName}"/></Relationships>`);
+      contentTypes = contentTypes.replace('</Types>', `<Override ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.${kind}+xml" PartName="/word/${partName}"/></Types>`);
+      references[kind].push(`<w:${kind}Reference w:type="${type}" r:id="${relId}"/>`);
+    }
+  }
+  if (!counter) return;
+
+  // Header references come first in sectPr, then footer references
+  let document = await out.file('word/document.xml')!.async('string');
+  const sectionStart = document.lastIndexOf('<w:sectPr');
+  let section = document.slice(sectionStart);
+  section = section.replace(/^<w:sectPr\b[^>]*>/, open => open + references.header.join(''));
+  const lastHeader = section.lastIndexOf('<w:headerReference');
+  const footerAt = lastHeader === -1 ? section.indexOf('>') + 1 : section.indexOf('/>', lastHeader) + 2;
+  section = section.slice(0, footerAt) + references.footer.join('') + section.slice(footerAt);
+  if (/<w:titlePg\b/.test(refSection) && !section.includes('<w:titlePg')) {
+    section = section.replace(/(<w:textDirection\b|<w:bidi\b|<w:rtlGutter\b|<w:docGrid\b|<\/w:sectPr>)/, '<w:titlePg/>$1');
+  }
+  document = document.slice(0, sectionStart) + section;
+
+  out.file('word/document.xml', document);
+  out.file('word/_rels/document.xml.rels', documentRels);
+  out.file('[Content_Types].xml', contentTypes);
+};
+
+/**
+ * Applies the parts of the reference document that the docx library cannot
+ * take as options: list numbering, the cover page when asked for and, unless
+ * the template defines its own, headers and footers.
+ */
+export const applyReferenceParts = async (docx: Blob, referenceDocx: ArrayBuffer, copy: { headers: boolean, footers: boolean, cover: boolean }): Promise<Blob> => {
+  const reference = await openReference(referenceDocx);
+  const out = await JSZip.loadAsync(await docx.arrayBuffer());
+
+  await mergeNumbering(out, reference);
+  if (copy.cover) await copyCoverPage(out, reference);
+  const kinds: ('header' | 'footer')[] = [];
+  if (copy.headers) kinds.push('header');
+  if (copy.footers) kinds.push('footer');
+  if (kinds.length) await copyHeadersFooters(out, reference, kinds);
+
+  return out.generateAsync({ type: 'blob', mimeType: docx.type || 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
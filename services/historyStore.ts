@@ -0,0 +1,99 @@
+// CONVERSION HISTORY
+// Every conversion is kept in the browser (IndexedDB), so earlier documents
+// can be restored or regenerated later. Nothing leaves the machine.
+
+import { ConversionMode, HistoryItem } from '../types';
+import { loadSpec } from './specModel';
+
+const DB_NAME = 'specweaver';
+const STORE_NAME = 'history';
+const MAX_HISTORY_ITEMS = 100;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("History is not available: this browser does not support IndexedDB."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry (e.g. after the user re-enables storage)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs one request against the history store and resolves once the
+ * transaction has committed
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Label for a conversion: the spec title and version when the spec parses,
+ * the first line of the input otherwise
+ */
+export const describeConversion = (mode: ConversionMode, input: string, output: string, docxName?: string): string => {
+  const spec = mode === ConversionMode.DOC_TO_SPEC ? output : input;
+  try {
+    const info = loadSpec(spec)?.info;
+    if (info?.title) return info.version ? `${info.title} ${info.version}` : info.title;
+  } catch (e) {
+    // Not a spec, fall back to the raw input
+  }
+  if (docxName) return docxName;
+  const firstLine = input.split('\n').map(line => line.trim()).find(Boolean) || 'Untitled';
+  return firstLine.length > 60 ? `${firstLine.substring(0, 57)}...` : firstLine;
+};
+
+/**
+ * All saved conversions, newest first
+ */
+export const listHistory = async (): Promise<HistoryItem[]> => {
+  const items = await withStore<HistoryItem[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Saves a conversion and drops the oldest ones beyond MAX_HISTORY_ITEMS
+ */
+export const saveHistoryItem = async (item: Omit<HistoryItem, 'id' | 'timestamp'>): Promise<HistoryItem> => {
+  const saved: HistoryItem = {
+    ...item,
+    id: typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    timestamp: Date.now(),
+  };
+  await withStore('readwrite', store => store.put(saved));
+
+  const items = await listHistory();
+  const stale = items.slice(MAX_HISTORY_ITEMS);
+  if (stale.length) {
+    await withStore('readwrite', store => { stale.forEach(old => store.delete(old.id)); });
+  }
+  return saved;
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
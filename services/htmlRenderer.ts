@@ -0,0 +1,491 @@
+// HTML RENDERER
+// Turns a spec into the HTML document shown in the preview. Its classes and
+// data-* attributes are what parseHTMLDocToSpec reads the spec back from.
+
+import { ConversionOptions } from '../types';
+import { dereference } from './jsonPointer';
+import { describeEncoding, describeSchemaConstraints, describeSchemaNotes, descriptionMarked, escapeHtml, exampleLabel, flattenSchema, formatExampleValue, getCallbackOperations, getHiddenInfo, getMediaExamples, getModelDescription, getOperations, getParameterDetails, getParameterNotes, getParameterSchema, getSecuritySchemes, groupOperationsByTag, isTypeOnlySchema, loadSpec, OAUTH_FLOW_FIELDS, schemaTypeLabel, SchemaVariantSection, SECURITY_SCHEME_FIELDS, splitSchemaVariants, variantHasTable, variantSectionTitle } from './specModel';
+
+/**
+ * Renders a CommonMark description to HTML. With `inline`, a description made of
+ * a single paragraph is returned without its <p> (table cells, list items).
+ */
+export const renderMarkdownHTML = (markdown: string, inline: boolean = false): string => {
+    const html = (descriptionMarked.parse(String(markdown)) as string).trim();
+    const single = inline ? html.match(/^<p>([\s\S]*)<\/p>$/) : null;
+    return single && !single[1].includes('<p>') ? single[1] : html;
+};
+
+/**
+ * Helper to generate an HTML table from a Schema object using the Flattening strategy
+ */
+const generateSchemaTableHTML = (schema: any, rootSpec: any, title: string = "Properties"): string => {
+  if (!schema) return '';
+
+  // Detect top-level Ref
+  const topLevelRef = schema.$ref;
+  
+  const { rows, sections } = splitSchemaVariants(flattenSchema(schema, rootSpec), rootSpec);
+
+  if (rows.length === 0 && sections.length === 0 && !schema.$defs) return '';
+
+  const tableStyle = "width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; border: 1px solid #cbd5e1; font-size: 0.875rem; background: white;";
+  const thStyle = "background-color: #f1f5f9; padding: 0.75rem; text-align: left; border: 1px solid #cbd5e1; font-weight: 700; color: #334155;";
+  const tdStyle = "padding: 0.75rem; border: 1px solid #cbd5e1; color: #334155; vertical-align: top;";
+  const codeStyle = "font-family: monospace; color: #0f172a; font-weight: 600; background: #f1f5f9; padding: 2px 4px; border-radius: 4px;";
+  const badgeStyle = "display: inline-block; background-color: #e0e7ff; color: #3730a3; padding: 2px 6px; border-radius: 4px; font-size: 0.75rem; font-weight: 600; margin-left: 8px;";
+
+  let containerAttrs = topLevelRef ? `data-schema-ref="${escapeHtml(topLevelRef)}"` : '';
+  // 3.1 $defs are not shown; they travel with the table to be restored
+  if (!topLevelRef && schema.$defs) containerAttrs += ` data-defs="${escapeHtml(JSON.stringify(schema.$defs))}"`;
+  
+  let html = `<div style="margin-top: 1rem;" class="schema-container" ${containerAttrs}>`;
+  if (title) {
+      let titleHtml = title;
+      if (topLevelRef) {
+          const refName = topLevelRef.split('/').pop();
+          titleHtml += `<span style="${badgeStyle}">Ref: ${escapeHtml(refName)}</span>`;
+      }
+      html += `<h5 style="font-size: 0.95rem; font-weight: 700; margin-bottom: 0.5rem; color: #1e293b;">${titleHtml}</h5>`;
+  }
+  
+  if (rows.length) html += `<table style="${tableStyle}" class="data-table">
+      <thead>
+        <tr>
+          <th style="${thStyle} width: 25%;">JSON Path</th>
+          <th style="${thStyle} width: 12%;">Type</th>
+          <th style="${thStyle} width: 8%;">Required</th>
+          <th style="${thStyle} width: 20%;">Constraints</th>
+          <th style="${thStyle}">Description</th>
+        </tr>
+      </thead>
+      <tbody>`;
+  
+  rows.forEach(row => {
+      let desc = row.description ? renderMarkdownHTML(row.description, true) : '';
+      
+      describeSchemaNotes(row).forEach(note => {
+          desc += `<br/><span class="field-note" style="font-size: 0.75rem; color: #64748b;">${escapeHtml(note)}</span>`;
+      });
+
+      const pathParts = row.path.split('.');
+      const pathDisplay = pathParts.length > 1 
+        ? `<span style="color:#64748b">${escapeHtml(pathParts.slice(0, -1).join('.'))}.</span><span style="${codeStyle}">${escapeHtml(pathParts[pathParts.length-1])}</span>`
+        : `<span style="${codeStyle}">${escapeHtml(row.path)}</span>`;
+
+      // If this specific row is a ref origin (and not just part of a top level ref which is handled by container), add data attr
+      const rowAttrs = row.ref ? `data-ref="${escapeHtml(row.ref)}"${row.refDescription ? ' data-ref-description="true"' : ''}` : '';
+      const typeDisplay = row.ref ? `${escapeHtml(row.type)} <span style="font-size:0.7rem; color: #6366f1;">(Ref)</span>` : escapeHtml(row.type);
+      const constraints = describeSchemaConstraints(row.constraints)
+          .map(line => `<div class="field-constraint" style="font-size: 0.8rem; white-space: nowrap;">${escapeHtml(line)}</div>`)
+          .join('');
+
+      html += `<tr ${rowAttrs}>
+          <td style="${tdStyle}" class="field-path" data-raw-path="${escapeHtml(row.path)}">${pathDisplay}</td>
+          <td style="${tdStyle}" class="field-type">${typeDisplay}</td>
+          <td style="${tdStyle}" class="field-required">${row.required ? 'Yes' : 'No'}</td>
+          <td style="${tdStyle}" class="field-constraints">${constraints || '-'}</td>
+          <td style="${tdStyle}" class="field-desc">${desc || '-'}</td>
+        </tr>`;
+  });
+
+  if (rows.length) html += `</tbody></table>`;
+  html += sections.map(section => generateVariantsHTML(section, rootSpec)).join('');
+  html += `</div>`;
+  
+  return html;
+}
+
+/**
+ * Renders a oneOf/anyOf union as labelled variants ("Variant A: Cat"), with the
+ * discriminator property and mapping. Inline variants get their own table, referenced
+ * ones point to their Data Models entry.
+ */
+const generateVariantsHTML = (section: SchemaVariantSection, rootSpec: any): string => {
+  const cellStyle = "padding:8px; border:1px solid #cbd5e1;";
+  const badgeStyle = "display: inline-block; background-color: #e0e7ff; color: #3730a3; padding: 2px 6px; border-radius: 4px; font-size: 0.75rem; font-weight: 600; margin-left: 8px;";
+  let html = `<div class="schema-variants" data-variant-path="${escapeHtml(section.path)}" data-variant-kind="${section.kind}" data-node-type="${escapeHtml(section.type)}" style="margin-bottom: 1.5rem; padding-left: 1rem; border-left: 3px solid #c7d2fe;">`;
+  html += `<h5 style="font-size: 0.95rem; font-weight: 700; margin-bottom: 0.5rem; color: #1e293b;">${escapeHtml(variantSectionTitle(section))}</h5>`;
+
+  const discriminator = section.discriminator;
+  if (discriminator?.propertyName) {
+      html += `<p style="margin-bottom: 0.5rem;"><strong>Discriminator:</strong> <code class="discriminator-property">${escapeHtml(discriminator.propertyName)}</code></p>`;
+  }
+  const mapping = Object.entries(discriminator?.mapping || {});
+  if (mapping.length) {
+      html += `<table class="discriminator-table" style="width: 100%; border-collapse: collapse; margin-bottom: 1rem; border: 1px solid #cbd5e1; font-size: 0.875rem;">
+      <thead><tr style="background:#f8fafc;"><th style="${cellStyle}">Value</th><th style="${cellStyle}">Schema</th></tr></thead><tbody>`;
+      mapping.forEach(([value, target]) => {
+          html += `<tr><td class="mapping-value" style="${cellStyle} font-family: monospace;">${escapeHtml(value)}</td><td class="mapping-schema" style="${cellStyle} font-family: monospace;">${escapeHtml(String(target))}</td></tr>`;
+      });
+      html += `</tbody></table>`;
+  }
+
+  section.variants.forEach(variant => {
+      const ref = variant.schema?.$ref;
+      html += `<div class="schema-variant"${ref ? ` data-variant-ref="${escapeHtml(ref)}"` : ''} style="margin-bottom: 1rem;">`;
+      html += `<p class="variant-label" style="margin-bottom: 0.5rem; font-weight: 600; color: #3730a3;">${escapeHtml(variant.label)}${ref ? `<span style="${badgeStyle}">Ref</span>` : ''}</p>`;
+      if (!ref) {
+          const table = variantHasTable(variant.schema, rootSpec) ? generateSchemaTableHTML(variant.schema, rootSpec, '') : '';
+          html += table || `<p style="margin-bottom: 0.5rem;"><strong>Type:</strong> <code class="variant-type">${escapeHtml(schemaTypeLabel(variant.schema, rootSpec))}</code></p>`;
+      }
+      html += `</div>`;
+  });
+  return html + `</div>`;
+};
+
+/**
+ * Renders the example blocks of a request/response media type
+ */
+const generateExamplesHTML = (media: any, rootSpec: any, contentType: string): string => {
+  return getMediaExamples(media, rootSpec, contentType).map(ex => {
+      const nameAttr = ex.name ? `data-example-name="${escapeHtml(ex.name)}"` : ex.generated ? 'data-generated="true"' : '';
+      return `<div class="example-block" ${nameAttr} style="margin-bottom: 1rem;">
+          <h5 style="font-size: 0.95rem; font-weight: 700; margin-bottom: 0.5rem; color: #1e293b;">${escapeHtml(exampleLabel(ex))}</h5>
+          <pre class="example-json" style="background: #0f172a; color: #e2e8f0; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; font-size: 0.8rem;"><code>${escapeHtml(formatExampleValue(ex.value, contentType))}</code></pre>
+        </div>`;
+  }).join('');
+};
+
+/**
+ * Renders the encoding object of a multipart/form-data or form body. The
+ * data-encoding attribute keeps the part headers the table only names.
+ */
+const generateEncodingHTML = (encoding: any): string => {
+  const parts = Object.entries(encoding || {});
+  if (parts.length === 0) return '';
+  const cellStyle = "padding:8px; border:1px solid #cbd5e1;";
+  let html = `<h5 style="font-size: 0.95rem; font-weight: 700; margin-bottom: 0.5rem; color: #1e293b;">Encoding</h5>`;
+  html += `<table class="encoding-table" data-encoding="${escapeHtml(JSON.stringify(encoding))}" style="width: 100%; border-collapse: collapse; margin-bottom: 1rem; border: 1px solid #cbd5e1; font-size: 0.875rem;">
+      <thead><tr style="background:#f8fafc;"><th style="${cellStyle}">Part</th><th style="${cellStyle}">Content-Type</th><th style="${cellStyle}">Headers</th><th style="${cellStyle}">Serialization</th></tr></thead><tbody>`;
+  parts.forEach(([name, part]: [string, any]) => {
+      html += `<tr><td class="encoding-part" style="${cellStyle} font-family: monospace;">${escapeHtml(name)}</td><td class="encoding-type" style="${cellStyle}">${escapeHtml(part?.contentType || '-')}</td><td class="encoding-headers" style="${cellStyle}">${escapeHtml(Object.keys(part?.headers || {}).join(', ') || '-')}</td><td class="encoding-style" style="${cellStyle}">${escapeHtml(describeEncoding(part) || '-')}</td></tr>`;
+  });
+  return html + `</tbody></table>`;
+};
+
+/**
+ * Renders one media type of a request or response body: the schema table (a
+ * type line for schemas without fields, e.g. a binary file), the encoding and the examples
+ */
+const generateMediaTypeHTML = (contentType: string, media: any, rootSpec: any, options: ConversionOptions, isResponse: boolean): string => {
+  const codeStyle = isResponse ? "background: white; padding: 2px 4px; border-radius: 4px; border: 1px solid #cbd5e1;" : "background: #f1f5f9; padding: 2px 4px; border-radius: 4px;";
+  let html = `<div class="${isResponse ? 'resp' : 'req'}-body-content" data-content-type="${escapeHtml(contentType)}" style="${isResponse ? 'margin-top: 1rem;' : 'margin-bottom: 1.5rem;'}">`;
+  html += `<p style="margin-bottom: 0.5rem;"><strong>Content-Type:</strong> <code style="${codeStyle}">${escapeHtml(contentType)}</code></p>`;
+  const table = isTypeOnlySchema(media?.schema, rootSpec) ? '' : generateSchemaTableHTML(media?.schema, rootSpec, isResponse ? "Response Data Structure" : "Body Schema");
+  if (table) {
+      html += table;
+  } else if (media?.schema) {
+      html += `<p style="margin-bottom: 0.5rem;"><strong>Type:</strong> <code class="media-schema-type" style="${codeStyle}">${escapeHtml(schemaTypeLabel(media.schema, rootSpec))}</code></p>`;
+  }
+  html += generateEncodingHTML(media?.encoding);
+  if (options.includeExamples) html += generateExamplesHTML(media, rootSpec, contentType);
+  return html + `</div>`;
+};
+
+/**
+ * Renders components.securitySchemes as the Authentication chapter
+ */
+const generateSecuritySchemesHTML = (spec: any): string => {
+  const schemes = getSecuritySchemes(spec);
+  if (schemes.length === 0) return '';
+
+  const thStyle = "padding:8px; border:1px solid #cbd5e1; background:#f1f5f9; text-align:left; width: 30%;";
+  const tdStyle = "padding:8px; border:1px solid #cbd5e1;";
+  const tableStyle = "width: 100%; border-collapse: collapse; margin-bottom: 1rem; border: 1px solid #cbd5e1; font-size: 0.875rem;";
+  const detailRows = (source: any, fields: { key: string, label: string }[]) => fields
+      .filter(f => source[f.key] !== undefined && source[f.key] !== '')
+      .map(f => `<tr><th style="${thStyle}">${f.label}</th><td class="auth-field" data-field="${f.key}" style="${tdStyle} font-family: monospace;">${escapeHtml(String(source[f.key]))}</td></tr>`)
+      .join('');
+
+  let html = `<h2 style="font-size: 1.75rem; font-weight: 700; margin-top: 2.5rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;">Authentication</h2>`;
+  html += `<div class="auth-section">`;
+  schemes.forEach(([name, scheme]) => {
+      html += `<div class="auth-scheme" data-scheme-name="${escapeHtml(name)}" style="margin-bottom: 2rem; border: 1px solid #e2e8f0; border-radius: 0.5rem; padding: 1.5rem;">`;
+      html += `<h3 style="font-size: 1.3rem; font-weight: 700; margin-bottom: 0.75rem;">${escapeHtml(name)}</h3>`;
+      if (scheme.description) html += `<div class="auth-desc" style="margin-bottom: 1rem; color: #475569;">${renderMarkdownHTML(scheme.description)}</div>`;
+      html += `<table class="auth-details-table" style="${tableStyle}"><tbody>${detailRows(scheme, SECURITY_SCHEME_FIELDS)}</tbody></table>`;
+
+      Object.entries(scheme.flows || {}).forEach(([flowName, flow]: [string, any]) => {
+          html += `<div class="auth-flow" data-flow="${escapeHtml(flowName)}" style="margin-top: 1rem;">`;
+          html += `<h4 style="font-size: 1.05rem; font-weight: 600; margin-bottom: 0.5rem;">Flow: ${escapeHtml(flowName)}</h4>`;
+          html += `<table class="auth-details-table" style="${tableStyle}"><tbody>${detailRows(flow || {}, OAUTH_FLOW_FIELDS)}</tbody></table>`;
+          const scopes = Object.entries(flow?.scopes || {});
+          html += `<table class="auth-scopes-table" style="${tableStyle}">
+              <thead><tr><th style="${thStyle}">Scope</th><th style="${thStyle} width: auto;">Description</th></tr></thead><tbody>`;
+          scopes.forEach(([scope, desc]) => {
+              html += `<tr><td class="scope-name" style="${tdStyle} font-family: monospace;">${escapeHtml(scope)}</td><td class="scope-desc" style="${tdStyle}">${desc ? renderMarkdownHTML(String(desc), true) : '-'}</td></tr>`;
+          });
+          html += `</tbody></table></div>`;
+      });
+      html += `</div>`;
+  });
+  html += `</div>`;
+  return html;
+};
+
+/**
+ * Deterministic Spec to HTML Converter (For Preview)
+ */
+export const convertSpecToDoc = (content: string, options: ConversionOptions): string => {
+  const spec = loadSpec(content);
+  
+  let html = `<!DOCTYPE html>
+  <html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'>
+  <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(spec.info?.title || 'API Documentation')}</title>
+      <style>
+          body { font-family: 'Inter', 'Calibri', sans-serif; line-height: 1.6; color: #1e293b; max-width: 800px; margin: 0 auto; padding: 20px; }
+          h1, h2, h3, h4, h5 { color: #0f172a; }
+          table { width: 100%; border-collapse: collapse; }
+          td, th { border: 1px solid #cbd5e1; padding: 8px; vertical-align: top; }
+          code { font-family: monospace; background: #f1f5f9; padding: 2px 4px; border-radius: 4px; }
+          .badge { background: #e0e7ff; color: #3730a3; padding: 2px 8px; border-radius: 12px; font-size: 0.75rem; font-weight: 600; display: inline-block; }
+      </style>
+  </head>
+  <body>
+  <div class="doc-content" data-openapi-version="${escapeHtml(spec.openapi || '')}">`;
+
+  // 1. Title & Info
+  if (spec.info) {
+    const hiddenInfo = getHiddenInfo(spec.info);
+    const infoAttr = hiddenInfo ? ` data-info="${escapeHtml(JSON.stringify(hiddenInfo))}"` : '';
+    html += `<h1 class="doc-title"${infoAttr} style="font-size: 2.25rem; font-weight: 800; margin-bottom: 0.5rem; border-bottom: 4px solid #3b82f6; padding-bottom: 1rem;">${escapeHtml(spec.info.title || 'API Documentation')}</h1>`;
+    if (spec.info.version) html += `<p class="doc-version" style="margin-bottom: 0.5rem; color: #64748b;"><strong>Version:</strong> ${escapeHtml(spec.info.version)}</p>`;
+    const infoLine = (label: string, value: string) => `<p class="doc-info" style="margin-bottom: 0.5rem; color: #64748b;"><strong>${label}:</strong> ${escapeHtml(value)}</p>`;
+    const contact = [spec.info.contact?.name, spec.info.contact?.email, spec.info.contact?.url].filter(Boolean).join(' · ');
+    if (contact) html += infoLine('Contact', contact);
+    if (spec.info.license?.name) html += infoLine('License', spec.info.license.url ? `${spec.info.license.name} (${spec.info.license.url})` : spec.info.license.name);
+    if (spec.info.termsOfService) html += infoLine('Terms of Service', spec.info.termsOfService);
+    if (spec.info.description) html += `<div class="doc-desc" style="margin-bottom: 2rem; font-size: 1.1rem;">${renderMarkdownHTML(spec.info.description)}</div>`;
+  }
+
+  // 2. Executive Summary
+  html += `<h2 style="font-size: 1.75rem; font-weight: 700; margin-top: 2.5rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;">Executive Summary</h2>`;
+  html += `<p style="margin-bottom: 1rem;">This document outlines the technical specifications for the ${escapeHtml(spec.info?.title || 'API')}.</p>`;
+
+  // 3. Servers
+  if (spec.servers && spec.servers.length > 0) {
+      html += `<h3 style="font-size: 1.4rem; font-weight: 700; margin-top: 2rem;">Servers</h3>`;
+      html += `<div class="servers-section"><table style="width: 100%; border-collapse: collapse; margin-bottom: 1.5rem; border: 1px solid #cbd5e1;">
+          <thead><tr style="background:#f1f5f9;"><th style="padding:8px; border:1px solid #cbd5e1;">URL</th><th style="padding:8px; border:1px solid #cbd5e1;">Description</th></tr></thead><tbody>`;
+      spec.servers.forEach((srv: any) => {
+          html += `<tr><td class="server-url" style="padding:8px; border:1px solid #cbd5e1; font-family:monospace;">${escapeHtml(srv.url)}</td><td class="server-desc" style="padding:8px; border:1px solid #cbd5e1;">${srv.description ? renderMarkdownHTML(srv.description, true) : '-'}</td></tr>`;
+      });
+      html += `</tbody></table></div>`;
+  }
+
+  // 4. Global Security & Tags (grouped documents list the tags as chapters instead)
+  const listTags = spec.tags && !options.groupByTag;
+  if (spec.security || listTags) {
+      html += `<div style="display:flex; gap: 2rem; margin-bottom: 2rem;">`;
+      
+      if (spec.security) {
+          html += `<div class="security-section" style="flex:1;">
+              <h3 style="font-size: 1.2rem; font-weight: 700;">Global Security</h3>
+              <ul style="padding-left: 1.2rem;">`;
+          spec.security.forEach((sec: any) => {
+              const key = Object.keys(sec)[0];
+              const scopes = sec[key];
+              html += `<li data-sec-name="${escapeHtml(key)}" data-sec-scopes="${escapeHtml(scopes.join(','))}"><strong>${escapeHtml(key)}</strong> ${scopes.length ? `(${escapeHtml(scopes.join(', '))})` : ''}</li>`;
+          });
+          html += `</ul></div>`;
+      }
+
+      if (listTags) {
+          html += `<div class="tags-section" style="flex:1;">
+              <h3 style="font-size: 1.2rem; font-weight: 700;">Tags</h3>
+              <ul style="padding-left: 1.2rem;">`;
+          spec.tags.forEach((tag: any) => {
+              html += `<li data-tag-name="${escapeHtml(tag.name)}"><strong>${escapeHtml(tag.name)}</strong>: ${tag.description ? renderMarkdownHTML(tag.description, true) : ''}</li>`;
+          });
+          html += `</ul></div>`;
+      }
+      html += `</div>`;
+  }
+
+  // 5. Authentication
+  if (options.includeAuthentication) {
+      html += generateSecuritySchemesHTML(spec);
+  }
+
+  // 6. Endpoints
+  const renderOperation = (path: string, method: string, op: any, pathParams: any[]): string => {
+    let html = '';
+    const methodColor = method === 'get' ? '#2563eb' : method === 'post' ? '#16a34a' : method === 'delete' ? '#dc2626' : '#d97706';
+    
+    const opAttrs = `data-operation-id="${escapeHtml(op.operationId || '')}" data-tags="${escapeHtml((op.tags || []).join(','))}"`;
+
+    html += `<div class="op-container" ${opAttrs} style="background: #fff; border: 1px solid #e2e8f0; border-radius: 0.75rem; padding: 2rem; margin-bottom: 2.5rem; box-shadow: 0 4px 6px -1px rgba(0,0,0,0.1);">`;
+    
+    html += `<h3 class="op-header" style="font-size: 1.5rem; font-weight: 700; margin-bottom: 1rem; display: flex; align-items: center; gap: 1rem; border-bottom: 1px solid #f1f5f9; padding-bottom: 1rem;">
+        <span class="op-method" style="background-color: ${methodColor}; color: white; padding: 0.35rem 1rem; border-radius: 0.5rem; font-size: 1rem; text-transform: uppercase; letter-spacing: 0.05em;">${method}</span>
+        <span class="op-path" style="font-family: monospace; color: #334155;">${escapeHtml(path)}</span>
+      </h3>`;
+    
+    // Metadata
+    html += `<div style="margin-bottom: 1.5rem; font-size: 0.9rem; color: #64748b; display: flex; gap: 1rem; flex-wrap: wrap;">`;
+    if (op.operationId) html += `<span><strong>ID:</strong> <span class="op-id">${escapeHtml(op.operationId)}</span></span>`;
+    if (op.tags && op.tags.length) html += `<span><strong>Tags:</strong> ${op.tags.map((t:string) => `<span class="badge">${escapeHtml(t)}</span>`).join(' ')}</span>`;
+    if (op.security) {
+        const secStr = op.security.map((s: any) => Object.keys(s)[0]).join(', ');
+        html += `<span><strong>Security:</strong> <span class="op-security" data-raw="${escapeHtml(JSON.stringify(op.security))}">${escapeHtml(secStr)}</span></span>`;
+    }
+    html += `</div>`;
+
+    if (op.summary) html += `<p style="margin-bottom: 0.5rem;"><strong>Summary:</strong> <span class="op-summary">${escapeHtml(op.summary)}</span></p>`;
+    if (op.description) html += `<div class="op-desc" style="margin-bottom: 1.5rem; color: #475569;">${renderMarkdownHTML(op.description)}</div>`;
+
+    // Parameters
+    if (op.parameters && op.parameters.length > 0) {
+      html += `<h4 style="font-size: 1.1rem; font-weight: 600; margin-top: 1.5rem; margin-bottom: 1rem; color: #1e293b; padding-left: 0.5rem; border-left: 4px solid #94a3b8;">Parameters</h4>`;
+      const tableStyle = "width: 100%; border-collapse: collapse; margin-bottom: 1rem; border: 1px solid #cbd5e1; font-size: 0.875rem;";
+      html += `<table class="params-table" style="${tableStyle}">
+          <thead><tr style="background-color: #f1f5f9;"><th style="padding:8px; border:1px solid #cbd5e1;">Name</th><th style="padding:8px; border:1px solid #cbd5e1;">In</th><th style="padding:8px; border:1px solid #cbd5e1;">Required</th><th style="padding:8px; border:1px solid #cbd5e1;">Type</th><th style="padding:8px; border:1px solid #cbd5e1;">Description</th></tr></thead><tbody>`;
+      op.parameters.forEach((rawParam: any) => {
+        const param = dereference(rawParam, spec);
+        const details = getParameterDetails(param);
+        let rowAttrs = rawParam.$ref ? `data-param-ref="${escapeHtml(rawParam.$ref)}"` : '';
+        if (pathParams.includes(rawParam)) rowAttrs += ` data-param-level="path"`;
+        if (details) rowAttrs += ` data-param="${escapeHtml(JSON.stringify(details))}"`;
+        const notes = getParameterNotes(param, spec)
+            .map(note => `<br/><span class="field-note" style="font-size: 0.75rem; color: #64748b;">${escapeHtml(note)}</span>`)
+            .join('');
+        html += `<tr ${rowAttrs}>
+            <td class="param-name" style="padding:8px; border:1px solid #cbd5e1; font-family: monospace; font-weight: 600;">${escapeHtml(param.name)}</td>
+            <td class="param-in" style="padding:8px; border:1px solid #cbd5e1;">${escapeHtml(param.in)}</td>
+            <td class="param-req" style="padding:8px; border:1px solid #cbd5e1;">${param.required ? 'Yes' : 'No'}</td>
+            <td class="param-type" style="padding:8px; border:1px solid #cbd5e1;">${escapeHtml(schemaTypeLabel(getParameterSchema(param), spec))}</td>
+            <td class="param-desc" style="padding:8px; border:1px solid #cbd5e1;">${param.description ? renderMarkdownHTML(param.description, true) : '-'}${notes}</td>
+          </tr>`;
+      });
+      html += `</tbody></table>`;
+    }
+
+    // Request Body
+    const requestBody = dereference(op.requestBody, spec);
+    if (requestBody && requestBody.content) {
+        let bodyAttrs = op.requestBody.$ref ? `data-request-body-ref="${escapeHtml(op.requestBody.$ref)}"` : '';
+        if (requestBody.required) bodyAttrs += ` data-required="true"`;
+        const requiredBadge = requestBody.required ? ` <span style="font-size: 0.75rem; font-weight: 600; color: #b91c1c; margin-left: 0.5rem;">Required</span>` : '';
+        html += `<h4 class="req-body-title" ${bodyAttrs} style="font-size: 1.1rem; font-weight: 600; margin-top: 2rem; margin-bottom: 1rem; color: #1e293b; padding-left: 0.5rem; border-left: 4px solid #16a34a;">Request Body${requiredBadge}</h4>`;
+        if (requestBody.description) html += `<div class="req-body-desc" style="margin-bottom: 1rem; color: #475569;">${renderMarkdownHTML(requestBody.description)}</div>`;
+        for (const [contentType, content] of Object.entries(requestBody.content as any)) {
+            html += generateMediaTypeHTML(contentType, content, spec, options, false);
+        }
+    }
+
+    // Responses
+    if (op.responses) {
+      html += `<h4 style="font-size: 1.1rem; font-weight: 600; margin-top: 2rem; margin-bottom: 1rem; color: #1e293b; padding-left: 0.5rem; border-left: 4px solid #2563eb;">Responses</h4>`;
+      for (const [code, res] of Object.entries(op.responses as any)) {
+        const response = dereference(res, spec) || {};
+        const isSuccess = code.startsWith('2');
+        const boxColor = isSuccess ? '#f0fdf4' : '#fef2f2';
+        const borderColor = isSuccess ? '#bbf7d0' : '#fecaca';
+        const respAttrs = (res as any)?.$ref ? `data-response-ref="${escapeHtml((res as any).$ref)}"` : '';
+
+        html += `<div class="resp-container" ${respAttrs} style="background-color: ${boxColor}; border: 1px solid ${borderColor}; padding: 1.5rem; border-radius: 0.5rem; margin-bottom: 1.5rem;">`;
+        html += `<p style="font-size: 1.1rem; font-weight: 600; margin-bottom: 0.5rem;"><span class="resp-code">HTTP ${escapeHtml(code)}</span></p>`;
+        if (response.description) html += `<div class="resp-desc" style="color: #64748b; margin-bottom: 0.5rem;">${renderMarkdownHTML(response.description)}</div>`;
+
+        if (response.headers && Object.keys(response.headers).length > 0) {
+            html += `<h5 style="font-size: 0.95rem; font-weight: 700; margin-top: 1rem; margin-bottom: 0.5rem;">Response Headers</h5>`;
+            html += `<table class="resp-headers-table" style="width: 100%; border-collapse: collapse; margin-bottom: 1rem; border: 1px solid #cbd5e1;">
+                <thead><tr style="background:#f8fafc;"><th style="padding:8px; border:1px solid #cbd5e1;">Header Name</th><th style="padding:8px; border:1px solid #cbd5e1;">Type</th><th style="padding:8px; border:1px solid #cbd5e1;">Description</th></tr></thead><tbody>`;
+            for (const [hName, hVal] of Object.entries(response.headers as any)) {
+                const h = dereference(hVal, spec) || {};
+                const headerAttrs = (hVal as any)?.$ref ? `data-header-ref="${escapeHtml((hVal as any).$ref)}"` : '';
+                html += `<tr ${headerAttrs}><td class="header-name" style="padding:8px; border:1px solid #cbd5e1;">${escapeHtml(hName)}</td><td class="header-type" style="padding:8px; border:1px solid #cbd5e1;">${escapeHtml(dereference(h.schema, spec)?.type || 'string')}</td><td class="header-desc" style="padding:8px; border:1px solid #cbd5e1;">${h.description ? renderMarkdownHTML(h.description, true) : '-'}</td></tr>`;
+            }
+            html += `</tbody></table>`;
+        }
+
+        if (response.content) {
+            for (const [contentType, content] of Object.entries(response.content as any)) {
+                html += generateMediaTypeHTML(contentType, content, spec, options, true);
+            }
+        }
+        html += `</div>`;
+      }
+    }
+
+    // Callbacks: the requests the API sends, each laid out as an operation on its runtime expression
+    const callbacks = Object.entries(op.callbacks || {});
+    if (callbacks.length) {
+      html += `<h4 class="callbacks-title" style="font-size: 1.1rem; font-weight: 600; margin-top: 2rem; margin-bottom: 1rem; color: #1e293b; padding-left: 0.5rem; border-left: 4px solid #d97706;">Callbacks</h4>`;
+      for (const [name, callback] of callbacks) {
+        const callbackAttrs = (callback as any)?.$ref ? ` data-callback-ref="${escapeHtml((callback as any).$ref)}"` : '';
+        html += `<div class="callback-container" data-callback-name="${escapeHtml(name)}"${callbackAttrs} style="border-left: 3px solid #fde68a; padding-left: 1rem; margin-bottom: 1.5rem;">`;
+        html += `<h5 class="callback-name" style="font-size: 1rem; font-weight: 700; margin-bottom: 1rem; font-family: monospace;">${escapeHtml(name)}</h5>`;
+        getCallbackOperations(callback, spec).forEach(entry => {
+          html += renderOperation(entry.expression, entry.method, entry.op, entry.pathParams);
+        });
+        html += `</div>`;
+      }
+    }
+    html += `</div>`;
+    return html;
+  };
+
+  if (spec.paths && options.groupByTag) {
+    // One chapter per tag (introduced by the tag description), inside its x-tagGroups group if any
+    groupOperationsByTag(spec).forEach(({ group, chapters }) => {
+      if (group !== null) {
+        html += `<section class="tag-group" data-tag-group="${escapeHtml(group)}">`;
+        html += `<h1 style="font-size: 2rem; font-weight: 800; margin-top: 3rem; margin-bottom: 1rem; color: #0f172a;">${escapeHtml(group)}</h1>`;
+      }
+      chapters.forEach(chapter => {
+        const chapterAttrs = chapter.tag === null ? 'data-tag=""' : `data-tag="${escapeHtml(chapter.tag)}"${chapter.declared ? ' data-tag-declared="true"' : ''}`;
+        html += `<section class="tag-chapter" ${chapterAttrs}>`;
+        html += `<h2 style="font-size: 1.75rem; font-weight: 700; margin-top: 2.5rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;">${escapeHtml(chapter.tag ?? 'Other')}</h2>`;
+        if (chapter.description) html += `<div class="tag-desc" style="margin-bottom: 1.5rem; color: #475569;">${renderMarkdownHTML(chapter.description)}</div>`;
+        chapter.operations.forEach(({ path, method, op, pathParams }) => {
+          html += renderOperation(path, method, op, pathParams);
+        });
+        html += `</section>`;
+      });
+      if (group !== null) html += `</section>`;
+    });
+  } else if (spec.paths) {
+    html += `<h2 style="font-size: 1.75rem; font-weight: 700; margin-top: 2.5rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;">Endpoints</h2>`;
+
+    for (const [path, pathItem] of Object.entries(spec.paths)) {
+      for (const { method, op, pathParams } of getOperations(pathItem, spec)) {
+        html += renderOperation(path, method, op, pathParams);
+      }
+    }
+  }
+
+  // Webhooks (OpenAPI 3.1): requests the API sends, named instead of a path
+  const webhooks = Object.entries(spec.webhooks || {});
+  if (webhooks.length) {
+    html += `<h2 style="font-size: 1.75rem; font-weight: 700; margin-top: 2.5rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;">Webhooks</h2>`;
+    html += `<div class="webhooks-section">`;
+    for (const [name, pathItem] of webhooks) {
+      for (const { method, op, pathParams } of getOperations(pathItem, spec)) {
+        html += renderOperation(name, method, op, pathParams);
+      }
+    }
+    html += `</div>`;
+  }
+
+  // 7. Data Models
+  if (spec.components && spec.components.schemas && Object.keys(spec.components.schemas).length > 0) {
+      html += `<h2 style="font-size: 1.75rem; font-weight: 700; margin-top: 3rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;">Data Models</h2>`;
+      html += `<div class="components-section">`;
+      for (const [name, schema] of Object.entries(spec.components.schemas)) {
+          html += `<div class="component-def" data-component-name="${escapeHtml(name)}" style="margin-bottom: 2rem; border: 1px solid #e2e8f0; padding: 1.5rem; rounded-lg;">`;
+          html += `<h3 id="model-${escapeHtml(name)}" style="font-size: 1.3rem; margin-bottom: 1rem; color: #3730a3;">${escapeHtml(name)}</h3>`;
+          const modelDescription = getModelDescription(schema, spec);
+          if (modelDescription) html += `<div class="model-desc" style="margin-bottom: 1rem;">${renderMarkdownHTML(modelDescription)}</div>`;
+          html += generateSchemaTableHTML(schema, spec, `Properties`);
+          html += `</div>`;
+      }
+      html += `</div>`;
+  }
+
+  html += `</div></body></html>`; 
+  return html;
+};
@@ -0,0 +1,79 @@
+// PREVIEW SANITIZER
+// Generated and uploaded HTML documents are shown in the app itself, so the
+// preview keeps only an allowlist of elements and attributes: the document
+// layout and what Markdown descriptions render to. Everything else, scripts,
+// frames, SVG and MathML included, never reaches the page.
+
+// Elements kept in the preview
+const ALLOWED_ELEMENTS = new Set([
+  'div', 'span', 'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'blockquote', 'pre', 'code', 'kbd', 'samp',
+  'a', 'img', 'strong', 'b', 'em', 'i', 'u', 's', 'del', 'ins', 'mark', 'small', 'sub', 'sup', 'abbr',
+  'section', 'article', 'header', 'footer', 'nav', 'main', 'details', 'summary', 'input'
+]);
+
+// Elements outside the list removed together with their content; the others are replaced by their content
+const DROPPED_ELEMENTS = new Set([
+  'script', 'style', 'template', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'svg', 'math', 'textarea', 'select', 'title'
+]);
+
+// Attributes kept besides data-* and aria-*
+const ALLOWED_ATTRIBUTES = new Set([
+  'class', 'title', 'alt', 'href', 'src', 'width', 'height', 'colspan', 'rowspan',
+  'align', 'scope', 'start', 'type', 'checked', 'disabled', 'open', 'lang', 'dir'
+]);
+
+// Attributes holding URLs, checked against the allowed schemes
+const URL_ATTRIBUTES = ['href', 'src'];
+
+const UNSAFE_URL = /^(javascript|vbscript|data):/i;
+const SAFE_DATA_URL = /^data:image\/(png|gif|jpe?g|webp|bmp);/i;
+
+const isUnsafeUrl = (value: string) => {
+  // Browsers ignore control characters and whitespace inside the scheme
+  const url = value.replace(/[\u0000- ]/g, '');
+  return UNSAFE_URL.test(url) && !SAFE_DATA_URL.test(url);
+};
+
+// Images only load from the page's own origin or inline data, so the preview makes no requests elsewhere
+const isAllowedImageSource = (value: string) => {
+  const url = value.replace(/[\u0000- ]/g, '');
+  if (SAFE_DATA_URL.test(url)) return true;
+  const base = typeof location !== 'undefined' ? location.href : 'http://preview.invalid/';
+  try {
+    return new URL(url, base).origin === new URL(base).origin;
+  } catch {
+    return false;
+  }
+};
+
+const isAllowedAttribute = (tag: string, name: string, value: string) => {
+  if (name.startsWith('data-') || name.startsWith('aria-')) return true;
+  if (!ALLOWED_ATTRIBUTES.has(name)) return false;
+  if (tag === 'img' && name === 'src') return isAllowedImageSource(value);
+  return !(URL_ATTRIBUTES.includes(name) && isUnsafeUrl(value));
+};
+
+/**
+ * Returns the body of an HTML document with everything outside the allowlist removed
+ */
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.body.querySelectorAll('*').forEach(el => {
+    const tag = el.tagName.toLowerCase();
+    if (DROPPED_ELEMENTS.has(tag)) {
+      el.remove();
+      return;
+    }
+    if (!ALLOWED_ELEMENTS.has(tag)) {
+      el.replaceWith(...Array.from(el.childNodes));
+      return;
+    }
+    Array.from(el.attributes).forEach(attr => {
+      if (!isAllowedAttribute(tag, attr.name.toLowerCase(), attr.value)) el.removeAttribute(attr.name);
+    });
+  });
+  return doc.body.innerHTML;
+};
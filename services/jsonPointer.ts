@@ -0,0 +1,69 @@
+// JSON POINTER RESOLUTION
+// RFC 6901 pointers as used by local OpenAPI $ref values, e.g.
+// "#/components/parameters/limit" or "#/paths/~1users/get/responses/200".
+
+/**
+ * Decodes one pointer segment: URI fragment escapes first, then ~1 (/) and ~0 (~)
+ */
+export const decodePointerSegment = (segment: string): string => {
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch (e) {
+    // Not percent-encoded, use as is
+  }
+  return decoded.replace(/~1/g, '/').replace(/~0/g, '~');
+};
+
+export const encodePointerSegment = (segment: string): string => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Splits a local reference ("#/a/b") into decoded segments. Returns null for
+ * references that point outside the current document.
+ */
+export const parsePointer = (ref: string): string[] | null => {
+  if (!ref.startsWith('#')) return null;
+  const pointer = ref.substring(1);
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) return null;
+  return pointer.substring(1).split('/').map(decodePointerSegment);
+};
+
+export const resolvePointer = (root: any, ref: string): any => {
+  const segments = parsePointer(ref);
+  if (!segments) return undefined;
+  return segments.reduce((node: any, key: string) => (node !== null && typeof node === 'object') ? node[key] : undefined, root);
+};
+
+/**
+ * Last segment of a reference, e.g. "User" for "#/components/schemas/User"
+ */
+export const refName = (ref: string): string => {
+  const segments = parsePointer(ref);
+  if (segments && segments.length) return segments[segments.length - 1];
+  return ref.split('/').pop() || ref;
+};
+
+/**
+ * Follows a chain of $ref objects to the value they point at. Keywords written
+ * next to a $ref (OpenAPI 3.1 summary/description overrides) are kept on top
+ * of the target. Unresolvable or circular chains stop at the last reachable object.
+ */
+export const dereference = (value: any, root: any): any => {
+  if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') return value;
+
+  const seen = new Set<string>();
+  let current = value;
+  let siblings: any = {};
+
+  while (current && typeof current === 'object' && typeof current.$ref === 'string' && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    const target = resolvePointer(root, current.$ref);
+    if (target === undefined) break;
+    const { $ref, ...rest } = current;
+    siblings = { ...rest, ...siblings };
+    current = target;
+  }
+
+  return { ...current, ...siblings };
+};
@@ -0,0 +1,162 @@
+// LOCAL MARKDOWN IMPORT SERVICE
+// Rebuilds an OpenAPI spec from a Markdown document written by
+// convertSpecToMarkdown. That document follows the Word layout, so it is read
+// into the same paragraph and table blocks and handed to the DOCX reader logic.
+
+import { ConversionOptions } from '../types';
+import { MARKDOWN_METADATA_PREFIX } from './markdownRenderer';
+import { DocxBlock, parseDocumentBlocks } from './docxReader';
+import { DocxMetadataEntry, DocxRoundTripMetadata } from './docxMetadata';
+
+const METADATA_COMMENT = new RegExp(`<!--\\s*${MARKDOWN_METADATA_PREFIX}\\s+([\\s\\S]*?)-->`, 'g');
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Labels convertSpecToMarkdown sets in bold; the block reader expects them as plain text
+const LABEL = /^\*\*(Version:|Summary:|ID:|Tags:|Security:|Content-Type:|Required:|Type:|HTTP \S+|Example(?: \(generated\)|:)?|Response Headers|Encoding|Schema \(.+?\)|[^*]*?(?:One|Any) of|Discriminator:|(?:Variant [A-Z0-9]+ \/ )*Variant [A-Z0-9]+: [^*]+)\*\*/;
+
+// Labels followed by a code-formatted value
+const CODE_LABELS = ['Content-Type:', 'Type:', 'Discriminator:'];
+
+/**
+ * Whether a pasted document is Markdown rather than the HTML source (which
+ * starts with a tag; a Markdown document may start with a metadata comment)
+ */
+export const isMarkdownDoc = (content: string): boolean => !/^\s*<(?!!--)/.test(content) && /^#{1,6}\s/m.test(content);
+
+// Plain values are written with backslash escapes; descriptions are read from the raw Markdown
+const unescapeMarkdownText = (text: string): string => text.replace(/\\([!-\/:-@[-`{-~])/g, '$1');
+
+const readLabelLine = (text: string): string => {
+  const match = text.match(LABEL);
+  if (!match) return text;
+  // The operation metadata line holds several labels and a code-formatted ID
+  if (/^(ID|Tags|Security):$/.test(match[1])) return text.replace(/\*\*|`/g, '');
+  const rest = text.slice(match[0].length);
+  return match[1] + (CODE_LABELS.includes(match[1]) ? rest.replace(/`/g, '') : rest);
+};
+
+/**
+ * Splits a table row on the pipes that are not escaped
+ */
+const splitRow = (line: string): string[] => {
+  const row = line.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1');
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '\\|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current);
+  return cells;
+};
+
+const readCell = (cell: string, plain: boolean): string => {
+  const text = cell.trim().replace(/<br\s*\/?>/gi, '\n');
+  const code = text.match(/^`([^`]*)`$/);
+  if (code) return code[1].replace(/\\\|/g, '|');
+  return plain ? unescapeMarkdownText(text) : text.replace(/\\\|/g, '|');
+};
+
+/**
+ * Reads a Markdown document into paragraphs and tables. The metadata comments
+ * become bookmarks of the block they appear in, as in a DOCX file.
+ */
+export const readMarkdown = (markdown: string): { blocks: DocxBlock[], metadata: DocxRoundTripMetadata } => {
+  const metadata: DocxRoundTripMetadata = { entries: {} };
+  const blocks: DocxBlock[] = [];
+
+  const takeMetadata = (text: string): { text: string, bookmarks: string[] } => {
+    const bookmarks: string[] = [];
+    const rest = text.replace(METADATA_COMMENT, (_, json: string) => {
+      try {
+        const entry = JSON.parse(json);
+        if (entry.openapi) metadata.openapi = entry.openapi;
+        const id = `md_${Object.keys(metadata.entries).length + 1}`;
+        metadata.entries[id] = entry as DocxMetadataEntry;
+        bookmarks.push(id);
+      } catch (e) {
+        // Damaged comment: the visible text still carries most of the content
+      }
+      return '';
+    });
+    return { text: rest.trim(), bookmarks };
+  };
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  const flushParagraph = () => {
+    if (!paragraph.length) return;
+    const { text, bookmarks } = takeMetadata(paragraph.join('\n'));
+    blocks.push({ kind: 'paragraph', style: '', text: unescapeMarkdownText(readLabelLine(text)), markdown: text, bookmarks });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      blocks.push({ kind: 'paragraph', style: '', text: code.join('\n'), markdown: [line, ...code, lines[i] ?? fence[1]].join('\n'), bookmarks: [] });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      const { text, bookmarks } = takeMetadata(heading[2]);
+      blocks.push({ kind: 'paragraph', style: `Heading${heading[1].length}`, text: unescapeMarkdownText(text), bookmarks });
+      continue;
+    }
+
+    if (line.trim().startsWith('|') && TABLE_DELIMITER.test(lines[i + 1] || '')) {
+      flushParagraph();
+      const rows: string[][] = [];
+      const rowBookmarks: string[][] = [];
+      const addRow = (row: string) => {
+        const cells = splitRow(row).map(takeMetadata);
+        // The Description column is CommonMark, the other cells plain values
+        const descriptionColumn = rows.length ? rows[0].indexOf('Description') : -1;
+        rows.push(cells.map((cell, idx) => readCell(cell.text, idx !== descriptionColumn)));
+        rowBookmarks.push(cells.flatMap(cell => cell.bookmarks));
+      };
+      addRow(line);
+      for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) addRow(lines[i]);
+      i--;
+      blocks.push({ kind: 'table', rows, rowBookmarks });
+      continue;
+    }
+
+    const item = line.match(/^\s*[-*+]\s+(.*)$/);
+    if (item) {
+      flushParagraph();
+      const { text, bookmarks } = takeMetadata(item[1]);
+      const source = line.replace(METADATA_COMMENT, '').trimEnd();
+      blocks.push({ kind: 'paragraph', style: '', text: unescapeMarkdownText(text.replace(/^\*\*(.+?)\*\*/, '$1')), markdown: source, bookmarks });
+      continue;
+    }
+
+    if (line.trim()) paragraph.push(line);
+    else flushParagraph();
+  }
+  flushParagraph();
+
+  return { blocks, metadata };
+};
+
+/**
+ * Parses a Markdown document produced by convertSpecToMarkdown back into an OpenAPI Spec.
+ */
+export const parseMarkdownDocToSpec = (markdown: string, options: ConversionOptions): string => {
+  const { blocks, metadata } = readMarkdown(markdown);
+  return parseDocumentBlocks(blocks, metadata, options);
+};
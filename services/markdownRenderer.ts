@@ -0,0 +1,273 @@
+// MARKDOWN RENDERER
+// Writes a spec as a GFM document with the Word layout; markdownReader reads
+// it back from the same headings, tables and metadata comments.
+
+import { ConversionOptions } from '../types';
+import { dereference } from './jsonPointer';
+import { describeEncoding, describeSchemaConstraints, describeSchemaNotes, exampleLabel, flattenSchema, formatExampleValue, getCallbackOperations, getHiddenInfo, getMediaExamples, getModelDescription, getOperations, getParameterNotes, getParameterSchema, getSecuritySchemes, groupOperationsByTag, isJsonMediaType, isTypeOnlySchema, loadSpec, OAUTH_FLOW_FIELDS, parameterMetadata, schemaTypeLabel, SchemaVariantSection, SECURITY_SCHEME_FIELDS, splitSchemaVariants, variantHasTable, variantSectionTitle } from './specModel';
+
+// Markdown documents carry their round-trip data (the HTML data-* attributes,
+// the DOCX bookmarks) in comments of this form: <!-- specweaver {...} -->
+export const MARKDOWN_METADATA_PREFIX = 'specweaver';
+
+const markdownMeta = (entry: any): string => {
+    // Escaped so the JSON can neither close the comment nor split a table cell
+    const json = JSON.stringify(entry).replace(/</g, '\\u003c').replace(/>/g, '\\u003e').replace(/\|/g, '\\u007c');
+    return `<!-- ${MARKDOWN_METADATA_PREFIX} ${json} -->`;
+};
+
+// Plain values (titles, names, summaries, types) are escaped so Markdown shows them as
+// written; descriptions are CommonMark and keep their formatting
+const escapeMarkdownText = (text: string) => String(text).replace(/[\\`*_[\]<>|&~]/g, '\\$&');
+
+const escapeMarkdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const plainMarkdownCell = (text: string) => escapeMarkdownText(text).replace(/\r?\n/g, '<br>');
+
+const markdownTable = (headers: string[], rows: string[][]): string => [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(cells => `| ${cells.join(' | ')} |`)
+].join('\n');
+
+/**
+ * GFM table of the flattened schema rows, with the same columns and notes as the Word
+ * table, followed by its oneOf/anyOf variants as in the Word layout
+ */
+const generateSchemaTableMarkdown = (schema: any, rootSpec: any, variantPrefix: string = ''): string => {
+    if (!schema) return '';
+    const { rows, sections } = splitSchemaVariants(flattenSchema(schema, rootSpec), rootSpec);
+
+    const tableMeta = schema.$ref ? { schemaRef: schema.$ref } : schema.$defs ? { defs: schema.$defs } : undefined;
+    const pathHeader = tableMeta ? `JSON Path ${markdownMeta(tableMeta)}` : 'JSON Path';
+    const table = rows.length === 0 ? '' : markdownTable([pathHeader, 'Type', 'Required', 'Constraints', 'Description'], rows.map(row => {
+        let desc = row.description || '-';
+        describeSchemaNotes(row).forEach(note => { desc += ` [${note}]`; });
+
+        let path = row.path ? `\`${row.path}\`` : '-';
+        if (row.ref) path += ` ${markdownMeta({ ref: row.ref, refDescription: row.refDescription })}`;
+        const type = row.ref ? `${row.type} (Ref)` : row.type;
+        const constraints = describeSchemaConstraints(row.constraints).join('\n') || '-';
+        return [path, plainMarkdownCell(type), row.required ? 'Yes' : 'No', plainMarkdownCell(constraints), escapeMarkdownCell(desc)];
+    }));
+    return [table, ...sections.map(section => generateVariantsMarkdown(section, rootSpec, variantPrefix))].filter(block => block).join('\n\n');
+};
+
+const generateVariantsMarkdown = (section: SchemaVariantSection, rootSpec: any, prefix: string): string => {
+    const blocks = [`**${prefix}${variantSectionTitle(section)}** ${markdownMeta({ variants: { path: section.path, kind: section.kind, type: section.type } })}`];
+    if (section.discriminator?.propertyName) blocks.push(`**Discriminator:** \`${section.discriminator.propertyName}\``);
+    const mapping = Object.entries(section.discriminator?.mapping || {});
+    if (mapping.length) {
+        blocks.push(markdownTable(['Value', 'Schema'], mapping.map(([value, target]) => [`\`${escapeMarkdownCell(value)}\``, `\`${escapeMarkdownCell(String(target))}\``])));
+    }
+    section.variants.forEach(variant => {
+        const ref = variant.schema?.$ref;
+        if (ref) {
+            blocks.push(`**${prefix}${variant.label} (Ref)** ${markdownMeta({ ref })}`);
+        } else if (variantHasTable(variant.schema, rootSpec)) {
+            blocks.push(`**${prefix}${variant.label}**`, generateSchemaTableMarkdown(variant.schema, rootSpec, `${prefix}${variant.id} / `));
+        } else {
+            blocks.push(`**${prefix}${variant.label}**`, `**Type:** \`${schemaTypeLabel(variant.schema, rootSpec)}\``);
+        }
+    });
+    return blocks.join('\n\n');
+};
+
+/**
+ * Deterministic Spec to Markdown Converter. The layout follows the Word
+ * document (same headings and labels) so the DOCX reader logic reads it back.
+ */
+export const convertSpecToMarkdown = (content: string, options: ConversionOptions): string => {
+  const spec = loadSpec(content);
+  const blocks: string[] = [];
+
+  // "Example" / "Example: name" label followed by the JSON (or the raw text payload) in a fenced block
+  const exampleBlocks = (media: any, contentType: string): string[] => {
+      if (!options.includeExamples) return [];
+      return getMediaExamples(media, spec, contentType).flatMap(ex => [
+          ex.name ? `**Example:** ${escapeMarkdownText(ex.name)}` : `**${exampleLabel(ex)}**`,
+          '```' + (isJsonMediaType(contentType) ? 'json' : '') + '\n' + formatExampleValue(ex.value, contentType) + '\n```'
+      ]);
+  };
+
+  // Schema table (or type line), encoding and examples of one body media type
+  const pushMediaType = (contentType: string, media: any) => {
+      const table = isTypeOnlySchema(media?.schema, spec) ? '' : generateSchemaTableMarkdown(media?.schema, spec);
+      if (table) blocks.push(table);
+      else if (media?.schema) blocks.push(`**Type:** \`${schemaTypeLabel(media.schema, spec)}\``);
+      const parts = Object.entries(media?.encoding || {});
+      if (parts.length) {
+          blocks.push('**Encoding**');
+          blocks.push(markdownTable([`Part ${markdownMeta({ encoding: media.encoding })}`, 'Content-Type', 'Headers', 'Serialization'], parts.map(([name, part]: [string, any]) => [
+              `\`${name}\``, plainMarkdownCell(part?.contentType || '-'), plainMarkdownCell(Object.keys(part?.headers || {}).join(', ') || '-'), plainMarkdownCell(describeEncoding(part) || '-')
+          ])));
+      }
+      blocks.push(...exampleBlocks(media, contentType));
+  };
+
+  const pushTable = (table: string) => {
+      if (table) blocks.push(table);
+  };
+
+  // 1. Title & Info (fields without a visible place travel in the leading comment)
+  const info = spec.info || {};
+  const hiddenInfo = getHiddenInfo(info);
+  blocks.push(markdownMeta(hiddenInfo ? { openapi: spec.openapi, info: hiddenInfo } : { openapi: spec.openapi }));
+  blocks.push(`# ${escapeMarkdownText(info.title || 'API Documentation')}`);
+  if (info.version) blocks.push(`**Version:** ${escapeMarkdownText(info.version)}`);
+  if (info.description) blocks.push(info.description);
+
+  // 2. Servers
+  if (spec.servers && spec.servers.length > 0) {
+      blocks.push('## Servers');
+      blocks.push(markdownTable(['URL', 'Description'], spec.servers.map((srv: any) => [plainMarkdownCell(srv.url || ''), escapeMarkdownCell(srv.description || '-')])));
+  }
+
+  // 3. Global Security & Tags (grouped documents list the tags as chapters instead)
+  if (spec.security && spec.security.length > 0) {
+      blocks.push('## Global Security');
+      blocks.push(spec.security
+          .filter((sec: any) => Object.keys(sec)[0])
+          .map((sec: any) => {
+              const key = Object.keys(sec)[0];
+              const scopes: string[] = sec[key] || [];
+              return `- **${escapeMarkdownText(key)}**${scopes.length ? ` (${escapeMarkdownText(scopes.join(', '))})` : ''} ${markdownMeta({ securityRequirement: sec })}`;
+          })
+          .join('\n'));
+  }
+  if (spec.tags && spec.tags.length > 0 && !options.groupByTag) {
+      blocks.push('## Tags');
+      blocks.push(spec.tags.map((tag: any) => `- **${escapeMarkdownText(tag.name)}**: ${tag.description || ''}`).join('\n'));
+  }
+
+  // 4. Authentication
+  const schemes = options.includeAuthentication ? getSecuritySchemes(spec) : [];
+  if (schemes.length > 0) {
+      blocks.push('## Authentication');
+      const detailsTable = (source: any, fields: { key: string, label: string }[]) => markdownTable(['Property', 'Value'], fields
+          .filter(f => source[f.key] !== undefined && source[f.key] !== '')
+          .map(f => [f.label, plainMarkdownCell(String(source[f.key]))]));
+
+      schemes.forEach(([name, scheme]) => {
+          blocks.push(`### ${escapeMarkdownText(name)}`);
+          if (scheme.description) blocks.push(scheme.description);
+          blocks.push(detailsTable(scheme, SECURITY_SCHEME_FIELDS));
+          Object.entries(scheme.flows || {}).forEach(([flowName, flow]: [string, any]) => {
+              blocks.push(`#### Flow: ${flowName}`);
+              blocks.push(detailsTable(flow || {}, OAUTH_FLOW_FIELDS));
+              blocks.push(markdownTable(['Scope', 'Description'], Object.entries(flow?.scopes || {})
+                  .map(([scope, desc]) => [`\`${scope}\``, escapeMarkdownCell(String(desc || '-'))])));
+          });
+      });
+  }
+
+  // 5. Endpoints. A callback operation is an H5 "name: METHOD expression" with H6 subsections.
+  const pushOperation = (path: string, method: string, op: any, pathParams: any[] = [], callback?: string) => {
+      const [opHeading, subHeading] = callback ? ['#####', '######'] : ['###', '####'];
+      const title = escapeMarkdownText(`${callback ? `${callback}: ` : ''}${method.toUpperCase()} ${path}`);
+      blocks.push(`${opHeading} ${title} ${markdownMeta({ operationId: op.operationId, tags: op.tags, security: op.security, callback })}`);
+
+      const opMeta: string[] = [];
+      if (op.operationId) opMeta.push(`**ID:** \`${op.operationId}\``);
+      if (op.tags && op.tags.length) opMeta.push(`**Tags:** ${escapeMarkdownText(op.tags.join(', '))}`);
+      if (op.security) opMeta.push(`**Security:** ${escapeMarkdownText(op.security.map((s: any) => Object.keys(s)[0]).join(', '))}`);
+      if (opMeta.length) blocks.push(opMeta.join('   '));
+
+      if (op.summary) blocks.push(`**Summary:** ${escapeMarkdownText(op.summary)}`);
+      if (op.description) blocks.push(op.description);
+
+      // Parameters
+      if (op.parameters && op.parameters.length > 0) {
+          blocks.push(`${subHeading} Parameters`);
+          blocks.push(markdownTable(['Name', 'In', 'Required', 'Type', 'Description'], op.parameters.map((rawParam: any) => {
+              const p = dereference(rawParam, spec);
+              const rowMeta = parameterMetadata(rawParam, p, pathParams);
+              const notes = getParameterNotes(p, spec).map(note => `[${note}]`).join(' ');
+              const name = rowMeta ? `\`${p.name}\` ${markdownMeta(rowMeta)}` : `\`${p.name}\``;
+              return [name, p.in, p.required ? 'Yes' : 'No', plainMarkdownCell(schemaTypeLabel(getParameterSchema(p), spec)), escapeMarkdownCell((p.description || '-') + (notes ? `\n\n${notes}` : ''))];
+          })));
+      }
+
+      // Request Body
+      const requestBody = dereference(op.requestBody, spec);
+      if (requestBody && requestBody.content) {
+          blocks.push(op.requestBody.$ref ? `${subHeading} Request Body ${markdownMeta({ requestBodyRef: op.requestBody.$ref })}` : `${subHeading} Request Body`);
+          if (requestBody.required) blocks.push('**Required:** Yes');
+          if (requestBody.description) blocks.push(requestBody.description);
+          for (const [contentType, content] of Object.entries(requestBody.content as any)) {
+              blocks.push(`**Content-Type:** \`${contentType}\``);
+              pushMediaType(contentType, content);
+          }
+      }
+
+      // Responses
+      if (op.responses) {
+          blocks.push(`${subHeading} Responses`);
+          for (const [code, res] of Object.entries(op.responses as any)) {
+              const r = dereference(res, spec) || {};
+              const responseMeta = (res as any)?.$ref ? ` ${markdownMeta({ responseRef: (res as any).$ref })}` : '';
+              blocks.push(`**HTTP ${code}**${responseMeta} - ${r.description || ''}`);
+
+              if (r.headers && Object.keys(r.headers).length > 0) {
+                  blocks.push('**Response Headers**');
+                  blocks.push(markdownTable(['Header Name', 'Type', 'Description'], Object.entries(r.headers as any).map(([hName, hVal]) => {
+                      const h = dereference(hVal, spec) || {};
+                      const headerMeta = (hVal as any)?.$ref ? ` ${markdownMeta({ headerRef: (hVal as any).$ref })}` : '';
+                      return [`\`${hName}\`${headerMeta}`, plainMarkdownCell(dereference(h.schema, spec)?.type || 'string'), escapeMarkdownCell(h.description || '-')];
+                  })));
+              }
+
+              for (const [contentType, content] of Object.entries((r.content || {}) as any)) {
+                  blocks.push(`**Schema (${escapeMarkdownText(contentType)})**`);
+                  pushMediaType(contentType, content);
+              }
+          }
+      }
+
+      // A callback's own callbacks have no heading level left
+      const callbacks = callback ? [] : Object.entries(op.callbacks || {});
+      if (callbacks.length) {
+          blocks.push('#### Callbacks');
+          callbacks.forEach(([name, cb]) => getCallbackOperations(cb, spec)
+              .forEach(entry => pushOperation(entry.expression, entry.method, entry.op, entry.pathParams, name)));
+      }
+  };
+
+  if (spec.paths && options.groupByTag) {
+      // Same markers as the Word layout: group headings are H1, tag chapters H2
+      groupOperationsByTag(spec).forEach(({ group, chapters }) => {
+          if (group !== null) blocks.push(`# ${escapeMarkdownText(group)} ${markdownMeta({ tagGroup: group })}`);
+          chapters.forEach(chapter => {
+              blocks.push(`## ${escapeMarkdownText(chapter.tag ?? 'Other')} ${markdownMeta({ tag: chapter.tag ?? '', declaredTag: chapter.declared, tagGroup: group ?? undefined })}`);
+              if (chapter.description) blocks.push(chapter.description);
+              chapter.operations.forEach(({ path, method, op, pathParams }) => pushOperation(path, method, op, pathParams));
+          });
+      });
+  } else if (spec.paths) {
+      blocks.push('## Endpoints');
+      for (const [path, pathItem] of Object.entries(spec.paths)) {
+          for (const { method, op, pathParams } of getOperations(pathItem, spec)) {
+              pushOperation(path, method, op, pathParams);
+          }
+      }
+  }
+
+  const webhooks = Object.entries(spec.webhooks || {});
+  if (webhooks.length) {
+      blocks.push('## Webhooks');
+      webhooks.forEach(([name, pathItem]) => getOperations(pathItem, spec).forEach(({ method, op, pathParams }) => pushOperation(name, method, op, pathParams)));
+  }
+
+  // 6. Data Models
+  if (spec.components && spec.components.schemas && Object.keys(spec.components.schemas).length > 0) {
+      blocks.push('## Data Models');
+      for (const [name, schema] of Object.entries(spec.components.schemas)) {
+          blocks.push(`### ${escapeMarkdownText(name)}`);
+          const modelDescription = getModelDescription(schema, spec);
+          if (modelDescription) blocks.push(modelDescription);
+          pushTable(generateSchemaTableMarkdown(schema, spec));
+      }
+  }
+
+  return blocks.join('\n\n') + '\n';
+};
@@ -0,0 +1,600 @@
+// PDF RENDERER
+// Draws a spec as a PDF with jsPDF in the browser, with bookmarks and a
+// clickable table of contents. PDF output is not read back.
+
+import { ConversionOptions } from '../types';
+import { jsPDF } from 'jspdf';
+import { dereference, refName } from './jsonPointer';
+import { describeEncoding, describeSchemaConstraints, describeSchemaNotes, descriptionMarked, exampleLabel, flattenSchema, formatExampleValue, getCallbackOperations, getMediaExamples, getModelDescription, getOperations, getParameterNotes, getParameterSchema, getSecuritySchemes, groupOperationsByTag, isTypeOnlySchema, loadSpec, OAUTH_FLOW_FIELDS, schemaTypeLabel, SECURITY_SCHEME_FIELDS, splitSchemaVariants, unescapeHtml, UNSAFE_LINK, variantHasTable, variantSectionTitle } from './specModel';
+
+// A piece of description text in the PDF with its formatting; `link` is the target URL
+type PdfRun = { text: string, bold?: boolean, italic?: boolean, code?: boolean, link?: string };
+
+// Same formatting as docxInlineRuns; the standard PDF fonts have no strikethrough, so deleted text stays plain
+const pdfInlineRuns = (tokens: any[], style: Omit<PdfRun, 'text'> = {}): PdfRun[] => tokens.flatMap((token: any): PdfRun[] => {
+    switch (token.type) {
+        case 'strong': return pdfInlineRuns(token.tokens, { ...style, bold: true });
+        case 'em': return pdfInlineRuns(token.tokens, { ...style, italic: true });
+        case 'codespan': return [{ ...style, code: true, text: unescapeHtml(token.text) }];
+        case 'br': return [{ ...style, text: '\n' }];
+        case 'link':
+            if (UNSAFE_LINK.test(token.href)) return pdfInlineRuns(token.tokens, style);
+            return pdfInlineRuns(token.tokens, { ...style, link: token.href });
+        case 'html': return [{ ...style, text: token.text }];
+        case 'image': return [{ ...style, text: token.text }];
+        default: return token.tokens ? pdfInlineRuns(token.tokens, style) : [{ ...style, text: unescapeHtml(token.text || '') }];
+    }
+});
+
+/**
+ * A CommonMark description as the runs of one table cell: blocks go on their
+ * own lines, list items get a bullet and headings are bold
+ */
+const markdownToPdfRuns = (markdown: string): PdfRun[] => {
+    const runs: PdfRun[] = [];
+    const line = (children: PdfRun[]) => runs.push(...(runs.length ? [{ text: '\n' }] : []), ...children);
+    const walk = (tokens: any[], prefix: string) => tokens.forEach((token: any) => {
+        switch (token.type) {
+            case 'paragraph':
+            case 'text':
+                line([{ text: prefix }, ...pdfInlineRuns(token.tokens || [token])]);
+                break;
+            case 'heading':
+                line(pdfInlineRuns(token.tokens, { bold: true }));
+                break;
+            case 'code':
+                line([{ text: token.text, code: true }]);
+                break;
+            case 'blockquote':
+                walk(token.tokens, prefix);
+                break;
+            case 'list':
+                token.items.forEach((item: any, idx: number) => {
+                    const marker = token.ordered ? `${(token.start === '' ? 1 : Number(token.start)) + idx}. ` : '• ';
+                    const [first, ...rest] = item.tokens;
+                    if (first && (first.type === 'text' || first.type === 'paragraph')) {
+                        walk([first], prefix + marker);
+                        walk(rest, prefix);
+                    } else {
+                        line([{ text: prefix + marker }]);
+                        walk(item.tokens, prefix);
+                    }
+                });
+                break;
+            case 'table':
+                [token.header, ...token.rows].forEach((cells: any[]) => line(cells.flatMap((cell, idx) => [...(idx ? [{ text: ' | ' }] : []), ...pdfInlineRuns(cell.tokens)])));
+                break;
+            case 'html':
+                if (token.text.trim()) line([{ text: token.text.trim() }]);
+                break;
+        }
+    });
+    walk(descriptionMarked.lexer(String(markdown)), '');
+    return runs.filter(run => run.text);
+};
+
+/**
+ * Generates a PDF Blob with jsPDF, locally like the DOCX. Same chapters as
+ * convertSpecToDoc; chapters and endpoints become PDF bookmarks and lines of
+ * a clickable table of contents placed after the title page.
+ */
+export const generatePdfBlob = async (specContent: string, options: ConversionOptions): Promise<Blob> => {
+    const spec = loadSpec(specContent);
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 50;
+    const contentWidth = pageWidth - 2 * margin;
+    let y = margin;
+
+    // Same palette as the HTML preview
+    const colors = { text: '#1e293b', muted: '#64748b', accent: '#2563eb', border: '#cbd5e1', fill: '#f1f5f9', code: '#0f172a' };
+
+    // Headings listed in the outline and the table of contents, with the page they start on
+    const tocEntries: { title: string, level: number, page: number }[] = [];
+
+    const newPage = () => {
+        pdf.addPage();
+        y = margin;
+    };
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - margin) newPage();
+    };
+
+    const setFont = (size: number, style: 'normal' | 'bold' | 'italic' | 'bolditalic' = 'normal', color = colors.text, font = 'helvetica') => {
+        pdf.setFont(font, style);
+        pdf.setFontSize(size);
+        pdf.setTextColor(color);
+    };
+
+    const lineHeight = (size: number) => size * pdf.getLineHeightFactor();
+
+    // Wrapped text, broken across pages line by line
+    const writeLines = (lines: string[], size: number, x = margin) => {
+        lines.forEach(line => {
+            ensureSpace(lineHeight(size));
+            pdf.text(line, x, y, { baseline: 'top' });
+            y += lineHeight(size);
+        });
+    };
+
+    const paragraph = (text: string, size = 10, color = colors.text, after = 8) => {
+        setFont(size, 'normal', color);
+        writeLines(pdf.splitTextToSize(text, contentWidth), size);
+        y += after;
+    };
+
+    // Formatted runs laid out on lines, each piece with its offset from the line start
+    type PlacedRun = { run: PdfRun, text: string, x: number };
+
+    const setRunFont = (run: PdfRun, size: number, color: string) => setFont(
+        size,
+        run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal',
+        run.link ? colors.accent : run.code ? colors.code : color,
+        run.code ? 'courier' : 'helvetica'
+    );
+
+    // Breaks runs into lines of at most `width`, between words or inside a word longer than a line
+    const wrapRuns = (runs: PdfRun[], width: number, size: number): PlacedRun[][] => {
+        const lines: PlacedRun[][] = [[]];
+        let x = 0;
+        runs.forEach(run => run.text.split('\n').forEach((part, idx) => {
+            if (idx > 0) {
+                lines.push([]);
+                x = 0;
+            }
+            setRunFont(run, size, colors.text);
+            part.split(/(\s+)/).forEach(word => {
+                const space = /^\s+$/.test(word);
+                const pieces: string[] = !space && pdf.getTextWidth(word) > width ? pdf.splitTextToSize(word, width) : [word];
+                pieces.forEach(piece => {
+                    const pieceWidth = pdf.getTextWidth(piece);
+                    if (!space && x + pieceWidth > width && lines[lines.length - 1].length) {
+                        lines.push([]);
+                        x = 0;
+                    }
+                    const line = lines[lines.length - 1];
+                    if (!piece || (space && !line.length)) return;
+                    const last = line[line.length - 1];
+                    if (last?.run === run) last.text += piece;
+                    else line.push({ run, text: piece, x });
+                    x += pieceWidth;
+                });
+            });
+        }));
+        return lines;
+    };
+
+    const drawRunLine = (line: PlacedRun[], x: number, top: number, size: number, color: string) => line.forEach(placed => {
+        setRunFont(placed.run, size, color);
+        pdf.text(placed.text, x + placed.x, top, { baseline: 'top' });
+        if (placed.run.link) pdf.link(x + placed.x, top, pdf.getTextWidth(placed.text), lineHeight(size), { url: placed.run.link });
+    });
+
+    // Wrapped formatted text from `x` to the right margin, broken across pages line by line
+    const writeRuns = (runs: PdfRun[], size: number, color: string, x = margin) => {
+        wrapRuns(runs, margin + contentWidth - x, size).forEach(line => {
+            ensureSpace(lineHeight(size));
+            drawRunLine(line, x, y, size, color);
+            y += lineHeight(size);
+        });
+    };
+
+    // Monospace lines on a shaded block
+    const codeBlock = (text: string, x = margin) => {
+        setFont(8, 'normal', colors.code, 'courier');
+        const lines: string[] = text.split('\n').flatMap(line => pdf.splitTextToSize(line, margin + contentWidth - x - 12));
+        lines.forEach(line => {
+            ensureSpace(lineHeight(8));
+            pdf.setFillColor(colors.fill);
+            pdf.rect(x, y, margin + contentWidth - x, lineHeight(8), 'F');
+            pdf.text(line, x + 6, y, { baseline: 'top' });
+            y += lineHeight(8);
+        });
+    };
+
+    /**
+     * A CommonMark description: bold, italics, code spans and links become formatted
+     * text, lists get bullets or numbers, quotes are indented and code blocks shaded.
+     * `lead` runs open the first paragraph, which is a bullet with `bullet`.
+     */
+    const markdown = (text: string, options: { size?: number, color?: string, after?: number, lead?: PdfRun[], bullet?: boolean } = {}) => {
+        const { size = 10, color = colors.text, after = 8 } = options;
+        const tokens = descriptionMarked.lexer(String(text)).filter((token: any) => token.type !== 'space');
+        const left = margin + (options.bullet ? 14 : 0);
+        let lead = options.lead;
+        let first = true;
+
+        // Block with the marker of its bullet or list item in front of it
+        const block = (runs: PdfRun[], x: number, marker?: string) => {
+            if (marker) {
+                setFont(size, 'normal', color);
+                ensureSpace(lineHeight(size));
+                pdf.text(marker, x - 12, y, { baseline: 'top' });
+            }
+            writeRuns(runs, size, color, x);
+            y += 4;
+        };
+        const bulletMarker = () => {
+            const marker = first && options.bullet ? '•' : undefined;
+            first = false;
+            return marker;
+        };
+        const inline = (runs: PdfRun[], x: number) => {
+            const leading = lead || [];
+            lead = undefined;
+            block([...leading, ...runs], x, bulletMarker());
+        };
+
+        if (lead && !(tokens[0]?.type === 'paragraph' || tokens[0]?.type === 'text')) inline([], left);
+
+        const walk = (tokens: any[], x: number) => tokens.forEach((token: any) => {
+            switch (token.type) {
+                case 'paragraph':
+                case 'text':
+                    inline(pdfInlineRuns(token.tokens || [token]), x);
+                    break;
+                case 'heading':
+                    block(pdfInlineRuns(token.tokens, { bold: true }), x, bulletMarker());
+                    break;
+                case 'code':
+                    bulletMarker();
+                    codeBlock(token.text, x);
+                    y += 4;
+                    break;
+                case 'blockquote':
+                    walk(token.tokens, x + 14);
+                    break;
+                case 'list':
+                    token.items.forEach((item: any, idx: number) => {
+                        const marker = token.ordered ? `${(token.start === '' ? 1 : Number(token.start)) + idx}.` : '•';
+                        const [head, ...rest] = item.tokens;
+                        const isInline = head && (head.type === 'text' || head.type === 'paragraph');
+                        block(isInline ? pdfInlineRuns(head.tokens || [head]) : [], x + 14, marker);
+                        walk(isInline ? rest : item.tokens, x + 14);
+                    });
+                    break;
+                case 'table':
+                    [token.header, ...token.rows].forEach((cells: any[]) => block(cells.flatMap((cell, idx) => [...(idx ? [{ text: ' | ' }] : []), ...pdfInlineRuns(cell.tokens)]), x));
+                    break;
+                case 'html':
+                    if (token.text.trim()) block([{ text: token.text.trim() }], x);
+                    break;
+            }
+        });
+        walk(tokens, left);
+        y += after - 4;
+    };
+
+    // "Label: value" with a bold label
+    const labelled = (label: string, value: string, size = 10) => {
+        setFont(size, 'bold');
+        const labelWidth = pdf.getTextWidth(`${label}: `);
+        ensureSpace(lineHeight(size));
+        pdf.text(`${label}: `, margin, y, { baseline: 'top' });
+        setFont(size);
+        const [first, ...rest] = pdf.splitTextToSize(value, contentWidth - labelWidth) as string[];
+        pdf.text(first || '', margin + labelWidth, y, { baseline: 'top' });
+        y += lineHeight(size);
+        writeLines(rest, size, margin + labelWidth);
+        y += 4;
+    };
+
+    const bullet = (text: string) => {
+        setFont(10);
+        const lines: string[] = pdf.splitTextToSize(text, contentWidth - 14);
+        ensureSpace(lineHeight(10));
+        pdf.text('•', margin + 2, y, { baseline: 'top' });
+        writeLines(lines, 10, margin + 14);
+        y += 2;
+    };
+
+    const HEADING_SIZES = [22, 16, 13, 11, 10];
+    const heading = (text: string, level: 1 | 2 | 3 | 4 | 5, options: { toc?: boolean, color?: string } = {}) => {
+        const size = HEADING_SIZES[level - 1];
+        setFont(size, 'bold', options.color || colors.code);
+        const lines: string[] = pdf.splitTextToSize(text, contentWidth);
+        // Keep the heading with the first lines of what follows
+        y += level <= 2 ? 16 : 10;
+        ensureSpace(lines.length * lineHeight(size) + 40);
+        if (options.toc !== false && level <= 3) tocEntries.push({ title: text, level, page: pdf.getCurrentPageInfo().pageNumber });
+        writeLines(lines, size);
+        if (level === 2) {
+            pdf.setDrawColor(colors.border);
+            pdf.line(margin, y + 2, margin + contentWidth, y + 2);
+            y += 6;
+        }
+        y += 6;
+    };
+
+    /**
+     * Bordered table with a shaded header row that is repeated after a page break.
+     * Cells are plain text or formatted runs; `widths` are fractions of the content width.
+     */
+    const table = (headers: string[], rows: (string | PdfRun[])[][], widths: number[]) => {
+        const size = 9;
+        const padding = 4;
+        const columnWidths = widths.map(w => w * contentWidth);
+        const drawRow = (cells: (string | PdfRun[])[], isHeader: boolean) => {
+            const wrapped = cells.map((cell, i) => {
+                const runs = typeof cell === 'string' ? [{ text: cell, bold: isHeader }] : cell;
+                return wrapRuns(runs.some(run => run.text.trim()) ? runs : [{ text: '-' }], columnWidths[i] - 2 * padding, size);
+            });
+            const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight(size) + 2 * padding;
+            if (y + height > pageHeight - margin) {
+                newPage();
+                if (!isHeader) drawRow(headers, true);
+            }
+            let x = margin;
+            wrapped.forEach((lines, i) => {
+                pdf.setDrawColor(colors.border);
+                pdf.setFillColor(colors.fill);
+                pdf.rect(x, y, columnWidths[i], height, isHeader ? 'FD' : 'S');
+                lines.forEach((line, n) => drawRunLine(line, x + padding, y + padding + n * lineHeight(size), size, colors.text));
+                x += columnWidths[i];
+            });
+            y += height;
+        };
+        ensureSpace(4 * lineHeight(size));
+        drawRow(headers, true);
+        rows.forEach(row => drawRow(row, false));
+        y += 10;
+    };
+
+    const schemaTable = (schema: any) => {
+        if (!schema) return;
+        const { rows, sections } = splitSchemaVariants(flattenSchema(schema, spec), spec);
+        if (rows.length === 0 && sections.length === 0) return;
+        if (schema.$ref) paragraph(`Ref: ${refName(schema.$ref)}`, 9, colors.muted, 4);
+        if (rows.length) table(['JSON Path', 'Type', 'Required', 'Constraints', 'Description'], rows.map(row => {
+            const desc = [...markdownToPdfRuns(row.description || '-'), ...describeSchemaNotes(row).map(note => ({ text: ` [${note}]` }))];
+            return [row.path, row.ref ? `${row.type} (Ref)` : row.type, row.required ? 'Yes' : 'No', describeSchemaConstraints(row.constraints).join('\n') || '-', desc];
+        }), [0.25, 0.12, 0.08, 0.2, 0.35]);
+        sections.forEach(section => {
+            paragraph(variantSectionTitle(section), 10, colors.text, 2);
+            if (section.discriminator?.propertyName) labelled('Discriminator', section.discriminator.propertyName);
+            const mapping = Object.entries(section.discriminator?.mapping || {});
+            if (mapping.length) table(['Value', 'Schema'], mapping.map(([value, target]) => [value, String(target)]), [0.3, 0.7]);
+            section.variants.forEach(variant => {
+                const ref = variant.schema?.$ref;
+                paragraph(ref ? `${variant.label} (Ref)` : variant.label, 10, colors.code, 2);
+                if (ref) return;
+                if (variantHasTable(variant.schema, spec)) schemaTable(variant.schema);
+                else labelled('Type', schemaTypeLabel(variant.schema, spec));
+            });
+        });
+    };
+
+    // Example label followed by the JSON on a shaded monospace block
+    const examples = (media: any, contentType: string) => {
+        if (!options.includeExamples) return;
+        getMediaExamples(media, spec, contentType).forEach(ex => {
+            setFont(10, 'bold');
+            ensureSpace(3 * lineHeight(10));
+            pdf.text(exampleLabel(ex), margin, y, { baseline: 'top' });
+            y += lineHeight(10) + 2;
+            codeBlock(formatExampleValue(ex.value, contentType));
+            y += 10;
+        });
+    };
+
+    // Content type, schema table (or type line), encoding and examples of one body media type
+    const mediaType = (contentType: string, media: any) => {
+        labelled('Content-Type', contentType);
+        if (isTypeOnlySchema(media?.schema, spec)) labelled('Type', schemaTypeLabel(media.schema, spec));
+        else schemaTable(media?.schema);
+        const parts = Object.entries(media?.encoding || {});
+        if (parts.length) {
+            paragraph('Encoding', 10, colors.text, 2);
+            table(['Part', 'Content-Type', 'Headers', 'Serialization'], parts.map(([name, part]: [string, any]) => [
+                name, part?.contentType || '-', Object.keys(part?.headers || {}).join(', ') || '-', describeEncoding(part) || '-'
+            ]), [0.25, 0.25, 0.2, 0.3]);
+        }
+        examples(media, contentType);
+    };
+
+    // 1. Title page
+    const info = spec.info || {};
+    y = pageHeight / 3;
+    setFont(26, 'bold', colors.code);
+    writeLines(pdf.splitTextToSize(info.title || 'API Documentation', contentWidth), 26);
+    pdf.setDrawColor(colors.accent);
+    pdf.setLineWidth(3);
+    pdf.line(margin, y + 6, margin + contentWidth, y + 6);
+    pdf.setLineWidth(1);
+    y += 24;
+    if (info.version) labelled('Version', info.version, 12);
+    if (info.description) markdown(info.description, { size: 11 });
+    newPage();
+
+    // 2. Executive Summary
+    heading('Executive Summary', 2);
+    paragraph(`This document outlines the technical specifications for the ${info.title || 'API'}.`);
+
+    // 3. Servers
+    if (spec.servers && spec.servers.length > 0) {
+        heading('Servers', 2);
+        table(['URL', 'Description'], spec.servers.map((srv: any) => [srv.url, markdownToPdfRuns(srv.description || '-')]), [0.5, 0.5]);
+    }
+
+    // 4. Global Security & Tags (grouped documents list the tags as chapters instead)
+    if (spec.security && spec.security.length > 0) {
+        heading('Global Security', 2);
+        spec.security.forEach((sec: any) => {
+            const key = Object.keys(sec)[0];
+            if (!key) return;
+            const scopes: string[] = sec[key] || [];
+            bullet(scopes.length ? `${key} (${scopes.join(', ')})` : key);
+        });
+    }
+    if (spec.tags && spec.tags.length > 0 && !options.groupByTag) {
+        heading('Tags', 2);
+        spec.tags.forEach((tag: any) => markdown(tag.description || '', { lead: [{ text: tag.name, bold: true }, { text: ': ' }], bullet: true, after: 2 }));
+    }
+
+    // 5. Authentication
+    const schemes = options.includeAuthentication ? getSecuritySchemes(spec) : [];
+    if (schemes.length > 0) {
+        heading('Authentication', 2);
+        const detailsTable = (source: any, fields: { key: string, label: string }[]) => table(['Property', 'Value'], fields
+            .filter(f => source[f.key] !== undefined && source[f.key] !== '')
+            .map(f => [f.label, String(source[f.key])]), [0.3, 0.7]);
+
+        schemes.forEach(([name, scheme]) => {
+            heading(name, 3);
+            if (scheme.description) markdown(scheme.description);
+            detailsTable(scheme, SECURITY_SCHEME_FIELDS);
+            Object.entries(scheme.flows || {}).forEach(([flowName, flow]: [string, any]) => {
+                heading(`Flow: ${flowName}`, 4);
+                detailsTable(flow || {}, OAUTH_FLOW_FIELDS);
+                table(['Scope', 'Description'], Object.entries(flow?.scopes || {}).map(([scope, desc]) => [scope, markdownToPdfRuns(String(desc || '-'))]), [0.3, 0.7]);
+            });
+        });
+    }
+
+    // 6. Endpoints
+    // A callback operation is a level 4 "name: METHOD expression" with level 5 subsections
+    const operation = (path: string, method: string, op: any, callback?: string) => {
+        const methodColor = method === 'get' ? '#2563eb' : method === 'post' ? '#16a34a' : method === 'delete' ? '#dc2626' : '#d97706';
+        const subLevel = callback ? 5 : 4;
+        heading(`${callback ? `${callback}: ` : ''}${method.toUpperCase()} ${path}`, callback ? 4 : 3, { color: methodColor });
+
+        const opMeta: string[] = [];
+        if (op.operationId) opMeta.push(`ID: ${op.operationId}`);
+        if (op.tags && op.tags.length) opMeta.push(`Tags: ${op.tags.join(', ')}`);
+        if (op.security) opMeta.push(`Security: ${op.security.map((s: any) => Object.keys(s)[0]).join(', ')}`);
+        if (opMeta.length) paragraph(opMeta.join('   '), 9, colors.muted, 6);
+
+        if (op.summary) labelled('Summary', op.summary);
+        if (op.description) markdown(op.description);
+
+        if (op.parameters && op.parameters.length > 0) {
+            heading('Parameters', subLevel);
+            table(['Name', 'In', 'Required', 'Type', 'Description'], op.parameters.map((rawParam: any) => {
+                const p = dereference(rawParam, spec);
+                const notes = getParameterNotes(p, spec).map(note => ({ text: ` [${note}]` }));
+                return [p.name, p.in, p.required ? 'Yes' : 'No', schemaTypeLabel(getParameterSchema(p), spec), [...markdownToPdfRuns(p.description || '-'), ...notes]];
+            }), [0.22, 0.1, 0.1, 0.13, 0.45]);
+        }
+
+        const requestBody = dereference(op.requestBody, spec);
+        if (requestBody && requestBody.content) {
+            heading('Request Body', subLevel);
+            if (requestBody.required) labelled('Required', 'Yes');
+            if (requestBody.description) markdown(requestBody.description, { color: colors.muted, after: 4 });
+            for (const [contentType, content] of Object.entries(requestBody.content as any)) {
+                mediaType(contentType, content);
+            }
+        }
+
+        if (op.responses) {
+            heading('Responses', subLevel);
+            for (const [code, res] of Object.entries(op.responses as any)) {
+                const r = dereference(res, spec) || {};
+                setFont(11, 'bold', code.startsWith('2') ? '#16a34a' : '#dc2626');
+                ensureSpace(3 * lineHeight(11));
+                pdf.text(`HTTP ${code}`, margin, y, { baseline: 'top' });
+                y += lineHeight(11);
+                if (r.description) markdown(r.description, { color: colors.muted, after: 4 });
+
+                if (r.headers && Object.keys(r.headers).length > 0) {
+                    paragraph('Response Headers', 10, colors.text, 2);
+                    table(['Header Name', 'Type', 'Description'], Object.entries(r.headers as any).map(([hName, hVal]) => {
+                        const h = dereference(hVal, spec) || {};
+                        return [hName, dereference(h.schema, spec)?.type || 'string', markdownToPdfRuns(h.description || '-')];
+                    }), [0.3, 0.15, 0.55]);
+                }
+
+                for (const [contentType, content] of Object.entries((r.content || {}) as any)) {
+                    mediaType(contentType, content);
+                }
+                y += 6;
+            }
+        }
+        const callbacks = callback ? [] : Object.entries(op.callbacks || {});
+        if (callbacks.length) {
+            heading('Callbacks', 4);
+            callbacks.forEach(([name, cb]) => getCallbackOperations(cb, spec)
+                .forEach(entry => operation(entry.expression, entry.method, entry.op, name)));
+        }
+    };
+
+    if (spec.paths && options.groupByTag) {
+        groupOperationsByTag(spec).forEach(({ group, chapters }) => {
+            if (group !== null) heading(group, 1);
+            chapters.forEach(chapter => {
+                heading(chapter.tag ?? 'Other', 2);
+                if (chapter.description) markdown(chapter.description);
+                chapter.operations.forEach(({ path, method, op }) => operation(path, method, op));
+            });
+        });
+    } else if (spec.paths) {
+        heading('Endpoints', 2);
+        for (const [path, pathItem] of Object.entries(spec.paths)) {
+            for (const { method, op } of getOperations(pathItem, spec)) {
+                operation(path, method, op);
+            }
+        }
+    }
+
+    const webhooks = Object.entries(spec.webhooks || {});
+    if (webhooks.length) {
+        heading('Webhooks', 2);
+        webhooks.forEach(([name, pathItem]) => getOperations(pathItem, spec).forEach(({ method, op }) => operation(name, method, op)));
+    }
+
+    // 7. Data Models
+    if (spec.components && spec.components.schemas && Object.keys(spec.components.schemas).length > 0) {
+        heading('Data Models', 2);
+        for (const [name, schema] of Object.entries(spec.components.schemas)) {
+            heading(name, 3);
+            const modelDescription = getModelDescription(schema, spec);
+            if (modelDescription) markdown(modelDescription);
+            schemaTable(schema);
+        }
+    }
+
+    // Table of contents, inserted after the title page once the page numbers are known
+    const tocLineHeight = 16;
+    const tocPerPage = Math.floor((pageHeight - 2 * margin - 40) / tocLineHeight);
+    const tocPages = Math.max(1, Math.ceil(tocEntries.length / tocPerPage));
+    for (let i = 0; i < tocPages; i++) pdf.insertPage(2);
+
+    tocEntries.forEach((entry, idx) => {
+        const tocPage = 2 + Math.floor(idx / tocPerPage);
+        const target = entry.page + tocPages;
+        pdf.setPage(tocPage);
+        if (idx % tocPerPage === 0) {
+            setFont(18, 'bold', colors.code);
+            pdf.text('Contents', margin, margin, { baseline: 'top' });
+        }
+        const lineY = margin + 40 + (idx % tocPerPage) * tocLineHeight;
+        const indent = (entry.level - 1) * 14;
+        setFont(entry.level <= 2 ? 10 : 9, entry.level <= 2 ? 'bold' : 'normal');
+        const pageLabel = String(target);
+        const titleWidth = contentWidth - indent - pdf.getTextWidth(pageLabel) - 10;
+        const [title] = pdf.splitTextToSize(entry.title, titleWidth) as string[];
+        pdf.text(title, margin + indent, lineY, { baseline: 'top' });
+        pdf.text(pageLabel, margin + contentWidth, lineY, { baseline: 'top', align: 'right' });
+        pdf.link(margin + indent, lineY - 2, contentWidth - indent, tocLineHeight, { pageNumber: target });
+    });
+
+    // Bookmarks: chapters (and tag groups) at the top, endpoints, schemes and models below them
+    const parents: any[] = [];
+    tocEntries.forEach(entry => {
+        const parent = parents.slice(0, entry.level - 1).reverse().find(Boolean) || null;
+        parents[entry.level - 1] = pdf.outline.add(parent, entry.title, { pageNumber: entry.page + tocPages });
+        parents.length = entry.level;
+    });
+
+    // Page X of Y on every page but the title page
+    const pageCount = pdf.getNumberOfPages();
+    for (let page = 2; page <= pageCount; page++) {
+        pdf.setPage(page);
+        setFont(8, 'normal', colors.muted);
+        pdf.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - margin / 2, { align: 'center' });
+    }
+
+    return pdf.output('blob');
+};
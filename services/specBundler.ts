@@ -0,0 +1,230 @@
+// MULTI-FILE SPEC BUNDLER
+// Merges a spec split across several YAML/JSON files (a dropped folder or a
+// zip) into one in-memory document. Only the uploaded files are read;
+// remote references are left untouched and never fetched.
+
+import yaml from 'js-yaml';
+import JSZip from 'jszip';
+import { encodePointerSegment, parsePointer, resolvePointer } from './jsonPointer';
+
+/** Relative file path -> raw file content */
+export type SpecFileMap = Record<string, string>;
+
+const ENTRY_FILE_NAMES = /^(openapi|swagger|api|index|main|root)\.(ya?ml|json)$/i;
+
+/**
+ * YAML/JSON files worth reading from an upload (skips macOS and dot-file noise)
+ */
+export const isSpecFile = (path: string): boolean => {
+  return /\.(ya?ml|json)$/i.test(path) && !/(^|\/)(__MACOSX\/|\.)/.test(path);
+};
+
+const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '' || part === '.') return;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const dirname = (path: string): string => path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+const resolveFilePath = (fromFile: string, relative: string): string => {
+  let target = relative;
+  try {
+    target = decodeURI(relative);
+  } catch (e) {
+    // Not URI-encoded, use as is
+  }
+  return normalizePath(target.startsWith('/') ? target : `${dirname(fromFile)}/${target}`);
+};
+
+/**
+ * Extracts every YAML/JSON file from a zip archive
+ */
+export const readSpecArchive = async (data: ArrayBuffer): Promise<SpecFileMap> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (e) {
+    throw new Error("Invalid file. Please provide a .zip archive.");
+  }
+
+  const files: SpecFileMap = {};
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || !isSpecFile(entry.name)) continue;
+    files[normalizePath(entry.name)] = await entry.async('string');
+  }
+
+  if (!Object.keys(files).length) throw new Error("The archive does not contain any YAML or JSON files.");
+  return files;
+};
+
+/**
+ * Picks the root document: a file with a top-level openapi/swagger field,
+ * preferring the shallowest one and conventional names such as openapi.yaml.
+ */
+const findEntryFile = (files: SpecFileMap, load: (path: string) => any): string => {
+  const candidates = Object.keys(files).filter(path => {
+    const doc = load(path);
+    return doc && typeof doc === 'object' && (doc.openapi || doc.swagger);
+  });
+  if (!candidates.length) {
+    throw new Error("No OpenAPI document found. The entry file needs a top-level 'openapi' or 'swagger' field.");
+  }
+
+  const rank = (path: string) => path.split('/').length * 2 - (ENTRY_FILE_NAMES.test(path.split('/').pop() || '') ? 1 : 0);
+  return candidates.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))[0];
+};
+
+/**
+ * Bundles the files into a single spec rooted at the entry document.
+ *
+ * - References into the entry document become local pointers.
+ * - Schemas from other files are hoisted into components.schemas (definitions
+ *   for Swagger 2.0), so recursive models stay references.
+ * - Other external objects (path items, parameters, responses...) are inlined,
+ *   unless the entry already exposes them as a component.
+ * - Circular references between inlined objects are reported as errors.
+ */
+export const bundleSpecFiles = (files: SpecFileMap, entry?: string): { entry: string, spec: any } => {
+  const docs = new Map<string, any>();
+  const load = (path: string): any => {
+    if (!(path in files)) return undefined;
+    if (!docs.has(path)) {
+      try {
+        docs.set(path, yaml.load(files[path]));
+      } catch (e) {
+        throw new Error(`Invalid YAML/JSON in ${path}: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    return docs.get(path);
+  };
+
+  const entryPath = entry ? normalizePath(entry) : findEntryFile(files, load);
+  const root = load(entryPath);
+  if (!root || typeof root !== 'object') throw new Error(`${entryPath} is not an OpenAPI document.`);
+
+  const schemaSection = root.swagger ? ['definitions'] : ['components', 'schemas'];
+  const toPointer = (segments: string[]) => `#/${segments.map(encodePointerSegment).join('/')}`;
+
+  // "file#pointer" -> local $ref of the object in the bundled document
+  const localRefs = new Map<string, string>();
+  const hoistedSchemas: Record<string, any> = {};
+  const usedNames = new Set<string>(Object.keys(resolvePointer(root, toPointer(schemaSection)) || {}));
+  const inlining: string[] = [];
+
+  const uniqueName = (base: string): string => {
+    const clean = base.replace(/[^A-Za-z0-9._-]/g, '_') || 'Schema';
+    let name = clean;
+    for (let i = 2; usedNames.has(name); i++) name = `${clean}${i}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  const locate = ($ref: string, fromFile: string) => {
+    const hashIndex = $ref.indexOf('#');
+    const filePart = hashIndex === -1 ? $ref : $ref.substring(0, hashIndex);
+    const pointer = hashIndex === -1 ? '#' : $ref.substring(hashIndex);
+    const file = filePart ? resolveFilePath(fromFile, filePart) : fromFile;
+    return { file, pointer, key: `${file}${pointer}` };
+  };
+
+  // Components the entry declares as aliases of external files keep their names
+  const aliases: { section: string[], name: string, $ref: string, file: string, pointer: string }[] = [];
+  const componentSections: string[][] = root.swagger
+    ? [['definitions'], ['parameters'], ['responses']]
+    : Object.keys(root.components || {}).map(section => ['components', section]);
+  componentSections.forEach(section => {
+    const entries = resolvePointer(root, toPointer(section));
+    if (!entries || typeof entries !== 'object') return;
+    Object.entries(entries).forEach(([name, value]: [string, any]) => {
+      if (typeof value?.$ref !== 'string' || value.$ref.startsWith('#') || /^[a-z][a-z0-9+.-]*:/i.test(value.$ref)) return;
+      const { file, pointer, key } = locate(value.$ref, entryPath);
+      if (localRefs.has(key)) return;
+      localRefs.set(key, toPointer([...section, name]));
+      aliases.push({ section, name, $ref: value.$ref, file, pointer });
+    });
+  });
+
+  const loadTarget = ($ref: string, file: string, pointer: string, fromFile: string) => {
+    const doc = load(file);
+    if (doc === undefined) throw new Error(`Cannot resolve "${$ref}" in ${fromFile}: ${file} is not part of the upload.`);
+    const target = parsePointer(pointer) ? resolvePointer(doc, pointer) : undefined;
+    if (target === undefined) throw new Error(`Cannot resolve "${$ref}" in ${fromFile}: ${pointer} does not exist in ${file}.`);
+    return target;
+  };
+
+  const inline = (key: string, build: () => any) => {
+    if (inlining.includes(key)) throw new Error(`Circular reference: ${[...inlining, key].join(' -> ')}`);
+    inlining.push(key);
+    try {
+      return build();
+    } finally {
+      inlining.pop();
+    }
+  };
+
+  const walk = (node: any, fromFile: string, inSchema: boolean): any => {
+    if (Array.isArray(node)) return node.map(item => walk(item, fromFile, inSchema));
+    if (!node || typeof node !== 'object') return node;
+
+    if (typeof node.$ref === 'string') {
+      const { $ref, ...rest } = node;
+      const siblings = walk(rest, fromFile, inSchema);
+
+      // Remote URLs stay as they are: bundling never goes to the network
+      if (/^[a-z][a-z0-9+.-]*:/i.test($ref)) return node;
+
+      const { file, pointer, key } = locate($ref, fromFile);
+      if (file === entryPath) return { $ref: pointer, ...siblings };
+      if (localRefs.has(key)) return { $ref: localRefs.get(key), ...siblings };
+
+      const target = loadTarget($ref, file, pointer, fromFile);
+      if (inSchema) {
+        const segments = parsePointer(pointer) || [];
+        const base = segments.length ? segments[segments.length - 1] : (file.split('/').pop() || '').replace(/\.(ya?ml|json)$/i, '');
+        const name = uniqueName(base);
+        // Registered before walking so recursive schemas point back at themselves
+        localRefs.set(key, toPointer([...schemaSection, name]));
+        hoistedSchemas[name] = walk(target, file, true);
+        return { $ref: localRefs.get(key), ...siblings };
+      }
+
+      const value = inline(key, () => walk(target, file, false));
+      return (value && typeof value === 'object' && !Array.isArray(value)) ? { ...value, ...siblings } : value;
+    }
+
+    const result: any = {};
+    Object.entries(node).forEach(([key, value]) => {
+      result[key] = walk(value, fromFile, inSchema || ['schema', 'schemas', 'definitions', '$defs'].includes(key));
+    });
+    return result;
+  };
+
+  const spec = walk(root, entryPath, false);
+
+  aliases.forEach(({ section, name, $ref, file, pointer }) => {
+    const container = resolvePointer(spec, toPointer(section));
+    const { $ref: placeholder, ...siblings } = container[name];
+    const target = loadTarget($ref, file, pointer, entryPath);
+    const isSchema = section[section.length - 1] === schemaSection[schemaSection.length - 1];
+    const value = isSchema
+      ? walk(target, file, true)
+      : inline(`${file}${pointer}`, () => walk(target, file, false));
+    container[name] = { ...value, ...siblings };
+  });
+
+  if (Object.keys(hoistedSchemas).length) {
+    let container = spec;
+    schemaSection.forEach(segment => {
+      if (!container[segment]) container[segment] = {};
+      container = container[segment];
+    });
+    Object.assign(container, hoistedSchemas);
+  }
+
+  return { entry: entryPath, spec };
+};
@@ -0,0 +1,407 @@
+// SPEC COMPARISON SERVICE
+// Diffs two versions of an OpenAPI spec into a change log and flags the
+// changes that break existing clients. Runs locally like the converters.
+
+import { Document, Packer, Paragraph, TextRun, Table, TableRow, TableCell, HeadingLevel, BorderStyle, WidthType, VerticalAlign } from 'docx';
+import { dereference } from './jsonPointer';
+import { escapeHtml, flattenSchema, FlatSchemaRow, getOperations, loadSpec } from './specModel';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface SpecChange {
+  kind: ChangeKind;
+  breaking: boolean;
+  location: string; // "GET /users", "Schema User", "Paths"
+  message: string;
+}
+
+export interface SpecDiff {
+  title: string;
+  oldVersion: string;
+  newVersion: string;
+  changes: SpecChange[];
+}
+
+// Who reads the schema decides what breaks: the server reads requests, clients read responses
+type SchemaDirection = 'request' | 'response' | 'model';
+
+const isUnder = (path: string, parent: string) => parent === '' ? path !== '' : (path.startsWith(parent + '.') || path.startsWith(parent + '['));
+
+const removedValues = (before?: any[], after?: any[]) => (before || []).filter(v => !(after || []).some(a => JSON.stringify(a) === JSON.stringify(v)));
+
+/**
+ * Compares two schemas field by field using the flattened JSON path rows
+ */
+const diffSchemaFields = (
+  oldSchema: any,
+  newSchema: any,
+  oldSpec: any,
+  newSpec: any,
+  direction: SchemaDirection,
+  location: string,
+  label: string,
+  changes: SpecChange[]
+) => {
+  const index = (schema: any, spec: any) => {
+    const rows = new Map<string, FlatSchemaRow>();
+    if (schema) flattenSchema(schema, spec).forEach(row => { if (!rows.has(row.path)) rows.set(row.path, row); });
+    return rows;
+  };
+  const before = index(oldSchema, oldSpec);
+  const after = index(newSchema, newSpec);
+  const field = (path: string) => `${label} field \`${path || '(root)'}\``;
+
+  // Fields nested under an added/removed field are covered by that entry
+  const removed: string[] = [];
+  before.forEach((oldRow, path) => {
+    const newRow = after.get(path);
+    if (!newRow) {
+      if (removed.some(p => isUnder(path, p))) return;
+      removed.push(path);
+      changes.push({ kind: 'removed', breaking: direction !== 'request', location, message: `${field(path)} removed` });
+      return;
+    }
+
+    if (oldRow.type !== newRow.type) {
+      changes.push({ kind: 'changed', breaking: true, location, message: `${field(path)} type changed from ${oldRow.type} to ${newRow.type}` });
+    } else if ((oldRow.format || '') !== (newRow.format || '')) {
+      changes.push({ kind: 'changed', breaking: true, location, message: `${field(path)} format changed from ${oldRow.format || 'none'} to ${newRow.format || 'none'}` });
+    }
+    if (!oldRow.required && newRow.required) {
+      changes.push({ kind: 'changed', breaking: direction !== 'response', location, message: `${field(path)} is now required` });
+    } else if (oldRow.required && !newRow.required) {
+      changes.push({ kind: 'changed', breaking: direction !== 'request', location, message: `${field(path)} is no longer required` });
+    }
+    const lostValues = removedValues(oldRow.enum, newRow.enum);
+    if (newRow.enum && lostValues.length) {
+      changes.push({ kind: 'changed', breaking: true, location, message: `${field(path)} no longer allows ${lostValues.join(', ')}` });
+    }
+    const newValues = oldRow.enum ? removedValues(newRow.enum, oldRow.enum) : [];
+    if (newValues.length) {
+      changes.push({ kind: 'changed', breaking: false, location, message: `${field(path)} now also allows ${newValues.join(', ')}` });
+    }
+  });
+
+  const added: string[] = [];
+  after.forEach((newRow, path) => {
+    if (before.has(path) || added.some(p => isUnder(path, p))) return;
+    added.push(path);
+    changes.push({
+      kind: 'added',
+      breaking: direction !== 'response' && newRow.required,
+      location,
+      message: `${field(path)} added${newRow.required ? ' (required)' : ''}`
+    });
+  });
+};
+
+/**
+ * Media type schemas that are the same top-level $ref are compared once, under Data Models
+ */
+const diffContent = (
+  oldContent: any,
+  newContent: any,
+  oldSpec: any,
+  newSpec: any,
+  direction: SchemaDirection,
+  location: string,
+  label: string,
+  changes: SpecChange[]
+) => {
+  Object.entries(oldContent || {}).forEach(([contentType, oldMedia]: [string, any]) => {
+    const newMedia = newContent?.[contentType];
+    if (!newMedia) {
+      changes.push({ kind: 'removed', breaking: true, location, message: `${label} media type ${contentType} removed` });
+      return;
+    }
+    const oldRef = oldMedia?.schema?.$ref;
+    if (oldRef && oldRef === newMedia?.schema?.$ref) return;
+    diffSchemaFields(oldMedia?.schema, newMedia?.schema, oldSpec, newSpec, direction, location, `${label} (${contentType})`, changes);
+  });
+  Object.keys(newContent || {}).forEach(contentType => {
+    if (!oldContent?.[contentType]) changes.push({ kind: 'added', breaking: false, location, message: `${label} media type ${contentType} added` });
+  });
+};
+
+const diffParameters = (oldParams: any[], newParams: any[], oldSpec: any, newSpec: any, location: string, changes: SpecChange[]) => {
+  const index = (params: any[], spec: any) => {
+    const map = new Map<string, any>();
+    params.map(p => dereference(p, spec)).filter(p => p && p.name).forEach(p => map.set(`${p.in} parameter \`${p.name}\``, p));
+    return map;
+  };
+  const before = index(oldParams, oldSpec);
+  const after = index(newParams, newSpec);
+
+  before.forEach((oldParam, key) => {
+    const newParam = after.get(key);
+    const label = key.charAt(0).toUpperCase() + key.slice(1);
+    if (!newParam) {
+      changes.push({ kind: 'removed', breaking: true, location, message: `${label} removed` });
+      return;
+    }
+    if (!oldParam.required && newParam.required) {
+      changes.push({ kind: 'changed', breaking: true, location, message: `${label} is now required` });
+    } else if (oldParam.required && !newParam.required) {
+      changes.push({ kind: 'changed', breaking: false, location, message: `${label} is no longer required` });
+    }
+    const oldSchema = dereference(oldParam.schema, oldSpec) || {};
+    const newSchema = dereference(newParam.schema, newSpec) || {};
+    if (JSON.stringify(oldSchema.type) !== JSON.stringify(newSchema.type)) {
+      changes.push({ kind: 'changed', breaking: true, location, message: `${label} type changed from ${oldSchema.type || 'string'} to ${newSchema.type || 'string'}` });
+    }
+    const lostValues = removedValues(oldSchema.enum, newSchema.enum);
+    if (newSchema.enum && lostValues.length) {
+      changes.push({ kind: 'changed', breaking: true, location, message: `${label} no longer allows ${lostValues.join(', ')}` });
+    }
+  });
+
+  after.forEach((newParam, key) => {
+    if (before.has(key)) return;
+    const label = key.charAt(0).toUpperCase() + key.slice(1);
+    changes.push({ kind: 'added', breaking: !!newParam.required, location, message: `${label} added${newParam.required ? ' (required)' : ''}` });
+  });
+};
+
+const diffOperation = (oldOp: any, newOp: any, oldSpec: any, newSpec: any, location: string, changes: SpecChange[]) => {
+  if (!oldOp.deprecated && newOp.deprecated) changes.push({ kind: 'changed', breaking: false, location, message: 'Operation marked as deprecated' });
+
+  diffParameters(oldOp.parameters || [], newOp.parameters || [], oldSpec, newSpec, location, changes);
+
+  // Request body
+  const oldBody = dereference(oldOp.requestBody, oldSpec);
+  const newBody = dereference(newOp.requestBody, newSpec);
+  if (!oldBody && newBody) {
+    changes.push({ kind: 'added', breaking: !!newBody.required, location, message: `Request body added${newBody.required ? ' (required)' : ''}` });
+  } else if (oldBody && !newBody) {
+    changes.push({ kind: 'removed', breaking: false, location, message: 'Request body removed' });
+  } else if (oldBody && newBody) {
+    if (!oldBody.required && newBody.required) changes.push({ kind: 'changed', breaking: true, location, message: 'Request body is now required' });
+    diffContent(oldBody.content, newBody.content, oldSpec, newSpec, 'request', location, 'Request body', changes);
+  }
+
+  // Responses
+  const oldResponses = oldOp.responses || {};
+  const newResponses = newOp.responses || {};
+  Object.keys(oldResponses).forEach(code => {
+    if (!newResponses[code]) {
+      changes.push({ kind: 'removed', breaking: true, location, message: `Response ${code} removed` });
+      return;
+    }
+    const oldRes = dereference(oldResponses[code], oldSpec) || {};
+    const newRes = dereference(newResponses[code], newSpec) || {};
+    diffContent(oldRes.content, newRes.content, oldSpec, newSpec, 'response', location, `Response ${code}`, changes);
+  });
+  Object.keys(newResponses).forEach(code => {
+    if (!oldResponses[code]) changes.push({ kind: 'added', breaking: false, location, message: `Response ${code} added` });
+  });
+};
+
+/**
+ * Computes the change log between an old and a new spec (YAML or JSON, Swagger 2.0 is upgraded first)
+ */
+export const compareSpecs = (oldContent: string, newContent: string): SpecDiff => {
+  const oldSpec = loadSpec(oldContent);
+  const newSpec = loadSpec(newContent);
+  const changes: SpecChange[] = [];
+
+  // Paths & operations
+  const oldPaths = oldSpec.paths || {};
+  const newPaths = newSpec.paths || {};
+  Object.keys(oldPaths).forEach(path => {
+    if (!newPaths[path]) {
+      changes.push({ kind: 'removed', breaking: true, location: 'Paths', message: `Path \`${path}\` removed` });
+      return;
+    }
+    const newOps = new Map(getOperations(newPaths[path], newSpec).map(o => [o.method, o.op]));
+    const oldOps = getOperations(oldPaths[path], oldSpec);
+    oldOps.forEach(({ method, op }) => {
+      const location = `${method.toUpperCase()} ${path}`;
+      const newOp = newOps.get(method);
+      if (!newOp) changes.push({ kind: 'removed', breaking: true, location, message: 'Operation removed' });
+      else diffOperation(op, newOp, oldSpec, newSpec, location, changes);
+    });
+    newOps.forEach((_, method) => {
+      if (!oldOps.some(o => o.method === method)) changes.push({ kind: 'added', breaking: false, location: `${method.toUpperCase()} ${path}`, message: 'Operation added' });
+    });
+  });
+  Object.keys(newPaths).forEach(path => {
+    if (!oldPaths[path]) changes.push({ kind: 'added', breaking: false, location: 'Paths', message: `Path \`${path}\` added` });
+  });
+
+  // Data models
+  const oldSchemas = oldSpec.components?.schemas || {};
+  const newSchemas = newSpec.components?.schemas || {};
+  Object.keys(oldSchemas).forEach(name => {
+    const location = `Schema ${name}`;
+    if (!newSchemas[name]) changes.push({ kind: 'removed', breaking: true, location, message: 'Schema removed' });
+    else diffSchemaFields(oldSchemas[name], newSchemas[name], oldSpec, newSpec, 'model', location, 'Schema', changes);
+  });
+  Object.keys(newSchemas).forEach(name => {
+    if (!oldSchemas[name]) changes.push({ kind: 'added', breaking: false, location: `Schema ${name}`, message: 'Schema added' });
+  });
+
+  return {
+    title: newSpec.info?.title || oldSpec.info?.title || 'API',
+    oldVersion: oldSpec.info?.version || '?',
+    newVersion: newSpec.info?.version || '?',
+    changes
+  };
+};
+
+const groupByLocation = (changes: SpecChange[]): [string, SpecChange[]][] => {
+  const groups = new Map<string, SpecChange[]>();
+  changes.forEach(change => {
+    if (!groups.has(change.location)) groups.set(change.location, []);
+    groups.get(change.location)!.push(change);
+  });
+  return Array.from(groups.entries());
+};
+
+const countByKind = (diff: SpecDiff) => ({
+  breaking: diff.changes.filter(c => c.breaking).length,
+  added: diff.changes.filter(c => c.kind === 'added').length,
+  removed: diff.changes.filter(c => c.kind === 'removed').length,
+  changed: diff.changes.filter(c => c.kind === 'changed').length,
+});
+
+// `code` spans in messages become <code> in HTML and stay plain in Word
+const formatMessageHTML = (message: string) => escapeHtml(message).replace(/`([^`]*)`/g, '<code>$1</code>');
+const formatMessageText = (message: string) => message.replace(/`([^`]*)`/g, '$1');
+
+/**
+ * Renders the change log as a standalone HTML document (also used for the preview)
+ */
+export const renderChangelogHTML = (diff: SpecDiff): string => {
+  const counts = countByKind(diff);
+  const kindColor: Record<ChangeKind, string> = { added: '#16a34a', removed: '#dc2626', changed: '#d97706' };
+  const thStyle = "background-color: #f1f5f9; padding: 0.75rem; text-align: left; border: 1px solid #cbd5e1; font-weight: 700; color: #334155;";
+  const tdStyle = "padding: 0.75rem; border: 1px solid #cbd5e1; color: #334155; vertical-align: top;";
+  const h2Style = "font-size: 1.75rem; font-weight: 700; margin-top: 2.5rem; margin-bottom: 1.5rem; border-bottom: 2px solid #e2e8f0; padding-bottom: 0.5rem;";
+
+  const changeRows = (changes: SpecChange[], withLocation: boolean) => changes.map(c => `<tr class="change-row" data-kind="${c.kind}" data-breaking="${c.breaking}">
+      ${withLocation ? `<td style="${tdStyle} font-family: monospace;">${escapeHtml(c.location)}</td>` : ''}
+      <td style="${tdStyle} color: ${kindColor[c.kind]}; font-weight: 600; text-transform: capitalize;">${c.kind}</td>
+      <td style="${tdStyle}">${formatMessageHTML(c.message)}</td>
+      <td style="${tdStyle}">${c.breaking ? '<span style="background:#fee2e2; color:#b91c1c; padding:2px 8px; border-radius:12px; font-size:0.75rem; font-weight:700;">BREAKING</span>' : '-'}</td>
+    </tr>`).join('');
+
+  let html = `<!DOCTYPE html>
+  <html>
+  <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(diff.title)} Change Log</title>
+      <style>
+          body { font-family: 'Inter', 'Calibri', sans-serif; line-height: 1.6; color: #1e293b; max-width: 800px; margin: 0 auto; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          code { font-family: monospace; background: #f1f5f9; padding: 2px 4px; border-radius: 4px; }
+      </style>
+  </head>
+  <body>
+  <div class="doc-content changelog">`;
+
+  html += `<h1 class="doc-title" style="font-size: 2.25rem; font-weight: 800; margin-bottom: 0.5rem; border-bottom: 4px solid #3b82f6; padding-bottom: 1rem;">${escapeHtml(diff.title)} Change Log</h1>`;
+  html += `<p class="doc-version" style="margin-bottom: 2rem; color: #64748b;"><strong>Version:</strong> ${escapeHtml(diff.oldVersion)} &rarr; ${escapeHtml(diff.newVersion)}</p>`;
+
+  html += `<h2 style="${h2Style}">Summary</h2>`;
+  html += `<table class="changelog-summary" style="margin-bottom: 1.5rem; border: 1px solid #cbd5e1;"><thead><tr>
+      <th style="${thStyle}">Breaking</th><th style="${thStyle}">Added</th><th style="${thStyle}">Removed</th><th style="${thStyle}">Changed</th>
+    </tr></thead><tbody><tr>
+      <td style="${tdStyle} font-weight: 700; color: ${counts.breaking ? '#b91c1c' : '#334155'};">${counts.breaking}</td><td style="${tdStyle}">${counts.added}</td><td style="${tdStyle}">${counts.removed}</td><td style="${tdStyle}">${counts.changed}</td>
+    </tr></tbody></table>`;
+
+  if (diff.changes.length === 0) {
+    html += `<p>No differences found between the two versions.</p>`;
+  } else {
+    const breaking = diff.changes.filter(c => c.breaking);
+    if (breaking.length) {
+      html += `<h2 style="${h2Style}">Breaking Changes</h2>`;
+      html += `<table class="changelog-breaking" style="margin-bottom: 1.5rem; border: 1px solid #cbd5e1; font-size: 0.875rem;"><thead><tr>
+          <th style="${thStyle} width: 25%;">Location</th><th style="${thStyle} width: 12%;">Change</th><th style="${thStyle}">Details</th><th style="${thStyle} width: 12%;">Impact</th>
+        </tr></thead><tbody>${changeRows(breaking, true)}</tbody></table>`;
+    }
+
+    html += `<h2 style="${h2Style}">All Changes</h2>`;
+    groupByLocation(diff.changes).forEach(([location, changes]) => {
+      html += `<h3 style="font-size: 1.2rem; font-weight: 700; margin-top: 1.5rem; font-family: monospace;">${escapeHtml(location)}</h3>`;
+      html += `<table class="changelog-group" style="margin-bottom: 1rem; border: 1px solid #cbd5e1; font-size: 0.875rem;"><thead><tr>
+          <th style="${thStyle} width: 12%;">Change</th><th style="${thStyle}">Details</th><th style="${thStyle} width: 12%;">Impact</th>
+        </tr></thead><tbody>${changeRows(changes, false)}</tbody></table>`;
+    });
+  }
+
+  html += `</div></body></html>`;
+  return html;
+};
+
+/**
+ * Renders the change log as a DOCX Blob
+ */
+export const generateChangelogDocxBlob = async (diff: SpecDiff): Promise<Blob> => {
+  const counts = countByKind(diff);
+  const children: any[] = [];
+
+  const borderStyle = { style: BorderStyle.SINGLE, size: 1, color: "cbd5e1" };
+  const tableBorders = { top: borderStyle, bottom: borderStyle, left: borderStyle, right: borderStyle, insideVertical: borderStyle, insideHorizontal: borderStyle };
+  const cellMargins = { top: 100, bottom: 100, left: 100, right: 100 };
+
+  const createHeaderCell = (text: string) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, bold: true })] })],
+    shading: { fill: "f1f5f9" },
+    verticalAlign: VerticalAlign.CENTER,
+    margins: cellMargins
+  });
+  const createCell = (text: string, color?: string) => new TableCell({
+    children: [new Paragraph({ children: [new TextRun({ text, color, bold: !!color })] })],
+    verticalAlign: VerticalAlign.TOP,
+    margins: cellMargins
+  });
+  const kindColor: Record<ChangeKind, string> = { added: "16a34a", removed: "dc2626", changed: "d97706" };
+
+  const createChangeTable = (changes: SpecChange[], withLocation: boolean) => new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: tableBorders,
+    rows: [
+      new TableRow({ children: [...(withLocation ? [createHeaderCell("Location")] : []), createHeaderCell("Change"), createHeaderCell("Details"), createHeaderCell("Impact")] }),
+      ...changes.map(c => new TableRow({
+        children: [
+          ...(withLocation ? [createCell(c.location)] : []),
+          createCell(c.kind.charAt(0).toUpperCase() + c.kind.slice(1), kindColor[c.kind]),
+          createCell(formatMessageText(c.message)),
+          c.breaking ? createCell("BREAKING", "b91c1c") : createCell("-")
+        ]
+      }))
+    ]
+  });
+
+  children.push(new Paragraph({ text: `${diff.title} Change Log`, heading: HeadingLevel.HEADING_1, spacing: { after: 200 } }));
+  children.push(new Paragraph({ children: [new TextRun({ text: "Version: ", bold: true }), new TextRun(`${diff.oldVersion} → ${diff.newVersion}`)], spacing: { after: 200 } }));
+
+  children.push(new Paragraph({ text: "Summary", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+  children.push(new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: tableBorders,
+    rows: [
+      new TableRow({ children: [createHeaderCell("Breaking"), createHeaderCell("Added"), createHeaderCell("Removed"), createHeaderCell("Changed")] }),
+      new TableRow({ children: [createCell(String(counts.breaking), counts.breaking ? "b91c1c" : undefined), createCell(String(counts.added)), createCell(String(counts.removed)), createCell(String(counts.changed))] })
+    ]
+  }));
+
+  if (diff.changes.length === 0) {
+    children.push(new Paragraph({ text: "No differences found between the two versions.", spacing: { before: 200 } }));
+  } else {
+    const breaking = diff.changes.filter(c => c.breaking);
+    if (breaking.length) {
+      children.push(new Paragraph({ text: "Breaking Changes", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+      children.push(createChangeTable(breaking, true));
+    }
+
+    children.push(new Paragraph({ text: "All Changes", heading: HeadingLevel.HEADING_2, spacing: { before: 400, after: 200 } }));
+    groupByLocation(diff.changes).forEach(([location, changes]) => {
+      children.push(new Paragraph({ text: location, heading: HeadingLevel.HEADING_3, spacing: { before: 200, after: 100 } }));
+      children.push(createChangeTable(changes, false));
+    });
+  }
+
+  const doc = new Document({ sections: [{ children }] });
+  return await Packer.toBlob(doc);
+};
@@ -0,0 +1,397 @@
+// SPEC LINTING SERVICE
+// Checks a parsed OpenAPI spec against a set of documentation rules before it
+// is rendered: missing or duplicate operationIds, undocumented responses,
+// unused components... Every issue carries a JSON pointer into the spec and
+// the input line it was found on.
+
+import { FidelitySeverity } from '../types';
+import { dereference, encodePointerSegment, resolvePointer } from './jsonPointer';
+import { getOperations, loadSpec } from './specModel';
+
+export interface LintIssue {
+  rule: string;
+  severity: FidelitySeverity;
+  pointer: string; // e.g. /paths/~1users~1{id}/get/responses
+  line: number; // 1-based line of the input the pointer was located on
+  message: string;
+}
+
+// Rule id -> severity, or 'off' to disable the rule; unlisted rules keep their default
+export type LintConfig = Record<string, FidelitySeverity | 'off'>;
+
+type Report = (pointer: string, message: string) => void;
+
+interface OperationEntry {
+  path: string;
+  method: string;
+  op: any; // Parameters include the path-level ones
+  pointer: string;
+}
+
+interface LintContext {
+  spec: any;
+  operations: OperationEntry[];
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  severity: FidelitySeverity;
+  check: (context: LintContext, report: Report) => void;
+}
+
+const LINT_CONFIG_STORAGE_KEY = 'specweaver.lintRules';
+
+const COMPONENT_TYPES = ['schemas', 'responses', 'parameters', 'examples', 'requestBodies', 'headers', 'links', 'callbacks', 'pathItems'];
+
+const toPointer = (...segments: (string | number)[]) => segments.map(s => '/' + encodePointerSegment(String(s))).join('');
+
+const describeOperation = ({ method, path }: OperationEntry) => `${method.toUpperCase()} ${path}`;
+
+/**
+ * Calls `visit` for every $ref in the spec with the pointer of the object holding it
+ */
+const forEachRef = (node: any, pointer: string, visit: (ref: string, pointer: string) => void) => {
+  if (!node || typeof node !== 'object') return;
+  if (typeof node.$ref === 'string') visit(node.$ref, pointer);
+  Object.keys(node).forEach(key => forEachRef(node[key], pointer + toPointer(key), visit));
+};
+
+const securityRequirements = ({ spec, operations }: LintContext): { pointer: string, name: string }[] => {
+  const requirements: { pointer: string, name: string }[] = [];
+  const collect = (security: any, pointer: string) => {
+    if (!Array.isArray(security)) return;
+    security.forEach((requirement, i) => Object.keys(requirement || {}).forEach(name => requirements.push({ pointer: pointer + toPointer(i, name), name })));
+  };
+  collect(spec.security, '/security');
+  operations.forEach(({ op, pointer }) => collect(op.security, pointer + '/security'));
+  return requirements;
+};
+
+/**
+ * Parameters of an operation (path-level ones included) with the pointer they are written at
+ */
+const declaredParameters = ({ spec }: LintContext, entry: OperationEntry): { param: any, pointer: string }[] => {
+  const pathItem = dereference(spec.paths[entry.path], spec) || {};
+  const own = (pathItem[entry.method]?.parameters || []).map((param: any, i: number) => ({ param, pointer: `${entry.pointer}/parameters/${i}` }));
+  const shared = (pathItem.parameters || []).map((param: any, i: number) => ({ param, pointer: `${toPointer('paths', entry.path)}/parameters/${i}` }));
+  return [...own, ...shared].map(({ param, pointer }) => ({ param: param?.$ref ? resolvePointer(spec, param.$ref) || param : param, pointer }));
+};
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'info-description',
+    description: 'The API has a description',
+    severity: 'info',
+    check: ({ spec }, report) => {
+      if (!spec.info?.description) report('/info', 'The API has no description');
+    },
+  },
+  {
+    id: 'operation-operationId',
+    description: 'Every operation has an operationId',
+    severity: 'warning',
+    check: ({ operations }, report) => {
+      operations.forEach(entry => {
+        if (!entry.op.operationId) report(entry.pointer, `${describeOperation(entry)} has no operationId`);
+      });
+    },
+  },
+  {
+    id: 'operation-operationId-unique',
+    description: 'operationIds are unique',
+    severity: 'error',
+    check: ({ operations }, report) => {
+      const seen = new Map<string, OperationEntry>();
+      operations.forEach(entry => {
+        const id = entry.op.operationId;
+        if (!id) return;
+        const first = seen.get(id);
+        if (first) report(`${entry.pointer}/operationId`, `operationId "${id}" is also used by ${describeOperation(first)}`);
+        else seen.set(id, entry);
+      });
+    },
+  },
+  {
+    id: 'operation-description',
+    description: 'Every operation has a summary or a description',
+    severity: 'warning',
+    check: ({ operations }, report) => {
+      operations.forEach(entry => {
+        if (!entry.op.summary && !entry.op.description) report(entry.pointer, `${describeOperation(entry)} has neither a summary nor a description`);
+      });
+    },
+  },
+  {
+    id: 'operation-responses',
+    description: 'Every operation documents its responses',
+    severity: 'error',
+    check: ({ operations }, report) => {
+      operations.forEach(entry => {
+        if (!entry.op.responses || !Object.keys(entry.op.responses).length) report(entry.pointer, `${describeOperation(entry)} documents no responses`);
+      });
+    },
+  },
+  {
+    id: 'operation-success-response',
+    description: 'Every operation documents a 2xx, 3xx or default response',
+    severity: 'warning',
+    check: ({ operations }, report) => {
+      operations.forEach(entry => {
+        const codes = Object.keys(entry.op.responses || {});
+        if (codes.length && !codes.some(code => /^[23]/.test(code) || code === 'default')) {
+          report(`${entry.pointer}/responses`, `${describeOperation(entry)} documents no success response`);
+        }
+      });
+    },
+  },
+  {
+    id: 'response-description',
+    description: 'Every response has a description',
+    severity: 'warning',
+    check: ({ spec, operations }, report) => {
+      operations.forEach(entry => {
+        Object.entries(entry.op.responses || {}).forEach(([code, response]: [string, any]) => {
+          const resolved = response?.$ref ? resolvePointer(spec, response.$ref) : response;
+          if (resolved && !resolved.description) report(`${entry.pointer}/responses/${encodePointerSegment(code)}`, `Response ${code} of ${describeOperation(entry)} has no description`);
+        });
+      });
+    },
+  },
+  {
+    id: 'parameter-description',
+    description: 'Every parameter has a description',
+    severity: 'info',
+    check: (context, report) => {
+      const reported = new Set<string>();
+      context.operations.forEach(entry => {
+        declaredParameters(context, entry).forEach(({ param, pointer }) => {
+          if (!param || param.description || reported.has(pointer)) return;
+          reported.add(pointer);
+          report(pointer, `Parameter "${param.name}" of ${describeOperation(entry)} has no description`);
+        });
+      });
+    },
+  },
+  {
+    id: 'schema-description',
+    description: 'Every component schema has a description',
+    severity: 'info',
+    check: ({ spec }, report) => {
+      Object.entries(spec.components?.schemas || {}).forEach(([name, schema]: [string, any]) => {
+        if (schema && !schema.$ref && !schema.description) report(toPointer('components', 'schemas', name), `Schema ${name} has no description`);
+      });
+    },
+  },
+  {
+    id: 'path-params',
+    description: 'Path templates and path parameters match',
+    severity: 'error',
+    check: (context, report) => {
+      context.operations.forEach(entry => {
+        const declared = declaredParameters(context, entry).filter(({ param }) => param?.in === 'path');
+        const templated = Array.from(entry.path.matchAll(/\{([^}]+)\}/g), match => match[1]);
+        templated.forEach(name => {
+          if (!declared.some(({ param }) => param.name === name)) report(entry.pointer, `{${name}} of ${describeOperation(entry)} is not declared as a path parameter`);
+        });
+        declared.forEach(({ param, pointer }) => {
+          if (!templated.includes(param.name)) report(pointer, `Path parameter "${param.name}" does not appear in ${entry.path}`);
+          else if (param.required !== true) report(pointer, `Path parameter "${param.name}" must be required`);
+        });
+      });
+    },
+  },
+  {
+    id: 'operation-tags-defined',
+    description: 'Operation tags are declared in the top-level tags',
+    severity: 'warning',
+    check: ({ spec, operations }, report) => {
+      if (!Array.isArray(spec.tags)) return;
+      const names = new Set(spec.tags.map((tag: any) => tag?.name));
+      operations.forEach(entry => {
+        (entry.op.tags || []).forEach((tag: string, i: number) => {
+          if (!names.has(tag)) report(`${entry.pointer}/tags/${i}`, `Tag "${tag}" of ${describeOperation(entry)} is not declared`);
+        });
+      });
+    },
+  },
+  {
+    id: 'security-schemes-defined',
+    description: 'Security requirements name declared security schemes',
+    severity: 'error',
+    check: (context, report) => {
+      const schemes = context.spec.components?.securitySchemes || {};
+      securityRequirements(context).forEach(({ pointer, name }) => {
+        if (!schemes[name]) report(pointer, `Security scheme "${name}" is not declared`);
+      });
+    },
+  },
+  {
+    id: 'no-unresolved-refs',
+    description: 'Local $ref values point at an existing value',
+    severity: 'error',
+    check: ({ spec }, report) => {
+      forEachRef(spec, '', (ref, pointer) => {
+        if (ref.startsWith('#') && resolvePointer(spec, ref) === undefined) report(`${pointer}/$ref`, `${ref} does not resolve`);
+      });
+    },
+  },
+  {
+    id: 'no-unused-components',
+    description: 'Every component is referenced',
+    severity: 'warning',
+    check: (context, report) => {
+      const { spec } = context;
+      const refs: { ref: string, pointer: string }[] = [];
+      forEachRef(spec, '', (ref, pointer) => refs.push({ ref, pointer }));
+      COMPONENT_TYPES.forEach(type => {
+        Object.keys(spec.components?.[type] || {}).forEach(name => {
+          const pointer = toPointer('components', type, name);
+          // References from inside the component itself (recursive schemas) do not count
+          const used = refs.some(r => (r.ref === '#' + pointer || r.ref.startsWith(`#${pointer}/`)) && r.pointer !== pointer && !r.pointer.startsWith(pointer + '/'));
+          if (!used) report(pointer, `Component ${type}/${name} is never referenced`);
+        });
+      });
+      const usedSchemes = new Set(securityRequirements(context).map(r => r.name));
+      Object.keys(spec.components?.securitySchemes || {}).forEach(name => {
+        if (!usedSchemes.has(name)) report(toPointer('components', 'securitySchemes', name), `Security scheme ${name} is never used`);
+      });
+    },
+  },
+];
+
+interface SourceLine {
+  indent: number;
+  column: number; // Where the key or value starts, after a "- " item marker
+  item: boolean;
+  key?: string;
+}
+
+const SOURCE_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s'"#{}[\],][^#]*?)\s*:(?=\s|$)/;
+
+const readKey = (raw: string): string => {
+  if (raw.startsWith('"')) {
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      return raw.slice(1, -1);
+    }
+  }
+  return raw.startsWith("'") ? raw.slice(1, -1).replace(/''/g, "'") : raw;
+};
+
+/**
+ * Reads the structure of one YAML or pretty-printed JSON line; null for lines
+ * without content (blank, comments, document markers)
+ */
+const readSourceLine = (line: string): SourceLine | null => {
+  const text = line.trimEnd();
+  const indent = text.length - text.trimStart().length;
+  let rest = text.slice(indent);
+  if (!rest || rest.startsWith('#') || /^(---|\.\.\.)(\s|$)/.test(rest)) return null;
+  const marker = rest.match(/^-(\s+|$)/);
+  if (marker) rest = rest.slice(marker[0].length);
+  const key = rest.match(SOURCE_KEY);
+  return { indent, column: text.length - rest.length, item: !!marker, key: key ? readKey(key[1]) : undefined };
+};
+
+const isClosing = (line: SourceLine, text: string) => !line.key && /^[\]}]/.test(text.trim());
+
+/**
+ * Finds the line a JSON pointer refers to in YAML or pretty-printed JSON
+ * source. Follows the pointer as far as the text layout allows and returns
+ * the deepest line found (1-based), or 1 when nothing matched.
+ */
+export const findPointerLine = (content: string, pointer: string): number => {
+  const texts = content.split(/\r?\n/);
+  const lines = texts.map(readSourceLine);
+  const segments = pointer ? pointer.substring(1).split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~')) : [];
+
+  // Children of the current node lie in [from, to)
+  let from = 0;
+  let to = lines.length;
+  let found = -1;
+  const childLines = () => {
+    const indices: number[] = [];
+    for (let i = from; i < to; i++) if (lines[i] && !isClosing(lines[i]!, texts[i])) indices.push(i);
+    return indices;
+  };
+  const endOfBlock = (start: number, column: number) => {
+    let end = start + 1;
+    while (end < lines.length && (!lines[end] || lines[end]!.indent > column || (lines[end]!.indent === column && lines[end]!.item))) end++;
+    return end;
+  };
+
+  for (const segment of segments) {
+    const children = childLines();
+    if (!children.length) break;
+
+    const keyed = children.filter(i => lines[i]!.key !== undefined);
+    const keyColumn = Math.min(...keyed.map(i => lines[i]!.column));
+    const keyLine = keyed.find(i => lines[i]!.column === keyColumn && lines[i]!.key === segment);
+    if (keyLine !== undefined) {
+      found = keyLine;
+      from = keyLine + 1;
+      to = endOfBlock(keyLine, keyColumn);
+      continue;
+    }
+
+    if (!/^\d+$/.test(segment)) break;
+    const indent = Math.min(...children.map(i => lines[i]!.indent));
+    const atIndent = children.filter(i => lines[i]!.indent === indent);
+    const items = atIndent.some(i => lines[i]!.item) ? atIndent.filter(i => lines[i]!.item) : atIndent;
+    const element = items[Number(segment)];
+    if (element === undefined) break;
+    found = element;
+    from = element;
+    to = element + 1;
+    while (to < lines.length && (!lines[to] || lines[to]!.indent > indent)) to++;
+  }
+
+  return found + 1 || 1;
+};
+
+/**
+ * Lints a spec (YAML or JSON). Swagger 2.0 input is upgraded first, so its
+ * pointers follow the OpenAPI 3 layout and map to the nearest input line.
+ */
+export const lintSpec = (content: string, config: LintConfig = {}): LintIssue[] => {
+  const spec = loadSpec(content);
+  if (!spec || typeof spec !== 'object') throw new Error("Invalid format. Please provide valid JSON or YAML.");
+
+  const operations: OperationEntry[] = [];
+  Object.entries(spec.paths || {}).forEach(([path, pathItem]) => {
+    getOperations(pathItem, spec).forEach(({ method, op }) => operations.push({ path, method, op, pointer: toPointer('paths', path, method) }));
+  });
+  const context: LintContext = { spec: { ...spec, paths: spec.paths || {} }, operations };
+
+  const issues: LintIssue[] = [];
+  LINT_RULES.forEach(rule => {
+    const severity = config[rule.id] || rule.severity;
+    if (severity === 'off') return;
+    // Path-level parameters are checked once per operation of the path
+    const reported = new Set<string>();
+    rule.check(context, (pointer, message) => {
+      if (reported.has(pointer + message)) return;
+      reported.add(pointer + message);
+      issues.push({ rule: rule.id, severity, pointer, line: findPointerLine(content, pointer), message });
+    });
+  });
+  return issues.sort((a, b) => a.line - b.line);
+};
+
+export const loadLintConfig = (): LintConfig => {
+  try {
+    return JSON.parse(localStorage.getItem(LINT_CONFIG_STORAGE_KEY) || '{}') || {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveLintConfig = (config: LintConfig) => {
+  try {
+    localStorage.setItem(LINT_CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Error saving lint rules:", e);
+  }
+};
@@ -0,0 +1,985 @@
+// SPEC MODEL
+// Loading, operation lookup, schema flattening, example generation and the
+// other spec helpers the document renderers and readers share.
+
+import yaml from 'js-yaml';
+import { Marked } from 'marked';
+import { isSwagger2, upgradeSwagger2 } from './swaggerConverter';
+import { dereference, refName, resolvePointer } from './jsonPointer';
+
+// Helper to parse content which might be JSON or YAML
+export const parseContent = (content: string) => {
+  try {
+    return JSON.parse(content);
+  } catch (e) {
+    try {
+      return yaml.load(content);
+    } catch (e2) {
+      throw new Error("Invalid format. Please provide valid JSON or YAML.");
+    }
+  }
+};
+
+// Parses a spec and upgrades Swagger 2.0 input to the OpenAPI 3 shape the renderers expect
+export const loadSpec = (content: string) => {
+  const spec = parseContent(content);
+  return isSwagger2(spec) ? upgradeSwagger2(spec) : spec;
+};
+
+/**
+ * Helper to resolve a schema if it is a reference
+ */
+const resolveSchema = (schema: any, rootSpec: any): any => {
+  if (!schema) return null;
+  
+  // Follow the JSON pointer (components, $defs, nested properties...)
+  if (schema.$ref) {
+    const { $ref, ...siblings } = schema;
+    const target = dereference(resolvePointer(rootSpec, $ref), rootSpec);
+    
+    if (target && typeof target === 'object') {
+      // OpenAPI 3.1 allows keywords next to $ref; they refine the referenced schema
+      return { 
+        ...target, 
+        ...siblings,
+        _resolvedFrom: $ref
+      };
+    }
+    // A pointer to nothing is shown as such rather than guessed
+    return { ...siblings, _unresolved: $ref };
+  }
+  return { ...schema };
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Lists the operations of a path item. Path-level parameters are merged into
+ * each operation (operation parameters win) and returned separately so the
+ * renderers can mark them.
+ */
+export const getOperations = (pathItem: any, rootSpec: any): { method: string, op: any, pathParams: any[] }[] => {
+  const item = dereference(pathItem, rootSpec) || {};
+  const pathParams: any[] = item.parameters || [];
+  const paramKey = (p: any) => {
+    const resolved = dereference(p, rootSpec) || {};
+    return `${resolved.in}:${resolved.name}`;
+  };
+
+  return HTTP_METHODS.filter(method => item[method]).map(method => {
+    const op = item[method];
+    const ownKeys = new Set((op.parameters || []).map(paramKey));
+    const parameters = [...pathParams.filter(p => !ownKeys.has(paramKey(p))), ...(op.parameters || [])];
+    return { method, op: { ...op, parameters }, pathParams };
+  });
+};
+
+/**
+ * Lists the operations of a callback: one path item per runtime expression
+ * (the URL the API calls back), in the same form as getOperations.
+ */
+export const getCallbackOperations = (callback: any, rootSpec: any): { expression: string, method: string, op: any, pathParams: any[] }[] =>
+  Object.entries(dereference(callback, rootSpec) || {})
+    .filter(([expression]) => !expression.startsWith('x-'))
+    .flatMap(([expression, pathItem]) => getOperations(pathItem, rootSpec).map(entry => ({ expression, ...entry })));
+
+interface TagChapter {
+  tag: string | null; // null for the "Other" chapter of untagged operations
+  description?: string;
+  declared: boolean; // Listed in the top-level tags array
+  operations: { path: string, method: string, op: any, pathParams: any[] }[];
+}
+
+/**
+ * Arranges the operations into tag chapters, grouped by x-tagGroups when the
+ * spec has them (chapters outside any group come after the groups, with a
+ * null group name). Each operation appears once, under its first tag.
+ */
+export const groupOperationsByTag = (spec: any): { group: string | null, chapters: TagChapter[] }[] => {
+  const chapters = new Map<string | null, TagChapter>();
+  const chapterFor = (tag: string | null) => {
+    if (!chapters.has(tag)) chapters.set(tag, { tag, declared: false, operations: [] });
+    return chapters.get(tag)!;
+  };
+
+  (spec.tags || []).forEach((t: any) => {
+    if (!t?.name) return;
+    const chapter = chapterFor(t.name);
+    chapter.declared = true;
+    chapter.description = t.description;
+  });
+  const tagGroups: any[] = Array.isArray(spec['x-tagGroups']) ? spec['x-tagGroups'] : [];
+  tagGroups.forEach(g => (g?.tags || []).forEach((tag: string) => chapterFor(tag)));
+
+  for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+    for (const { method, op, pathParams } of getOperations(pathItem, spec)) {
+      chapterFor(op.tags?.[0] ?? null).operations.push({ path, method, op, pathParams });
+    }
+  }
+
+  // A tag listed in several groups is shown in the first one
+  const grouped = new Set<string | null>();
+  const result: { group: string | null, chapters: TagChapter[] }[] = tagGroups.map(g => {
+    const tags: string[] = Array.from(new Set<string>(g?.tags || [])).filter(tag => !grouped.has(tag));
+    tags.forEach(tag => grouped.add(tag));
+    return { group: String(g?.name ?? ''), chapters: tags.map(tag => chapters.get(tag)!) };
+  });
+
+  // The "Other" chapter comes last, and only exists when some operation has no tag
+  const ungrouped = Array.from(chapters.values()).filter(c => !grouped.has(c.tag) && c.tag !== null);
+  const other = chapters.get(null);
+  if (other) ungrouped.push(other);
+  if (ungrouped.length) result.push({ group: null, chapters: ungrouped });
+  return result;
+};
+
+export interface FlatSchemaRow {
+    path: string;
+    type: string;
+    required: boolean;
+    description: string;
+    enum?: any[];
+    const?: any;
+    format?: string;
+    example?: any;
+    examples?: any[];
+    constraints?: Record<string, any>; // Format, validation keywords, default and flags (see SCHEMA_ROW_CONSTRAINTS)
+    ref?: string; // Store the original $ref if this node was a reference
+    refDescription?: boolean; // The description sits next to the $ref (3.1) instead of coming from the referenced schema
+    polymorphic?: { kind: 'oneOf' | 'anyOf', variants: any[], discriminator?: any }; // This node is a oneOf/anyOf union
+    variantOf?: string; // Path of the outermost oneOf/anyOf node this row comes from
+}
+
+// Schemas of the keys a schema does not list, and the path segment of their rows
+const MAP_KEYWORDS = [
+    { keyword: 'additionalProperties', segment: '<key>' },
+    { keyword: 'unevaluatedProperties', segment: '<unevaluated>' },
+];
+
+/**
+ * Recursively flattens a schema into a list of rows with JSON paths.
+ */
+export const flattenSchema = (
+    schema: any,
+    rootSpec: any,
+    currentPath: string = "",
+    isRequired: boolean = false,
+    rows: FlatSchemaRow[] = [],
+    visitedRefs: Set<string> = new Set()
+): FlatSchemaRow[] => {
+    // Check if this specific node is a ref BEFORE resolving properties
+    const originalRef = schema.$ref;
+
+    let resolved = resolveSchema(schema, rootSpec);
+    if (!resolved) return rows;
+
+    if (resolved._unresolved) {
+        rows.push({
+            path: currentPath,
+            type: `Unresolved (${resolved._unresolved})`,
+            required: isRequired,
+            description: resolved.description || 'Reference not found',
+            ref: originalRef
+        });
+        return rows;
+    }
+
+    // Cycle detection for recursive refs, keyed on the full pointer
+    if (resolved._resolvedFrom) {
+        if (visitedRefs.has(resolved._resolvedFrom)) {
+            rows.push({
+                path: currentPath,
+                type: `Recursive (${refName(resolved._resolvedFrom)})`,
+                required: isRequired,
+                description: "Recursive reference detected",
+                ref: originalRef
+            });
+            return rows;
+        }
+        visitedRefs.add(resolved._resolvedFrom);
+    }
+
+    // Handle allOf (Merge)
+    if (resolved.allOf && Array.isArray(resolved.allOf)) {
+        const merged: any = { properties: {}, required: [] };
+        resolved.allOf.forEach((s: any) => {
+            const resolvedS = resolveSchema(s, rootSpec);
+            if (resolvedS.properties) Object.assign(merged.properties, resolvedS.properties);
+            if (resolvedS.required) merged.required.push(...resolvedS.required);
+            // Also merge additionalProperties if present
+            if (resolvedS.additionalProperties) merged.additionalProperties = resolvedS.additionalProperties;
+        });
+        resolved = { ...resolved, ...merged };
+    }
+
+    // Handle oneOf / anyOf (Polymorphism) - We treat them as potential options.
+    // The variant rows are marked so that tables can list each variant on its own.
+    const polymorphicKind = Array.isArray(resolved.oneOf) ? 'oneOf' : Array.isArray(resolved.anyOf) ? 'anyOf' : undefined;
+    if (polymorphicKind) {
+        const firstVariantRow = rows.length;
+        resolved[polymorphicKind].forEach((s: any) => {
+            flattenSchema(s, rootSpec, currentPath, isRequired, rows, new Set(visitedRefs));
+        });
+        rows.slice(firstVariantRow).forEach(row => { row.variantOf = currentPath; });
+    }
+
+    // OpenAPI 3.1 allows a list of types, e.g. ["string", "null"]
+    const typeList: string[] = Array.isArray(resolved.type) ? resolved.type : (resolved.type ? [resolved.type] : []);
+    const type = typeList.find(t => t !== 'null')
+        || (resolved.properties ? 'object' : (resolved.items || resolved.prefixItems) ? 'array' : typeList[0] || polymorphicKind || 'string');
+    const typeLabel = typeList.length > 1 ? typeList.join(' | ') : type;
+
+    // Add row for the current node; an object at the root is the table itself
+    if (currentPath || (type !== 'object' && type !== undefined) || originalRef || polymorphicKind) {
+        const exists = rows.find(r => r.variantOf === undefined && r.path === currentPath && r.type === typeLabel && r.description === (resolved.description || ''));
+        if (!exists) {
+            rows.push({
+                path: currentPath,
+                type: typeLabel,
+                required: isRequired,
+                description: resolved.description || '',
+                enum: resolved.enum,
+                const: resolved.const,
+                format: resolved.format,
+                example: resolved.example,
+                examples: Array.isArray(resolved.examples) ? resolved.examples : undefined,
+                constraints: getSchemaConstraints(resolved),
+                ref: originalRef,
+                refDescription: originalRef && schema.description !== undefined ? true : undefined,
+                polymorphic: polymorphicKind ? { kind: polymorphicKind, variants: resolved[polymorphicKind], discriminator: resolved.discriminator } : undefined
+            });
+        }
+    }
+
+    // 1. Handle Object Properties
+    if (resolved.properties) {
+        const requiredFields = resolved.required || [];
+        Object.entries(resolved.properties).forEach(([key, prop]: [string, any]) => {
+            const childPath = currentPath ? `${currentPath}.${key}` : key;
+            const childIsReq = requiredFields.includes(key);
+            flattenSchema(prop, rootSpec, childPath, childIsReq, rows, new Set(visitedRefs));
+        });
+    }
+    
+    // 2. Handle Maps: additionalProperties under "<key>", the 3.1 unevaluatedProperties under "<unevaluated>"
+    MAP_KEYWORDS.forEach(({ keyword, segment }) => {
+        const mapSchema = resolved[keyword];
+        if (mapSchema === undefined) return;
+        const childPath = currentPath ? `${currentPath}.${segment}` : segment;
+        if (mapSchema && typeof mapSchema === 'object') {
+            flattenSchema(mapSchema, rootSpec, childPath, false, rows, new Set(visitedRefs));
+        } else {
+            // true allows any other key, false none
+            rows.push({
+                path: childPath,
+                type: mapSchema ? 'any' : 'none',
+                required: false,
+                description: mapSchema ? 'Any value allowed' : 'No other properties allowed',
+            });
+        }
+    });
+
+    // 3. Handle Arrays (prefixItems are 3.1 tuple positions, items the remaining elements)
+    if (type === 'array' && Array.isArray(resolved.prefixItems)) {
+        resolved.prefixItems.forEach((item: any, idx: number) => {
+            flattenSchema(item, rootSpec, `${currentPath}[${idx}]`, false, rows, new Set(visitedRefs));
+        });
+    }
+    if (type === 'array' && resolved.items && typeof resolved.items === 'object') {
+        const childPath = currentPath + "[]";
+        flattenSchema(resolved.items, rootSpec, childPath, false, rows, new Set(visitedRefs));
+    }
+
+    return rows;
+};
+
+/**
+ * Splits a flattened JSON path into steps:
+ * "a.b[]" -> prop a, prop b, items ; "pair[0]" -> prop pair, prefix 0 ;
+ * "<key>" -> map additionalProperties ; "<unevaluated>" -> map unevaluatedProperties
+ */
+const toPathSteps = (path: string) => {
+    const steps: { kind: 'prop' | 'map' | 'items' | 'prefix', name?: string, index?: number }[] = [];
+    path.split('.').forEach(part => {
+        const match = part.match(/^(.*?)((?:\[\d*\])*)$/)!;
+        const name = match[1];
+        const map = MAP_KEYWORDS.find(m => m.segment === name);
+        if (map || name === '*') steps.push({ kind: 'map', name: map?.keyword ?? 'additionalProperties' });
+        else if (name !== '') steps.push({ kind: 'prop', name });
+        (match[2].match(/\[\d*\]/g) || []).forEach(bracket => {
+            const index = bracket.slice(1, -1);
+            steps.push(index === '' ? { kind: 'items' } : { kind: 'prefix', index: parseInt(index, 10) });
+        });
+    });
+    return steps;
+};
+
+/**
+ * Placeholder value for a primitive type, picked from its format when there is one
+ */
+const sampleValue = (type: string, format?: string): any => {
+    if (type === 'integer' || type === 'number') return 0;
+    if (type === 'boolean') return true;
+    if (type === 'null') return null;
+    switch (format) {
+        case 'date-time': return '2024-01-01T00:00:00Z';
+        case 'date': return '2024-01-01';
+        case 'time': return '00:00:00';
+        case 'email': return 'user@example.com';
+        case 'uuid': return '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+        case 'uri':
+        case 'url': return 'https://example.com';
+        case 'hostname': return 'example.com';
+        case 'ipv4': return '192.168.0.1';
+        case 'ipv6': return '::1';
+        case 'byte': return 'c3RyaW5n';
+        case 'binary': return '<binary>';
+        case 'password': return '********';
+        default: return 'string';
+    }
+};
+
+/**
+ * Builds a JSON example for a schema from the rows flattenSchema produces.
+ * Explicit example/examples/const/enum values win over generated placeholders;
+ * a oneOf/anyOf shows its first variant, with the discriminator value naming it.
+ * Deterministic for a given schema.
+ */
+const generateExample = (schema: any, rootSpec: any, unions: Set<any> = new Set()): any => {
+    const resolved = resolveSchema(schema, rootSpec);
+    if (!resolved) return undefined;
+    if (resolved.example !== undefined) return resolved.example;
+    if (Array.isArray(resolved.examples) && resolved.examples.length) return resolved.examples[0];
+
+    // A primitive at the root has no row of its own
+    const rootType = (Array.isArray(resolved.type) ? resolved.type : [resolved.type]).find((t: string) => t && t !== 'null');
+    if (rootType && rootType !== 'object' && rootType !== 'array' && !resolved.properties && !resolved.oneOf && !resolved.anyOf) {
+        if (resolved.const !== undefined) return resolved.const;
+        if (Array.isArray(resolved.enum) && resolved.enum.length) return resolved.enum[0];
+        return sampleValue(rootType, resolved.format);
+    }
+
+    const isUnder = (path: string, parent: string) => parent === '' ? path !== '' : (path.startsWith(parent + '.') || path.startsWith(parent + '['));
+    const explicitPaths: string[] = [];
+    let root: any = {};
+
+    flattenSchema(schema, rootSpec).forEach(row => {
+        // A map that allows no other keys has no value to show
+        if (row.type === 'none' || row.type.startsWith('Recursive') || row.type.startsWith('Unresolved') || explicitPaths.some(p => isUnder(row.path, p))) return;
+        // Variant rows of all the variants share the union's paths; the union row fills in the first variant
+        if (row.variantOf !== undefined) return;
+
+        let value: any;
+        if (row.example !== undefined) value = row.example;
+        else if (row.examples && row.examples.length) value = row.examples[0];
+        if (value !== undefined) {
+            // Nested rows are already covered by the explicit value
+            explicitPaths.push(row.path);
+        } else if (row.polymorphic) {
+            value = generateVariantExample(row.polymorphic, rootSpec, unions);
+        } else if (row.const !== undefined) {
+            value = row.const;
+        } else if (row.enum && row.enum.length) {
+            value = row.enum[0];
+        } else {
+            const primary = row.type.split(' | ').find(t => t !== 'null') || row.type;
+            value = primary === 'object' || primary === 'any' ? {} : primary === 'array' ? [] : sampleValue(primary, row.format);
+        }
+
+        if (!row.path) {
+            root = value;
+            return;
+        }
+
+        const steps = toPathSteps(row.path);
+        let current = root;
+        for (let i = 0; i < steps.length; i++) {
+            if (current === null || typeof current !== 'object') return;
+            const step = steps[i];
+            const key = step.kind === 'prop' ? step.name! : step.kind === 'map' ? 'key' : step.kind === 'items' ? 0 : step.index!;
+            if (i === steps.length - 1) {
+                // First variant wins when oneOf/anyOf rows share a path
+                if (current[key] === undefined) current[key] = value;
+            } else {
+                if (current[key] === undefined) current[key] = (steps[i + 1].kind === 'items' || steps[i + 1].kind === 'prefix') ? [] : {};
+                current = current[key];
+            }
+        }
+    });
+
+    return root;
+};
+
+/**
+ * Example of the first variant of a union. A discriminator property names the
+ * variant by its mapping value, or by the schema name the reference points to.
+ */
+const generateVariantExample = (union: NonNullable<FlatSchemaRow['polymorphic']>, rootSpec: any, unions: Set<any>): any => {
+    const variant = union.variants[0];
+    // A variant that contains its own union again is shown empty
+    if (variant === undefined || unions.has(variant)) return {};
+    const value = generateExample(variant, rootSpec, new Set([...unions, variant]));
+
+    const propertyName = union.discriminator?.propertyName;
+    const ref: string | undefined = variant.$ref;
+    if (!propertyName || !ref || value === null || typeof value !== 'object' || Array.isArray(value)) return value;
+    const mapped = Object.entries(union.discriminator.mapping || {})
+        .find(([, target]) => target === ref || `#/components/schemas/${target}` === ref)?.[0];
+    return { ...value, [propertyName]: mapped ?? ref.split('/').pop() };
+};
+
+export const isJsonMediaType = (contentType: string) => /\bjson\b/i.test(contentType);
+
+/**
+ * Examples to show for a media type: its explicit example or named examples,
+ * otherwise one generated from the schema (JSON bodies only; a JSON sample
+ * would misrepresent an XML, CSV or binary body)
+ */
+export const getMediaExamples = (media: any, rootSpec: any, contentType: string): { name?: string, value: any, generated?: boolean }[] => {
+    if (!media) return [];
+    if (media.example !== undefined) return [{ value: media.example }];
+    if (media.examples && typeof media.examples === 'object') {
+        const named = Object.entries(media.examples)
+            .map(([name, ex]) => ({ name, value: dereference(ex, rootSpec)?.value }))
+            .filter(ex => ex.value !== undefined);
+        if (named.length) return named;
+    }
+    if (!media.schema || !isJsonMediaType(contentType)) return [];
+    const generated = generateExample(media.schema, rootSpec);
+    return generated === undefined ? [] : [{ value: generated, generated: true }];
+};
+
+/**
+ * Label shown above an example. Generated ones say so, and the readers skip them
+ * so that a round trip does not add examples the spec never had.
+ */
+export const exampleLabel = (ex: { name?: string, generated?: boolean }): string =>
+    ex.name ? `Example: ${ex.name}` : ex.generated ? 'Example (generated)' : 'Example';
+
+/**
+ * Example text as shown in the documents: JSON, except for text payloads such
+ * as XML or CSV that are shown as they are sent
+ */
+export const formatExampleValue = (value: any, contentType: string): string =>
+    typeof value === 'string' && !isJsonMediaType(contentType) ? value : JSON.stringify(value, null, 2);
+
+export const parseExampleValue = (text: string, contentType: string): any => {
+    const trimmed = text.trim();
+    try {
+        const value = JSON.parse(trimmed);
+        // A text payload keeps its raw form unless it holds structured data
+        if (isJsonMediaType(contentType) || (value !== null && typeof value === 'object')) return value;
+    } catch (e) {
+        // Edited into invalid JSON, or a text payload: keep the raw text rather than dropping it
+    }
+    return trimmed;
+};
+
+/**
+ * Type label of a parameter schema: "integer (int64)", "array<string>", "string | null".
+ * schemaFromTypeLabel reads it back when a document lost its round-trip data.
+ */
+export const schemaTypeLabel = (schema: any, rootSpec: any, depth: number = 0): string => {
+    const resolved = dereference(schema, rootSpec);
+    if (!resolved || typeof resolved !== 'object') return 'string';
+    const types: string[] = Array.isArray(resolved.type) ? resolved.type : (resolved.type ? [resolved.type] : []);
+    const union = Array.isArray(resolved.oneOf) ? 'oneOf' : Array.isArray(resolved.anyOf) ? 'anyOf' : undefined;
+    const type = types.find(t => t !== 'null')
+        || (resolved.items ? 'array' : resolved.properties ? 'object' : types.length ? 'null' : union || 'string');
+    let label = type === 'array' && resolved.items && depth < 3 ? `array<${schemaTypeLabel(resolved.items, rootSpec, depth + 1)}>` : type;
+    if (resolved.format) label += ` (${resolved.format})`;
+    return types.includes('null') && type !== 'null' ? `${label} | null` : label;
+};
+
+export const schemaFromTypeLabel = (label: string): any => {
+    const text = label.trim();
+    const nullable = text.match(/^(.*?)\s*\|\s*null$/);
+    if (nullable) {
+        const schema = schemaFromTypeLabel(nullable[1]);
+        return { ...schema, type: [schema.type, 'null'] };
+    }
+    const array = text.match(/^array<(.+)>$/);
+    if (array) return { type: 'array', items: schemaFromTypeLabel(array[1]) };
+    if (text === 'oneOf' || text === 'anyOf') return {};
+    const formatted = text.match(/^(\S+)\s+\((.+)\)$/);
+    if (formatted) return { type: formatted[1], format: formatted[2] };
+    return { type: text || 'string' };
+};
+
+// Validation keywords listed under a parameter, with their display labels
+export const SCHEMA_CONSTRAINTS: { key: string, label: string }[] = [
+    { key: 'minimum', label: 'Minimum' },
+    { key: 'exclusiveMinimum', label: 'Exclusive minimum' },
+    { key: 'maximum', label: 'Maximum' },
+    { key: 'exclusiveMaximum', label: 'Exclusive maximum' },
+    { key: 'multipleOf', label: 'Multiple of' },
+    { key: 'minLength', label: 'Min length' },
+    { key: 'maxLength', label: 'Max length' },
+    { key: 'pattern', label: 'Pattern' },
+    { key: 'minItems', label: 'Min items' },
+    { key: 'maxItems', label: 'Max items' },
+    { key: 'uniqueItems', label: 'Unique items' },
+];
+
+// Keywords of the Constraints column of schema tables, one "Label: value" line each
+const SCHEMA_ROW_CONSTRAINTS: { key: string, label: string }[] = [
+    { key: 'format', label: 'Format' },
+    ...SCHEMA_CONSTRAINTS,
+    { key: 'default', label: 'Default' },
+    { key: 'nullable', label: 'Nullable' },
+    { key: 'readOnly', label: 'Read only' },
+    { key: 'writeOnly', label: 'Write only' },
+    { key: 'deprecated', label: 'Deprecated' },
+];
+
+// Shown as the bare label when set
+const CONSTRAINT_FLAGS = ['uniqueItems', 'nullable', 'readOnly', 'writeOnly', 'deprecated'];
+
+const getSchemaConstraints = (schema: any): Record<string, any> | undefined => {
+    const constraints: Record<string, any> = {};
+    SCHEMA_ROW_CONSTRAINTS.forEach(({ key }) => {
+        if (schema[key] !== undefined) constraints[key] = schema[key];
+    });
+    return Object.keys(constraints).length ? constraints : undefined;
+};
+
+/**
+ * Lines of the Constraints column: "Format: uuid", "Max length: 64", "Default: \"asc\"", "Read only"
+ */
+export const describeSchemaConstraints = (constraints: Record<string, any> | undefined): string[] => SCHEMA_ROW_CONSTRAINTS
+    .filter(({ key }) => constraints?.[key] !== undefined)
+    .map(({ key, label }) => {
+        const value = constraints![key];
+        if (value === true && CONSTRAINT_FLAGS.includes(key)) return label;
+        return `${label}: ${key === 'default' ? JSON.stringify(value) : String(value)}`;
+    });
+
+/**
+ * Reads the Constraints column back into schema keywords; lines it does not recognize are ignored
+ */
+export const parseSchemaConstraints = (text: string | undefined): Record<string, any> => {
+    const constraints: Record<string, any> = {};
+    (text || '').split(/\n+/).forEach(line => {
+        const match = line.trim().match(/^([A-Za-z ]+?)(?::\s*(.*))?$/);
+        const field = match && SCHEMA_ROW_CONSTRAINTS.find(c => c.label.toLowerCase() === match[1].toLowerCase());
+        if (!field) return;
+        const value = match![2];
+        if (value === undefined) {
+            constraints[field.key] = true;
+        } else if (field.key === 'format' || field.key === 'pattern') {
+            constraints[field.key] = value;
+        } else {
+            try {
+                constraints[field.key] = JSON.parse(value);
+            } catch (e) {
+                constraints[field.key] = value;
+            }
+        }
+    });
+    return constraints;
+};
+
+// Notes listed under the description of a schema row, one "Label: value" line each
+const SCHEMA_ROW_NOTES: { key: string, label: string }[] = [
+    { key: 'enum', label: 'Allowed' },
+    { key: 'const', label: 'Const' },
+    { key: 'example', label: 'Example' },
+    { key: 'examples', label: 'Examples' },
+];
+
+/**
+ * Notes of a schema row: "Allowed: cat, dog", "Const: \"cat\"", "Example: 4", "Examples: \"a\", \"b\""
+ * (values as JSON, except the allowed values, which are listed as written)
+ */
+export const describeSchemaNotes = (row: FlatSchemaRow): string[] => {
+    const notes: string[] = [];
+    if (row.enum) notes.push(`Allowed: ${row.enum.map(v => typeof v === 'string' ? v : JSON.stringify(v)).join(', ')}`);
+    if (row.const !== undefined) notes.push(`Const: ${JSON.stringify(row.const)}`);
+    if (row.example !== undefined) notes.push(`Example: ${JSON.stringify(row.example)}`);
+    if (row.examples) notes.push(`Examples: ${row.examples.map(e => JSON.stringify(e)).join(', ')}`);
+    return notes;
+};
+
+const parseJsonOr = (text: string, fallback: any): any => {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        return fallback;
+    }
+};
+
+/**
+ * Allowed values of a row with the given type label; they are strings unless the type
+ * says otherwise, so "1, 2" of a string stays ["1", "2"] while an integer gets [1, 2]
+ */
+const parseAllowedValues = (text: string, typeLabel: string | undefined): any[] => {
+    const values = text.split(', ');
+    return typeLabel === 'string' ? values : values.map(v => {
+        const parsed = parseJsonOr(v, v);
+        return typeof parsed === 'string' ? v : parsed;
+    });
+};
+
+/**
+ * Reads the notes of a schema row back into keywords; lines it does not recognize are ignored
+ */
+export const parseSchemaNotes = (text: string | undefined, typeLabel?: string): Record<string, any> => {
+    const values: Record<string, any> = {};
+    (text || '').split(/\n+/).forEach(line => {
+        const match = line.trim().match(/^([A-Za-z ]+?):\s*([\s\S]*)$/);
+        const note = match && SCHEMA_ROW_NOTES.find(n => n.label === match[1]);
+        if (!note) return;
+        const value = match![2];
+        if (note.key === 'enum') values.enum = parseAllowedValues(value, typeLabel);
+        else values[note.key] = note.key === 'examples' ? parseJsonOr(`[${value}]`, [value]) : parseJsonOr(value, value);
+    });
+    return values;
+};
+
+/**
+ * Splits the notes off a Word or Markdown description cell, where they follow the
+ * description as "[Const: 1] [Examples: 2, 3]"; the notes come back one per line
+ */
+export const splitSchemaNotes = (text: string): { description: string, notes: string } => {
+    const labels = SCHEMA_ROW_NOTES.map(n => n.label).join('|');
+    const match = text.match(new RegExp(`(^|\\s)\\[((?:${labels}): [\\s\\S]*)\\]$`));
+    if (!match) return { description: text, notes: '' };
+    const notes = match[2].split(new RegExp(`\\]\\s*\\[(?=(?:${labels}): )`)).join('\n');
+    return { description: text.slice(0, match.index).trim(), notes };
+};
+
+// Parameter fields besides name, in, required and description. They travel as
+// JSON (data-param attribute, DOCX/Markdown row metadata) to be restored exactly.
+const PARAMETER_DETAIL_KEYS = ['schema', 'content', 'style', 'explode', 'allowReserved', 'allowEmptyValue', 'deprecated', 'example', 'examples'];
+
+const PARAMETER_NOTE_LABELS = ['Allowed', 'Default', ...SCHEMA_CONSTRAINTS.map(c => c.label), 'Content', 'Style', 'Allow reserved', 'Allow empty value', 'Deprecated', 'Example', 'Examples'];
+
+export const getParameterDetails = (param: any): any | undefined => {
+    const details: any = {};
+    PARAMETER_DETAIL_KEYS.forEach(key => {
+        if (param[key] !== undefined) details[key] = param[key];
+    });
+    return Object.keys(details).length ? details : undefined;
+};
+
+/**
+ * Round-trip metadata of a parameter row in the Word and Markdown layouts: its
+ * details, the shared component it references and whether the path item declares it
+ */
+export const parameterMetadata = (rawParam: any, param: any, pathParams: any[]): { param?: any, paramRef?: string, paramLevel?: 'path' } | undefined => {
+    const entry = {
+        param: getParameterDetails(param),
+        paramRef: rawParam?.$ref as string | undefined,
+        paramLevel: pathParams.includes(rawParam) ? 'path' as const : undefined
+    };
+    return entry.param || entry.paramRef || entry.paramLevel ? entry : undefined;
+};
+
+/**
+ * Schema of a parameter, taken from its first media type when it uses `content`
+ */
+export const getParameterSchema = (param: any): any => param.schema ?? (Object.values(param.content || {})[0] as any)?.schema;
+
+/**
+ * Readable notes on a parameter's values and serialization, shown under its description:
+ * "Default: 10", "Maximum: 100", "Style: form, explode: false"...
+ */
+export const getParameterNotes = (param: any, rootSpec: any): string[] => {
+    const schema = dereference(getParameterSchema(param), rootSpec) || {};
+    const items = dereference(schema.items, rootSpec) || {};
+    const notes: string[] = [];
+    const allowed = schema.enum || items.enum;
+    if (Array.isArray(allowed)) notes.push(`Allowed: ${allowed.join(', ')}`);
+    if (schema.default !== undefined) notes.push(`Default: ${JSON.stringify(schema.default)}`);
+    SCHEMA_CONSTRAINTS.forEach(({ key, label }) => {
+        if (schema[key] !== undefined) notes.push(`${label}: ${schema[key]}`);
+    });
+    if (param.content) notes.push(`Content: ${Object.keys(param.content).join(', ')}`);
+    if (param.style || param.explode !== undefined) {
+        const style = param.style || (param.in === 'query' || param.in === 'cookie' ? 'form' : 'simple');
+        notes.push(`Style: ${style}${param.explode !== undefined ? `, explode: ${param.explode}` : ''}`);
+    }
+    if (param.allowReserved) notes.push('Allow reserved');
+    if (param.allowEmptyValue) notes.push('Allow empty value');
+    if (param.deprecated) notes.push('Deprecated');
+    if (param.example !== undefined) notes.push(`Example: ${JSON.stringify(param.example)}`);
+    if (param.examples && typeof param.examples === 'object') notes.push(`Examples: ${Object.keys(param.examples).join(', ')}`);
+    return notes;
+};
+
+/**
+ * Removes the bracketed notes paragraph that follows a parameter description in Word and Markdown
+ */
+export const stripParameterNotes = (text: string): string => {
+    const labels = PARAMETER_NOTE_LABELS.map(label => label.replace(/ /g, '\\s')).join('|');
+    return text.replace(new RegExp(`(^|\\n\\n)\\[(${labels})[:\\]][^\\n]*$`), '').trim();
+};
+
+/**
+ * Security scheme properties shown in the Authentication chapter, in display order.
+ * The labels are also what the DOCX reader maps back to keys.
+ */
+export const SECURITY_SCHEME_FIELDS: { key: string, label: string }[] = [
+    { key: 'type', label: 'Type' },
+    { key: 'in', label: 'Location' },
+    { key: 'name', label: 'Parameter Name' },
+    { key: 'scheme', label: 'Scheme' },
+    { key: 'bearerFormat', label: 'Bearer Format' },
+    { key: 'openIdConnectUrl', label: 'OpenID Connect URL' },
+];
+
+export const OAUTH_FLOW_FIELDS: { key: string, label: string }[] = [
+    { key: 'authorizationUrl', label: 'Authorization URL' },
+    { key: 'tokenUrl', label: 'Token URL' },
+    { key: 'refreshUrl', label: 'Refresh URL' },
+];
+
+export const getSecuritySchemes = (spec: any): [string, any][] => {
+    return Object.entries(spec.components?.securitySchemes || {})
+        .map(([name, scheme]): [string, any] => [name, dereference(scheme, spec)])
+        .filter(([, scheme]) => scheme && typeof scheme === 'object');
+};
+
+/**
+ * Escapes spec-derived text for HTML content and quoted attribute values.
+ * Non-string values (numeric versions, enum members) are stringified first.
+ */
+export const escapeHtml = (text: any) => String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+export const unescapeHtml = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+// Descriptions are CommonMark. Raw HTML inside them is shown as text rather
+// than injected, and script links and images lose their target.
+export const UNSAFE_LINK = /^\s*(javascript|vbscript|data):/i;
+export const descriptionMarked = new Marked({
+    renderer: {
+        html: (html: string) => escapeHtml(html),
+        link: (href: string, _title: string | null | undefined, text: string) => UNSAFE_LINK.test(href) ? text : false,
+        image: (href: string, _title: string | null | undefined, text: string) => UNSAFE_LINK.test(href) ? text : false,
+    }
+});
+
+/**
+ * Reconstructs a nested schema object from flat path rows (Unflattening)
+ */
+const asArray = (node: any) => {
+    node.type = 'array';
+    if (node.properties && Object.keys(node.properties).length === 0) delete node.properties;
+};
+
+const applyTypeLabel = (node: any, type: string) => {
+    // A union without a type of its own is labelled with its keyword; the variants are read separately
+    if (type === 'oneOf' || type === 'anyOf') {
+        delete node.type;
+        if (node.properties && Object.keys(node.properties).length === 0) delete node.properties;
+        return;
+    }
+    // "string | null" is an OpenAPI 3.1 type list
+    node.type = type.includes(' | ') ? type.split(' | ').map(t => t.trim()) : type;
+    const primary = Array.isArray(node.type) ? node.type.find((t: string) => t !== 'null') : node.type;
+    if (primary !== 'object' && node.properties && Object.keys(node.properties).length === 0) delete node.properties;
+};
+
+/**
+ * Walks a flattened JSON path from the root schema, creating the nodes on the way
+ */
+const schemaNodeAt = (root: any, path: string): any => {
+    let current = root;
+    toPathSteps(path).forEach(step => {
+        if (step.kind === 'prop') {
+            if (!current.properties) current.properties = {};
+            if (!current.properties[step.name!]) current.properties[step.name!] = { type: 'object', properties: {} };
+            current = current.properties[step.name!];
+        } else if (step.kind === 'map') {
+            if (!current[step.name!] || typeof current[step.name!] !== 'object') {
+                current[step.name!] = { type: 'object', properties: {} };
+            }
+            current = current[step.name!];
+        } else if (step.kind === 'items') {
+            asArray(current);
+            if (!current.items) current.items = { type: 'object', properties: {} };
+            current = current.items;
+        } else {
+            asArray(current);
+            if (!current.prefixItems) current.prefixItems = [];
+            if (!current.prefixItems[step.index!]) current.prefixItems[step.index!] = { type: 'object', properties: {} };
+            current = current.prefixItems[step.index!];
+        }
+    });
+    return current;
+};
+
+export const unflattenSchema = (rows: {path: string, type: string, required?: boolean, description: string, constraints?: string, notes?: string, ref?: string, refDescription?: boolean}[]) => {
+    const rootSchema: any = { type: 'object', properties: {} };
+    const skippedPaths: string[] = [];
+    const parentOf = (path: string) => schemaNodeAt(rootSchema, path.slice(0, Math.max(path.lastIndexOf('.'), 0)));
+
+    rows.forEach(row => {
+        // The root row of a primitive, array or referenced schema; a referenced root comes with the table
+        if (!row.path) {
+            if (row.ref) return;
+            applyTypeLabel(rootSchema, row.type);
+            if (row.description) rootSchema.description = row.description;
+            Object.assign(rootSchema, parseSchemaConstraints(row.constraints), parseSchemaNotes(row.notes, row.type));
+            return;
+        }
+        
+        // Check if this path is a child of a skipped ref path
+        if (skippedPaths.some(p => row.path.startsWith(p + '.') || row.path.startsWith(p + '['))) {
+            return;
+        }
+
+        const steps = toPathSteps(row.path);
+        const last = steps[steps.length - 1];
+
+        // additionalProperties / unevaluatedProperties set to true or false
+        if (last?.kind === 'map' && !row.ref && (row.type === 'any' || row.type === 'none')) {
+            parentOf(row.path)[last.name!] = row.type === 'any';
+            return;
+        }
+
+        const current = schemaNodeAt(rootSchema, row.path);
+
+        if (row.ref) {
+            Object.keys(current).forEach(k => delete current[k]);
+            current.$ref = row.ref;
+            if (row.refDescription) current.description = row.description;
+            skippedPaths.push(row.path);
+        } else {
+            applyTypeLabel(current, row.type);
+            current.description = row.description;
+            Object.assign(current, parseSchemaConstraints(row.constraints), parseSchemaNotes(row.notes, row.type));
+        }
+
+        // A required property is listed in the `required` array of the object holding it
+        if (row.required && last?.kind === 'prop') {
+            const parent = parentOf(row.path);
+            if (!parent.required) parent.required = [];
+            if (!parent.required.includes(last.name!)) parent.required.push(last.name!);
+        }
+    });
+
+    return rootSchema;
+};
+
+export interface SchemaVariantSection {
+    path: string;
+    kind: 'oneOf' | 'anyOf';
+    type: string; // Type label of the union node ('oneOf' / 'anyOf' when it has no type of its own)
+    variants: { id: string, label: string, schema: any }[]; // id "Variant A", label "Variant A: Cat"
+    discriminator?: { propertyName?: string, mapping?: Record<string, string> };
+}
+
+/**
+ * Splits flattened rows for display: the rows of the table itself, and the
+ * oneOf/anyOf unions listed after it as labelled variants. A union inside a
+ * referenced schema stays merged into the table; the Data Models entry of
+ * that schema lists its variants.
+ */
+export const splitSchemaVariants = (allRows: FlatSchemaRow[], rootSpec: any): { rows: FlatSchemaRow[], sections: SchemaVariantSection[] } => {
+    const isWithin = (path: string, parent: string) => parent === '' || path === parent || path.startsWith(parent + '.') || path.startsWith(parent + '[');
+    const unions = allRows.filter(row => row.polymorphic && row.variantOf === undefined
+        && (row.path === '' || !allRows.some(r => r.ref && r.variantOf === undefined && isWithin(row.path, r.path))));
+    const listed = new Set(unions.map(row => row.path));
+
+    return {
+        // The root union row has no path to show; its variants are the whole table
+        rows: allRows.filter(row => !(row.variantOf !== undefined && listed.has(row.variantOf)) && !(row.path === '' && row.polymorphic && !row.ref)),
+        sections: unions.map(row => ({
+            path: row.path,
+            kind: row.polymorphic!.kind,
+            type: row.type,
+            variants: row.polymorphic!.variants.map((variant: any, idx: number) => {
+                const name = variant?.$ref ? variant.$ref.split('/').pop() : (dereference(variant, rootSpec)?.title || schemaTypeLabel(variant, rootSpec));
+                const id = `Variant ${idx < 26 ? String.fromCharCode(65 + idx) : idx + 1}`;
+                return { id, label: `${id}: ${name}`, schema: variant };
+            }),
+            discriminator: row.polymorphic!.discriminator
+        }))
+    };
+};
+
+/**
+ * Description of a Data Models entry, shown above its table. Primitive and array
+ * models have a root row that carries it instead; a referenced model has none.
+ */
+export const getModelDescription = (schema: any, rootSpec: any): string | undefined => {
+    if (!schema || schema.$ref || !schema.description) return undefined;
+    const hasRootRow = flattenSchema(schema, rootSpec).some(row => row.path === '' && row.variantOf === undefined && !row.polymorphic);
+    return hasRootRow ? undefined : schema.description;
+};
+
+// "One of", or "pet: Any of" for a union below the root
+export const variantSectionTitle = (section: SchemaVariantSection): string =>
+    `${section.path ? `${section.path}: ` : ''}${section.kind === 'oneOf' ? 'One of' : 'Any of'}`;
+
+/**
+ * Whether a body schema is a lone primitive, shown as a type line rather than a table
+ */
+export const isTypeOnlySchema = (schema: any, rootSpec: any): boolean => !!schema && !schema.$ref && !schema.$defs
+    && flattenSchema(schema, rootSpec).every(row => row.path === '' && !row.polymorphic);
+
+/**
+ * Whether an inline variant is listed as a table of fields rather than a type line
+ */
+export const variantHasTable = (variant: any, rootSpec: any): boolean => {
+    const { rows, sections } = splitSchemaVariants(flattenSchema(variant, rootSpec), rootSpec);
+    return rows.some(row => row.path) || sections.length > 0;
+};
+
+/**
+ * Inline variants are labelled with their title, or else their type, so a label
+ * that is not the type label of the variant gives its title back
+ */
+export const restoreVariantTitle = (label: string, schema: any): any => {
+    const name = label.replace(/^(Variant [A-Z0-9]+ \/ )*Variant [A-Z0-9]+:\s*/, '').trim();
+    if (name && !schema.$ref && name !== schemaTypeLabel(schema, {})) schema.title = name;
+    return schema;
+};
+
+/**
+ * Sets a union read back from a document on the schema rebuilt from its table, and returns the union node
+ */
+export const applySchemaVariants = (root: any, section: { path: string, kind: 'oneOf' | 'anyOf', type: string, variants: any[], discriminator?: any }): any => {
+    const node = schemaNodeAt(root, section.path);
+    // Unions below the root take their type from their own table row
+    if (!section.path) applyTypeLabel(node, section.type);
+    if (node.properties && Object.keys(node.properties).length === 0) delete node.properties;
+    node[section.kind] = section.variants;
+    if (section.discriminator) node.discriminator = section.discriminator;
+    return node;
+};
+
+/**
+ * Serialization of one multipart or form part: "style: form, explode: true"
+ */
+export const describeEncoding = (part: any): string => ['style', 'explode', 'allowReserved']
+    .filter(key => part?.[key] !== undefined)
+    .map(key => `${key}: ${part[key]}`)
+    .join(', ');
+
+/**
+ * Reads a part back from its visible content type and serialization cells
+ */
+export const parseEncodingPart = (contentType: string, serialization: string): any => {
+    const part: any = {};
+    if (contentType && contentType !== '-') part.contentType = contentType;
+    serialization.split(',').forEach(setting => {
+        const [key, value] = setting.split(':').map(s => s.trim());
+        if (key === 'style' && value) part.style = value;
+        else if (key === 'explode' || key === 'allowReserved') part[key] = value === 'true';
+    });
+    return part;
+};
+
+/**
+ * Info fields without a visible place of their own in the HTML and Markdown layouts;
+ * they travel in the title attribute and the leading comment
+ */
+export const getHiddenInfo = (info: any): any | undefined => {
+    const hidden: any = {};
+    ['summary', 'termsOfService', 'contact', 'license', 'x-revisions'].forEach(key => {
+        if (info?.[key] !== undefined) hidden[key] = info[key];
+    });
+    return Object.keys(hidden).length ? hidden : undefined;
+};
@@ -0,0 +1,144 @@
+// STRUCTURAL SPEC DIFF
+// Deep comparison of an original spec and the spec restored from a generated
+// document. Every dropped or altered value is reported by its JSON pointer.
+
+import { FidelityIssue, FidelitySeverity } from '../types';
+import { encodePointerSegment } from './jsonPointer';
+
+// Keys whose children are user-chosen names (property names, paths, status codes...), not keywords
+const NAME_MAPS = new Set([
+  'paths', 'properties', 'patternProperties', 'responses', 'schemas', 'parameters', 'requestBodies', 'headers',
+  'content', 'securitySchemes', 'examples', 'encoding', 'callbacks', 'links', 'variables', 'scopes', 'flows',
+  'mapping', '$defs', 'definitions', 'webhooks', 'pathItems'
+]);
+
+// Prose and samples: losing them does not change the contract
+const INFO_KEYWORDS = new Set(['description', 'summary', 'title', 'example', 'examples', 'externalDocs', 'contact', 'license', 'termsOfService']);
+
+// Metadata that tooling relies on but that does not change request/response shapes
+const WARNING_KEYWORDS = new Set(['operationId', 'tags', 'deprecated', 'default', 'servers', 'readOnly', 'writeOnly']);
+
+// Absent and false mean the same for these flags
+const FALSE_BY_DEFAULT = new Set(['required', 'deprecated', 'nullable', 'readOnly', 'writeOnly', 'allowEmptyValue', 'allowReserved', 'uniqueItems']);
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isEmpty = (value: any, key: string) => {
+  if (value === undefined || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (isPlainObject(value)) return Object.keys(value).length === 0;
+  return value === false && FALSE_BY_DEFAULT.has(key);
+};
+
+/**
+ * Severity of a pointer, decided by the innermost keyword in it (names such as
+ * a property called "description" are skipped)
+ */
+const classify = (segments: string[]): FidelitySeverity => {
+  if (segments.some((s, i) => s.startsWith('x-') && !NAME_MAPS.has(segments[i - 1]))) return 'info';
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i];
+    if (/^\d+$/.test(segment) || NAME_MAPS.has(segments[i - 1])) continue;
+    if (INFO_KEYWORDS.has(segment)) return 'info';
+    if (WARNING_KEYWORDS.has(segment)) return 'warning';
+    return 'error';
+  }
+  return 'error';
+};
+
+const countLeaves = (value: any): number => {
+  if (Array.isArray(value)) return value.reduce((sum, item) => sum + countLeaves(item), 0) || 1;
+  if (isPlainObject(value)) return Object.values<any>(value).reduce((sum: number, item: any) => sum + countLeaves(item), 0) || 1;
+  return 1;
+};
+
+/**
+ * Identity of an array element, so reordered parameters/servers/tags still match
+ */
+const elementKey = (item: any, index: number): string => {
+  if (isPlainObject(item)) {
+    if (typeof item.$ref === 'string') return `ref:${item.$ref}`;
+    if (typeof item.name === 'string') return `name:${item.in || ''}:${item.name}`;
+    if (typeof item.url === 'string') return `url:${item.url}`;
+  }
+  return `index:${index}`;
+};
+
+/**
+ * Compares `actual` against `expected` and returns the issues plus the number
+ * of leaf values that were checked. Each issue counts the leaves it covers, so
+ * the two turn into the share of values that survived.
+ */
+export const diffStructures = (expected: any, actual: any): { issues: FidelityIssue[], checked: number } => {
+  const issues: FidelityIssue[] = [];
+  let checked = 0;
+
+  const report = (segments: string[], kind: FidelityIssue['kind'], expectedValue: any, actualValue: any, values: number = 1) => {
+    issues.push({
+      pointer: '/' + segments.map(encodePointerSegment).join('/'),
+      kind,
+      severity: classify(segments),
+      expected: expectedValue,
+      actual: actualValue,
+      values
+    });
+  };
+
+  const walk = (exp: any, act: any, segments: string[]) => {
+    const key = segments[segments.length - 1] || '';
+    const expEmpty = isEmpty(exp, key);
+    const actEmpty = isEmpty(act, key);
+
+    if (expEmpty && actEmpty) return;
+    if (actEmpty) {
+      const leaves = countLeaves(exp);
+      checked += leaves;
+      report(segments, 'missing', exp, act, leaves);
+      return;
+    }
+    if (expEmpty) {
+      report(segments, 'added', exp, act);
+      return;
+    }
+
+    if (isPlainObject(exp) && isPlainObject(act)) {
+      Object.keys(exp).forEach(k => walk(exp[k], act[k], [...segments, k]));
+      Object.keys(act).forEach(k => { if (!(k in exp)) walk(undefined, act[k], [...segments, k]); });
+      return;
+    }
+
+    if (Array.isArray(exp) && Array.isArray(act)) {
+      // Lists of plain values (enum, required, scopes) compare as sets
+      if (exp.every(v => !isPlainObject(v) && !Array.isArray(v))) {
+        checked += exp.length;
+        const serialize = (v: any) => JSON.stringify(v);
+        const actualSet = new Set(act.map(serialize));
+        const expectedSet = new Set(exp.map(serialize));
+        const lost = exp.filter(v => !actualSet.has(serialize(v)));
+        const extra = act.filter(v => !expectedSet.has(serialize(v)));
+        if (lost.length) report(segments, 'missing', lost, extra.length ? extra : undefined, lost.length);
+        else if (extra.length) report(segments, 'added', undefined, extra);
+        return;
+      }
+
+      const actualByKey = new Map(act.map((item, i) => [elementKey(item, i), item]));
+      const matched = new Set<string>();
+      exp.forEach((item, i) => {
+        const k = elementKey(item, i);
+        matched.add(k);
+        walk(item, actualByKey.get(k), [...segments, String(i)]);
+      });
+      act.forEach((item, i) => {
+        if (!matched.has(elementKey(item, i))) report([...segments, String(i)], 'added', undefined, item);
+      });
+      return;
+    }
+
+    const leaves = countLeaves(exp);
+    checked += leaves;
+    if (JSON.stringify(exp) !== JSON.stringify(act)) report(segments, 'changed', exp, act, leaves);
+  };
+
+  walk(expected, actual, []);
+  return { issues, checked };
+};
@@ -0,0 +1,285 @@
+// SWAGGER 2.0 NORMALIZATION
+// Upgrades Swagger 2.0 documents into the OpenAPI 3 shape every renderer in
+// this project expects (components.schemas, requestBody.content, servers...).
+
+const PARAMETER_SCHEMA_KEYS = [
+  'type', 'format', 'items', 'enum', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+  'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'multipleOf'
+];
+
+const COLLECTION_FORMAT_STYLES: Record<string, { style: string, explode?: boolean }> = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited' },
+  pipes: { style: 'pipeDelimited' },
+  multi: { style: 'form', explode: true },
+};
+
+export const isSwagger2 = (spec: any): boolean => !!spec && typeof spec === 'object' && String(spec.swagger || '').startsWith('2');
+
+/**
+ * Maps a Swagger 2.0 $ref onto its OpenAPI 3 location
+ */
+const upgradeRef = (ref: string, bodyParameters: Set<string>): string => {
+  if (ref.startsWith('#/definitions/')) return ref.replace('#/definitions/', '#/components/schemas/');
+  if (ref.startsWith('#/parameters/')) {
+    const name = ref.substring('#/parameters/'.length);
+    return bodyParameters.has(name) ? `#/components/requestBodies/${name}` : `#/components/parameters/${name}`;
+  }
+  if (ref.startsWith('#/responses/')) return ref.replace('#/responses/', '#/components/responses/');
+  return ref;
+};
+
+/**
+ * Deep-copies a schema, rewriting refs and Swagger-only keywords
+ */
+const upgradeSchema = (schema: any, bodyParameters: Set<string>): any => {
+  if (Array.isArray(schema)) return schema.map(s => upgradeSchema(s, bodyParameters));
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: any = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (key === '$ref' && typeof value === 'string') result.$ref = upgradeRef(value, bodyParameters);
+    else if (key === 'x-nullable') result.nullable = value;
+    else if (key === 'discriminator' && typeof value === 'string') result.discriminator = { propertyName: value };
+    else if (key === 'example' || key === 'enum' || key === 'default' || key.startsWith('x-')) result[key] = value;
+    else if (key === 'properties' && value && typeof value === 'object') result.properties = upgradeSchemaMap(value, bodyParameters);
+    else result[key] = upgradeSchema(value, bodyParameters);
+  });
+
+  if (result.type === 'file') {
+    result.type = 'string';
+    result.format = 'binary';
+  }
+  return result;
+};
+
+const upgradeSchemaMap = (schemas: any, bodyParameters: Set<string>): any => {
+  const result: any = {};
+  Object.entries(schemas).forEach(([name, schema]) => { result[name] = upgradeSchema(schema, bodyParameters); });
+  return result;
+};
+
+/**
+ * Builds an OpenAPI 3 schema out of the inline type keywords of a non-body parameter or header
+ */
+const schemaFromSimpleType = (source: any, bodyParameters: Set<string>): any => {
+  const schema: any = {};
+  PARAMETER_SCHEMA_KEYS.forEach(key => {
+    if (source[key] !== undefined) schema[key] = upgradeSchema(source[key], bodyParameters);
+  });
+  if (schema.type === 'file') {
+    schema.type = 'string';
+    schema.format = 'binary';
+  }
+  return schema;
+};
+
+const upgradeParameter = (param: any, bodyParameters: Set<string>): any => {
+  if (param.$ref) return { $ref: upgradeRef(param.$ref, bodyParameters) };
+
+  const result: any = { name: param.name, in: param.in };
+  if (param.description) result.description = param.description;
+  if (param.required || param.in === 'path') result.required = true;
+  if (param.allowEmptyValue) result.allowEmptyValue = true;
+  if (param['x-example'] !== undefined) result.example = param['x-example'];
+  Object.keys(param).filter(k => k.startsWith('x-') && k !== 'x-example').forEach(k => { result[k] = param[k]; });
+
+  result.schema = schemaFromSimpleType(param, bodyParameters);
+
+  if (param.type === 'array' && param.collectionFormat && COLLECTION_FORMAT_STYLES[param.collectionFormat]) {
+    const { style, explode } = COLLECTION_FORMAT_STYLES[param.collectionFormat];
+    if (!(param.in === 'query' && style === 'form' && explode)) result.style = style;
+    if (explode !== undefined) result.explode = explode;
+  }
+  return result;
+};
+
+const upgradeBodyParameter = (param: any, consumes: string[], bodyParameters: Set<string>): any => {
+  const requestBody: any = { content: {} };
+  if (param.description) requestBody.description = param.description;
+  if (param.required) requestBody.required = true;
+  const schema = upgradeSchema(param.schema || {}, bodyParameters);
+  consumes.forEach(ct => { requestBody.content[ct] = { schema }; });
+  return requestBody;
+};
+
+/**
+ * formData parameters become a single multipart or urlencoded object schema
+ */
+const upgradeFormParameters = (params: any[], consumes: string[], bodyParameters: Set<string>): any => {
+  const schema: any = { type: 'object', properties: {} };
+  const required: string[] = [];
+  params.forEach(p => {
+    const prop = schemaFromSimpleType(p, bodyParameters);
+    if (p.description) prop.description = p.description;
+    schema.properties[p.name] = prop;
+    if (p.required) required.push(p.name);
+  });
+  if (required.length) schema.required = required;
+
+  const hasFile = params.some(p => p.type === 'file');
+  const formTypes = consumes.filter(ct => ct === 'multipart/form-data' || ct === 'application/x-www-form-urlencoded');
+  const mediaTypes = formTypes.length ? formTypes : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+  const requestBody: any = { content: {} };
+  if (required.length) requestBody.required = true;
+  mediaTypes.forEach(ct => { requestBody.content[ct] = { schema }; });
+  return requestBody;
+};
+
+const upgradeResponse = (response: any, produces: string[], bodyParameters: Set<string>): any => {
+  if (response.$ref) return { $ref: upgradeRef(response.$ref, bodyParameters) };
+
+  const result: any = { description: response.description || '' };
+  if (response.headers) {
+    result.headers = {};
+    Object.entries(response.headers).forEach(([name, header]: [string, any]) => {
+      const h: any = { schema: schemaFromSimpleType(header, bodyParameters) };
+      if (header.description) h.description = header.description;
+      result.headers[name] = h;
+    });
+  }
+  if (response.schema) {
+    result.content = {};
+    const schema = upgradeSchema(response.schema, bodyParameters);
+    produces.forEach(ct => {
+      result.content[ct] = { schema };
+      if (response.examples && response.examples[ct] !== undefined) result.content[ct].example = response.examples[ct];
+    });
+  }
+  Object.keys(response).filter(k => k.startsWith('x-')).forEach(k => { result[k] = response[k]; });
+  return result;
+};
+
+const upgradeSecurityScheme = (scheme: any): any => {
+  const base: any = {};
+  if (scheme.description) base.description = scheme.description;
+
+  if (scheme.type === 'basic') return { ...base, type: 'http', scheme: 'basic' };
+  if (scheme.type === 'apiKey') return { ...base, type: 'apiKey', name: scheme.name, in: scheme.in };
+  if (scheme.type === 'oauth2') {
+    const scopes = scheme.scopes || {};
+    const flows: any = {};
+    if (scheme.flow === 'implicit') flows.implicit = { authorizationUrl: scheme.authorizationUrl, scopes };
+    else if (scheme.flow === 'password') flows.password = { tokenUrl: scheme.tokenUrl, scopes };
+    else if (scheme.flow === 'application') flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes };
+    else if (scheme.flow === 'accessCode') flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes };
+    return { ...base, type: 'oauth2', flows };
+  }
+  return { ...base, ...scheme };
+};
+
+/**
+ * Converts a parsed Swagger 2.0 document into an OpenAPI 3.0.3 document.
+ */
+export const upgradeSwagger2 = (swagger: any): any => {
+  const globalParams = swagger.parameters || {};
+  const bodyParameters = new Set<string>(
+    Object.entries(globalParams).filter(([, p]: [string, any]) => p.in === 'body').map(([name]) => name)
+  );
+  const globalConsumes: string[] = swagger.consumes || ['application/json'];
+  const globalProduces: string[] = swagger.produces || ['application/json'];
+
+  const spec: any = { openapi: '3.0.3', info: swagger.info || { title: 'API', version: '1.0.0' } };
+
+  // host + basePath + schemes => servers
+  if (swagger.host || swagger.basePath) {
+    const basePath = swagger.basePath || '';
+    const schemes: string[] = swagger.schemes && swagger.schemes.length ? swagger.schemes : ['https'];
+    spec.servers = swagger.host
+      ? schemes.map(scheme => ({ url: `${scheme}://${swagger.host}${basePath}` }))
+      : [{ url: basePath || '/' }];
+  }
+
+  if (swagger.tags) spec.tags = swagger.tags;
+  if (swagger.security) spec.security = swagger.security;
+  if (swagger.externalDocs) spec.externalDocs = swagger.externalDocs;
+  Object.keys(swagger).filter(k => k.startsWith('x-')).forEach(k => { spec[k] = swagger[k]; });
+
+  // Paths
+  spec.paths = {};
+  Object.entries(swagger.paths || {}).forEach(([path, item]: [string, any]) => {
+    if (!item || typeof item !== 'object') return;
+    const pathItem: any = {};
+    const sharedParams: any[] = item.parameters || [];
+
+    Object.entries(item).forEach(([method, value]: [string, any]) => {
+      if (method === 'parameters') return;
+      if (method.startsWith('x-') || method === '$ref') {
+        pathItem[method] = value;
+        return;
+      }
+
+      const op = value;
+      const consumes: string[] = op.consumes || globalConsumes;
+      const produces: string[] = op.produces || globalProduces;
+      const operation: any = {};
+
+      ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security'].forEach(key => {
+        if (op[key] !== undefined) operation[key] = op[key];
+      });
+      Object.keys(op).filter(k => k.startsWith('x-')).forEach(k => { operation[k] = op[k]; });
+
+      // Operation parameters override path-level ones with the same name+in
+      const params: any[] = [...sharedParams];
+      (op.parameters || []).forEach((p: any) => {
+        const idx = params.findIndex(existing => !p.$ref && !existing.$ref && existing.name === p.name && existing.in === p.in);
+        if (idx >= 0) params[idx] = p;
+        else params.push(p);
+      });
+
+      const resolveParam = (p: any) => p.$ref && p.$ref.startsWith('#/parameters/') ? globalParams[p.$ref.substring('#/parameters/'.length)] || p : p;
+
+      const formParams = params.filter(p => resolveParam(p).in === 'formData').map(resolveParam);
+      const bodyParam = params.find(p => resolveParam(p).in === 'body');
+      const otherParams = params.filter(p => {
+        const resolved = resolveParam(p);
+        return resolved.in !== 'formData' && resolved.in !== 'body';
+      });
+
+      if (otherParams.length) operation.parameters = otherParams.map(p => upgradeParameter(p, bodyParameters));
+
+      if (bodyParam) {
+        operation.requestBody = bodyParam.$ref
+          ? { $ref: upgradeRef(bodyParam.$ref, bodyParameters) }
+          : upgradeBodyParameter(bodyParam, consumes, bodyParameters);
+      } else if (formParams.length) {
+        operation.requestBody = upgradeFormParameters(formParams, consumes, bodyParameters);
+      }
+
+      operation.responses = {};
+      Object.entries(op.responses || {}).forEach(([code, response]: [string, any]) => {
+        operation.responses[code] = upgradeResponse(response, produces, bodyParameters);
+      });
+
+      pathItem[method] = operation;
+    });
+
+    spec.paths[path] = pathItem;
+  });
+
+  // Components
+  const components: any = {};
+  if (swagger.definitions) components.schemas = upgradeSchemaMap(swagger.definitions, bodyParameters);
+
+  const nonBodyParams = Object.entries(globalParams).filter(([name]) => !bodyParameters.has(name));
+  if (nonBodyParams.length) {
+    components.parameters = {};
+    nonBodyParams.forEach(([name, p]) => { components.parameters[name] = upgradeParameter(p, bodyParameters); });
+  }
+  if (bodyParameters.size) {
+    components.requestBodies = {};
+    bodyParameters.forEach(name => { components.requestBodies[name] = upgradeBodyParameter(globalParams[name], globalConsumes, bodyParameters); });
+  }
+  if (swagger.responses) {
+    components.responses = {};
+    Object.entries(swagger.responses).forEach(([name, r]) => { components.responses[name] = upgradeResponse(r, globalProduces, bodyParameters); });
+  }
+  if (swagger.securityDefinitions) {
+    components.securitySchemes = {};
+    Object.entries(swagger.securityDefinitions).forEach(([name, s]) => { components.securitySchemes[name] = upgradeSecurityScheme(s); });
+  }
+  if (Object.keys(components).length) spec.components = components;
+
+  return spec;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import yaml from 'js-yaml';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { generateDocxBlob } from '../services/docxRenderer';
+import { parseDocxToSpec } from '../services/docxReader';
+import { readRoundTripMetadata } from '../services/docxMetadata';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
+};
+
+const SPEC = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets/{id}:
+    get:
+      operationId: getPet
+      tags: [pets]
+      responses:
+        '200':
+          description: The pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+components:
+  schemas:
+    Owner:
+      type: object
+      properties:
+        name:
+          type: string
+    Pet:
+      type: object
+      properties:
+        owner:
+          $ref: '#/components/schemas/Owner'
+`;
+
+describe('DOCX round-trip metadata', () => {
+  it('keeps operation ids, tags and schema references the visible text does not show', async () => {
+    const data = await (await generateDocxBlob(SPEC, options)).arrayBuffer();
+    expect(await readRoundTripMetadata(await JSZip.loadAsync(data))).toMatchObject({ openapi: '3.0.3' });
+
+    const spec: any = yaml.load(await parseDocxToSpec(data, options));
+    const getPet = spec.paths['/pets/{id}'].get;
+    expect(getPet).toMatchObject({ operationId: 'getPet', tags: ['pets'] });
+    expect(getPet.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(spec.components.schemas.Pet.properties.owner.$ref).toBe('#/components/schemas/Owner');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import yaml from 'js-yaml';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { generateDocxBlob } from '../services/docxRenderer';
+import { parseDocxToSpec } from '../services/docxReader';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
+};
+
+const SPEC = `
+openapi: 3.0.3
+info:
+  title: Pet Store
+  version: 2.1.0
+servers:
+  - url: https://api.example.com
+    description: Production
+paths:
+  /pets:
+    get:
+      summary: List pets
+      parameters:
+        - name: limit
+          in: query
+          required: true
+          description: Page size
+          schema:
+            type: integer
+      responses:
+        '200':
+          description: The pets
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  name:
+                    type: string
+                    description: Pet name
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        id:
+          type: integer
+        name:
+          type: string
+`;
+
+describe('parseDocxToSpec', () => {
+  it('rebuilds the info, servers, operations and models of a generated document', async () => {
+    const docx = await generateDocxBlob(SPEC, options);
+    const spec: any = yaml.load(await parseDocxToSpec(await docx.arrayBuffer(), options));
+
+    expect(spec.info).toMatchObject({ title: 'Pet Store', version: '2.1.0' });
+    expect(spec.servers).toMatchObject([{ url: 'https://api.example.com', description: 'Production' }]);
+    const list = spec.paths['/pets'].get;
+    expect(list.summary).toBe('List pets');
+    expect(list.parameters).toMatchObject([{ name: 'limit', in: 'query', required: true, description: 'Page size', schema: { type: 'integer' } }]);
+    expect(list.responses['200'].description).toBe('The pets');
+    expect(list.responses['200'].content['application/json'].schema.properties.name).toMatchObject({ type: 'string', description: 'Pet name' });
+    expect(spec.components.schemas.Pet.properties).toMatchObject({ id: { type: 'integer' }, name: { type: 'string' } });
+  });
+
+  it('rejects files that are not Word documents', async () => {
+    await expect(parseDocxToSpec(new TextEncoder().encode('plain text').buffer, options)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import yaml from 'js-yaml';
+import { Document, HeadingLevel, Packer, Paragraph } from 'docx';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { generateDocxBlob } from '../services/docxRenderer';
+import { parseDocxToSpec } from '../services/docxReader';
+import { DEFAULT_DOCX_TEMPLATE } from '../services/docxTemplate';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
+};
+
+const SPEC = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+  contact:
+    name: API Team
+paths: {}
+`;
+
+// A company template whose first section is its cover page
+const referenceWithCover = async (): Promise<ArrayBuffer> => {
+  const doc = new Document({
+    sections: [
+      { children: [new Paragraph({ text: 'ACME Corporation', heading: HeadingLevel.TITLE }), new Paragraph('Confidential')] },
+      { children: [new Paragraph('Body of the template')] },
+    ]
+  });
+  return (await Packer.toBlob(doc)).arrayBuffer();
+};
+
+const documentXml = async (blob: Blob) => (await JSZip.loadAsync(await blob.arrayBuffer())).file('word/document.xml')!.async('string');
+
+describe('reference document cover page', () => {
+  it('replaces the built-in cover page', async () => {
+    const template = { ...DEFAULT_DOCX_TEMPLATE, referenceDocx: { name: 'acme.docx', data: await referenceWithCover() } };
+    const blob = await generateDocxBlob(SPEC, options, template);
+    const xml = await documentXml(blob);
+
+    expect(xml).toContain('<w:docPartGallery w:val="Cover Pages"/>');
+    expect(xml).toContain('ACME Corporation');
+    expect(xml).not.toContain('Body of the template');
+    expect(xml).not.toContain('Contact: ');
+    // Only the body keeps section properties
+    expect(xml.match(/<w:sectPr\b/g)).toHaveLength(1);
+
+    const spec: any = yaml.load(await parseDocxToSpec(await blob.arrayBuffer(), options));
+    expect(spec.info).toMatchObject({ title: 'Pets', version: '1.0.0', contact: { name: 'API Team' } });
+  });
+
+  it('keeps the built-in cover page when the template has none', async () => {
+    const reference = await (await Packer.toBlob(new Document({ sections: [{ children: [new Paragraph('Body')] }] }))).arrayBuffer();
+    const xml = await documentXml(await generateDocxBlob(SPEC, options, { ...DEFAULT_DOCX_TEMPLATE, referenceDocx: { name: 'plain.docx', data: reference } }));
+
+    expect(xml).not.toContain('Cover Pages');
+    expect(xml).toContain('Contact: ');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { convertSpecToMarkdown } from '../services/markdownRenderer';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.MARKDOWN,
+};
+
+// Generated examples of a spec, in document order
+const generatedExamples = (spec: string): any[] => Array.from(
+  convertSpecToMarkdown(spec, options).matchAll(/\*\*Example \(generated\)\*\*\n\n```json\n([\s\S]*?)\n```/g),
+  match => JSON.parse(match[1])
+);
+
+const bodySpec = (schema: string, components: string = '') => `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets:
+    post:
+      requestBody:
+        content:
+          application/json:
+            schema:
+${schema}
+      responses:
+        '204':
+          description: Done
+${components}`;
+
+describe('generated examples', () => {
+  it('show the first variant of a oneOf with its discriminator value', () => {
+    const spec = bodySpec(`              $ref: '#/components/schemas/Pet'`, `
+components:
+  schemas:
+    Pet:
+      oneOf:
+        - $ref: '#/components/schemas/Cat'
+        - $ref: '#/components/schemas/Dog'
+      discriminator:
+        propertyName: kind
+        mapping:
+          house-cat: '#/components/schemas/Cat'
+          dog: Dog
+    Cat:
+      type: object
+      properties:
+        kind:
+          type: string
+        lives:
+          type: integer
+    Dog:
+      type: object
+      properties:
+        kind:
+          type: string
+        tags:
+          type: array
+          items:
+            type: string
+`);
+
+    expect(generatedExamples(spec)).toEqual([{ kind: 'house-cat', lives: 0 }]);
+  });
+
+  it('show the first variant of a nested anyOf, primitive variants included', () => {
+    const spec = bodySpec(`              type: object
+              properties:
+                owner:
+                  anyOf:
+                    - type: string
+                      format: email
+                    - type: object
+                      properties:
+                        name:
+                          type: string
+                pets:
+                  type: array
+                  items:
+                    oneOf:
+                      - type: object
+                        properties:
+                          lives:
+                            type: integer
+                      - type: object
+                        properties:
+                          bark:
+                            type: boolean`);
+
+    expect(generatedExamples(spec)).toEqual([{ owner: 'user@example.com', pets: [{ lives: 0 }] }]);
+  });
+
+  it('stop at a variant that contains its own union', () => {
+    const spec = bodySpec(`              $ref: '#/components/schemas/Node'`, `
+components:
+  schemas:
+    Node:
+      oneOf:
+        - type: object
+          properties:
+            children:
+              type: array
+              items:
+                $ref: '#/components/schemas/Node'
+        - type: string
+`);
+
+    expect(generatedExamples(spec)).toEqual([{ children: [{}] }]);
+  });
+});
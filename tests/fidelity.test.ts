@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { validateSpecFidelity } from '../services/geminiService';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
+};
+
+const SPEC = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets/{id}:
+    get:
+      summary: Get a pet
+      parameters:
+        - name: id
+          in: path
+          required: true
+          schema:
+            type: string
+      responses:
+        '200':
+          description: The pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+components:
+  schemas:
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id:
+          type: string
+        name:
+          type: string
+        owner:
+          type: object
+          required: [email]
+          properties:
+            email:
+              type: string
+`;
+
+const DESCRIBED_SPEC = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+  termsOfService: https://example.com/terms
+  contact:
+    name: API Team
+    email: api@example.com
+  license:
+    name: MIT
+    url: https://opensource.org/licenses/MIT
+paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      description: A **pet** in the store
+      properties:
+        name:
+          type: string
+    Code:
+      type: string
+      description: Shelter code
+      pattern: '^[A-Z]{3}$'
+`;
+
+// The report behind `specweaver check`, whose default threshold is 100
+describe('validateSpecFidelity', () => {
+  it('scores a spec with required fields at 100', () => {
+    const report = validateSpecFidelity(SPEC, options);
+
+    expect(report.issues.filter(issue => issue.severity === 'error')).toEqual([]);
+    expect(report.score).toBe(100);
+  });
+
+  it('keeps contact, license, model descriptions and primitive models', () => {
+    const report = validateSpecFidelity(DESCRIBED_SPEC, options);
+
+    expect(report.issues).toEqual([]);
+    expect(report.score).toBe(100);
+  });
+});
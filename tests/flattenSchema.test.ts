@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { flattenSchema } from '../services/specModel';
+
+describe('flattenSchema', () => {
+  it('tells references with the same last segment apart', () => {
+    const spec = {
+      components: {
+        schemas: {
+          A: { type: 'object', properties: { id: { type: 'object', properties: { inner: { $ref: '#/components/schemas/B/properties/id' } } } } },
+          B: { type: 'object', properties: { id: { type: 'string', format: 'uuid' } } },
+        },
+      },
+    };
+
+    const rows = flattenSchema({ $ref: '#/components/schemas/A/properties/id' }, spec);
+
+    expect(rows.find(row => row.path === 'inner')).toMatchObject({ type: 'string', format: 'uuid', ref: '#/components/schemas/B/properties/id' });
+  });
+
+  it('reports a reference that does not resolve', () => {
+    const spec = { components: { schemas: { Pet: { type: 'object', properties: { owner: { $ref: '#/components/schemas/Missing/Owner' } } }, Owner: { type: 'integer' } } } };
+
+    const rows = flattenSchema(spec.components.schemas.Pet, spec);
+
+    expect(rows).toEqual([expect.objectContaining({ path: 'owner', type: 'Unresolved (#/components/schemas/Missing/Owner)', ref: '#/components/schemas/Missing/Owner' })]);
+  });
+
+  it('still stops at recursive references', () => {
+    const spec = { components: { schemas: { Node: { type: 'object', properties: { next: { $ref: '#/components/schemas/Node' } } } } } };
+
+    const rows = flattenSchema({ $ref: '#/components/schemas/Node' }, spec);
+
+    expect(rows.find(row => row.path === 'next')).toMatchObject({ type: 'Recursive (Node)', ref: '#/components/schemas/Node' });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from '../services/htmlSanitizer';
+
+// The preview receives whole documents
+const sanitizeBody = (body: string) => sanitizeHtml(`<!DOCTYPE html><html><head><title>Doc</title></head><body>${body}</body></html>`);
+
+describe('sanitizeHtml', () => {
+  it('keeps the document layout', () => {
+    const html = sanitizeBody('<div class="endpoint" data-path="/pets" style="margin: 0"><h3 id="op">GET /pets</h3><table><tbody><tr><td colspan="2"><a href="https://example.com">Docs</a> <img src="data:image/png;base64,AA==" alt="logo"></td></tr></tbody></table></div>');
+
+    expect(html).toBe('<div class="endpoint" data-path="/pets"><h3>GET /pets</h3><table><tbody><tr><td colspan="2"><a href="https://example.com">Docs</a> <img src="data:image/png;base64,AA==" alt="logo"></td></tr></tbody></table></div>');
+  });
+
+  it('removes scripts, SVG and MathML with their content', () => {
+    const html = sanitizeBody('<p>Text</p><script>alert(1)</script><svg><animate onbegin="alert(1)" attributeName="x"/><set attributeName="href" to="javascript:alert(1)"/></svg><math><mi>x</mi></math><iframe src="https://example.com"></iframe>');
+
+    expect(html).toBe('<p>Text</p>');
+  });
+
+  it('removes attributes outside the allowlist and unsafe URLs', () => {
+    const html = sanitizeBody('<img src="x" onerror="alert(1)"><a href=" javascript:alert(1)" formaction="x">Link</a><img src="data:text/html,<script>alert(1)</script>">');
+
+    expect(html).toBe('<img src="x"><a>Link</a><img>');
+  });
+
+  it('replaces other elements by their content', () => {
+    const html = sanitizeBody('<p><font color="red">Red <b onclick="alert(1)">bold</b></font></p><form action="/x"><button>Send</button></form>');
+
+    expect(html).toBe('<p>Red <b>bold</b></p>Send');
+  });
+
+  it('removes styles and ids', () => {
+    const html = sanitizeBody('<div style="position: fixed; inset: 0; background: url(https://evil.example/track)" id="root"><p id="__next" style="color: red">Text</p></div>');
+
+    expect(html).toBe('<div><p>Text</p></div>');
+  });
+
+  it('loads images from the same origin or inline data only', () => {
+    const html = sanitizeBody('<img src="logo.png"><img src="/img/logo.png"><img src="https://evil.example/pixel.gif"><img src="//evil.example/pixel.gif"><img src="\\\\evil.example/pixel.gif"><img src="data:image/svg+xml,<svg/>">');
+
+    expect(html).toBe('<img src="logo.png"><img src="/img/logo.png"><img><img><img><img>');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { generatePdfBlob } from '../services/pdfRenderer';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
+};
+
+const SPEC = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      description: Lists **all** pets, see the [guide](https://example.com/guide).
+      parameters:
+        - name: q
+          in: query
+          description: Search \`term\`
+          schema:
+            type: string
+      responses:
+        '200':
+          description: The *pets*
+`;
+
+// The font each piece of text is written with, from the uncompressed content streams
+const textFonts = (pdf: string): Record<string, string> => {
+  const fonts: Record<string, string> = {};
+  pdf.replace(/\/(F\d+) (\d+) 0 R/g, (_, name, obj) => {
+    fonts[name] = pdf.match(new RegExp(`\\n${obj} 0 obj[^>]*?/BaseFont /([\\w-]+)`))![1];
+    return '';
+  });
+  const pieces: Record<string, string> = {};
+  let font = '';
+  pdf.split('\n').forEach(line => {
+    const set = line.match(/^\/(F\d+) [\d.]+ Tf$/);
+    if (set) font = fonts[set[1]];
+    const text = line.match(/^\((.*)\) Tj$/);
+    if (text) pieces[text[1]] = font;
+  });
+  return pieces;
+};
+
+describe('generatePdfBlob', () => {
+  it('writes Markdown descriptions as formatted text', async () => {
+    const pdf = await (await generatePdfBlob(SPEC, options)).text();
+    const fonts = textFonts(pdf);
+
+    expect(pdf).not.toMatch(/\*|`/);
+    expect(fonts['all']).toBe('Helvetica-Bold');
+    expect(fonts['pets']).toBe('Helvetica-Oblique');
+    expect(fonts['term']).toBe('Courier');
+    expect(fonts['guide']).toBe('Helvetica');
+    expect(pdf).toContain('/URI (https://example.com/guide)');
+  });
+});
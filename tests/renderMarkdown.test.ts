@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdownHTML } from '../services/htmlRenderer';
+
+describe('renderMarkdownHTML', () => {
+  it('renders links and images with safe targets', () => {
+    expect(renderMarkdownHTML('[Docs](https://example.com) ![Logo](https://example.com/logo.png)', true))
+      .toBe('<a href="https://example.com">Docs</a> <img src="https://example.com/logo.png" alt="Logo">');
+  });
+
+  it('renders the text of links and images with script or data targets', () => {
+    expect(renderMarkdownHTML('[Click](javascript:alert(1)) ![A <b>](javascript:alert(1)) ![Frame](data:text/html,x)', true))
+      .toBe('Click A &lt;b&gt; Frame');
+  });
+
+  it('shows raw HTML as text', () => {
+    expect(renderMarkdownHTML('<img src=x onerror=alert(1)>', true)).toBe('&lt;img src=x onerror=alert(1)&gt;');
+  });
+});
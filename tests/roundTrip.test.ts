@@ -0,0 +1,637 @@
+import { describe, expect, it } from 'vitest';
+import yaml from 'js-yaml';
+import { marked } from 'marked';
+import { ConversionOptions, DocFormat, SpecFormat } from '../types';
+import { convertSpecToDoc } from '../services/htmlRenderer';
+import { convertSpecToMarkdown } from '../services/markdownRenderer';
+import { generateDocxBlob } from '../services/docxRenderer';
+import { parseHTMLDocToSpec } from '../services/geminiService';
+import { parseDocxToSpec } from '../services/docxReader';
+import { parseMarkdownDocToSpec } from '../services/markdownReader';
+
+const options: ConversionOptions = {
+  includeExamples: true,
+  includeAuthentication: true,
+  groupByTag: false,
+  outputFormat: SpecFormat.YAML,
+  docFormat: DocFormat.HTML,
+};
+
+// Spec -> document -> spec through each of the three editable formats
+const roundTrips: Record<string, (spec: string) => Promise<any>> = {
+  html: async spec => yaml.load(parseHTMLDocToSpec(convertSpecToDoc(spec, options), options)),
+  markdown: async spec => yaml.load(parseMarkdownDocToSpec(convertSpecToMarkdown(spec, options), options)),
+  docx: async spec => yaml.load(await parseDocxToSpec(await (await generateDocxBlob(spec, options)).arrayBuffer(), options)),
+};
+
+const SHARED_SPEC = `
+openapi: 3.0.3
+info:
+  title: Shared
+  version: 1.0.0
+paths:
+  /pets/{petId}:
+    parameters:
+      - $ref: '#/components/parameters/PetId'
+      - name: X-Trace
+        in: header
+        schema:
+          type: string
+    get:
+      parameters:
+        - $ref: '#/components/parameters/Verbose'
+      responses:
+        '200':
+          description: The pet
+          headers:
+            X-Rate:
+              $ref: '#/components/headers/Rate'
+        '404':
+          $ref: '#/components/responses/NotFound'
+    put:
+      requestBody:
+        $ref: '#/components/requestBodies/PetBody'
+      responses:
+        '404':
+          $ref: '#/components/responses/NotFound'
+components:
+  parameters:
+    PetId:
+      name: petId
+      in: path
+      required: true
+      schema:
+        type: string
+    Verbose:
+      name: verbose
+      in: query
+      schema:
+        type: boolean
+  headers:
+    Rate:
+      description: Requests left
+      schema:
+        type: integer
+  responses:
+    NotFound:
+      description: Not found
+  requestBodies:
+    PetBody:
+      required: true
+      content:
+        application/json:
+          schema:
+            type: object
+            properties:
+              name:
+                type: string
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps shared components and path-level parameters', async () => {
+    const spec = await roundTrips[format](SHARED_SPEC);
+    const pathItem = spec.paths['/pets/{petId}'];
+
+    expect(pathItem.parameters.map((p: any) => p.$ref || p.name)).toEqual(['#/components/parameters/PetId', 'X-Trace']);
+    expect(pathItem.get.parameters).toEqual([{ $ref: '#/components/parameters/Verbose' }]);
+    expect(pathItem.get.responses['200'].headers['X-Rate']).toEqual({ $ref: '#/components/headers/Rate' });
+    expect(pathItem.get.responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+    expect(pathItem.put.responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+    expect(pathItem.put.requestBody).toEqual({ $ref: '#/components/requestBodies/PetBody' });
+
+    expect(spec.components.parameters.PetId).toMatchObject({ name: 'petId', in: 'path', required: true, schema: { type: 'string' } });
+    expect(spec.components.parameters.Verbose).toMatchObject({ name: 'verbose', in: 'query', schema: { type: 'boolean' } });
+    expect(spec.components.headers.Rate).toMatchObject({ description: 'Requests left', schema: { type: 'integer' } });
+    expect(spec.components.responses.NotFound).toMatchObject({ description: 'Not found' });
+    expect(spec.components.requestBodies.PetBody.content['application/json'].schema.properties.name.type).toBe('string');
+    expect(spec.components.requestBodies.PetBody.required).toBe(true);
+  });
+});
+
+const EXAMPLES_SPEC = `
+openapi: 3.0.3
+info:
+  title: Examples
+  version: 1.0.0
+paths:
+  /pets:
+    post:
+      requestBody:
+        content:
+          application/json:
+            schema:
+              type: object
+              properties:
+                name:
+                  type: string
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  id:
+                    type: integer
+              example:
+                id: 7
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('reads back explicit examples only', async () => {
+    const operation = (await roundTrips[format](EXAMPLES_SPEC)).paths['/pets'].post;
+
+    const body = operation.requestBody.content['application/json'];
+    expect(body.example).toBeUndefined();
+    expect(body.examples).toBeUndefined();
+    expect(operation.responses['200'].content['application/json'].example).toEqual({ id: 7 });
+  });
+});
+
+const REQUIRED_SPEC = `
+openapi: 3.0.3
+info:
+  title: Required
+  version: 1.0.0
+paths:
+  /pets:
+    post:
+      requestBody:
+        content:
+          application/json:
+            schema:
+              type: object
+              required: [name, owner]
+              properties:
+                name:
+                  type: string
+                owner:
+                  type: object
+                  required: [id]
+                  properties:
+                    id:
+                      type: integer
+                    email:
+                      type: string
+                tags:
+                  type: array
+                  items:
+                    type: string
+      responses:
+        '204':
+          description: Created
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('restores required properties', async () => {
+    const schema = (await roundTrips[format](REQUIRED_SPEC)).paths['/pets'].post.requestBody.content['application/json'].schema;
+
+    expect(schema.required).toEqual(['name', 'owner']);
+    expect(schema.properties.owner.required).toEqual(['id']);
+    expect(schema.properties.tags.required).toBeUndefined();
+  });
+});
+
+const MODELS_SPEC = `
+openapi: 3.0.3
+info:
+  title: Models
+  version: 1.0.0
+  contact:
+    name: API Team
+    email: api@example.com
+  license:
+    name: MIT
+paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      description: A **pet** in the store
+      properties:
+        name:
+          type: string
+    Code:
+      type: string
+      description: Shelter code
+      pattern: '^[A-Z]{3}$'
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps the info contact, model descriptions and primitive models', async () => {
+    const spec = await roundTrips[format](MODELS_SPEC);
+
+    expect(spec.info.contact).toEqual({ name: 'API Team', email: 'api@example.com' });
+    expect(spec.info.license).toEqual({ name: 'MIT' });
+    expect(spec.components.schemas.Pet.description).toBe('A **pet** in the store');
+    expect(spec.components.schemas.Code).toEqual({ type: 'string', description: 'Shelter code', pattern: '^[A-Z]{3}$' });
+  });
+});
+
+const PLAIN_TEXT_SPEC = `
+openapi: 3.0.3
+info:
+  title: Pet <Store> & *Friends*
+  version: 1.0.0
+paths:
+  /pets_by_owner:
+    get:
+      summary: List <pets> | fast_track
+      description: Uses **CommonMark**
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  code:
+                    type: string
+                    pattern: ^[a-z]+|<none>$
+                    description: One | two
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps plain values with Markdown characters as written', async () => {
+    const spec = await roundTrips[format](PLAIN_TEXT_SPEC);
+    const operation = spec.paths['/pets_by_owner'].get;
+
+    expect(spec.info.title).toBe('Pet <Store> & *Friends*');
+    expect(operation.summary).toBe('List <pets> | fast_track');
+    expect(operation.description).toBe('Uses **CommonMark**');
+    const code = operation.responses['200'].content['application/json'].schema.properties.code;
+    expect(code.pattern).toBe('^[a-z]+|<none>$');
+    expect(code.description).toBe('One | two');
+  });
+});
+
+describe('Markdown document', () => {
+  it('escapes plain values and keeps descriptions as CommonMark', () => {
+    const html = marked.parse(convertSpecToMarkdown(PLAIN_TEXT_SPEC, options)) as string;
+
+    expect(html).toContain('Pet &lt;Store&gt; &amp; *Friends*');
+    expect(html).toContain('List &lt;pets&gt; | fast_track');
+    expect(html).toContain('^[a-z]+|&lt;none&gt;$');
+    expect(html).toContain('Uses <strong>CommonMark</strong>');
+  });
+});
+
+const AUTH_SPEC = `
+openapi: 3.0.3
+info:
+  title: Auth
+  version: 1.0.0
+paths: {}
+components:
+  securitySchemes:
+    api_key:
+      type: apiKey
+      in: header
+      name: X-API-Key
+      description: Issued per client
+    oauth:
+      type: oauth2
+      flows:
+        authorizationCode:
+          authorizationUrl: https://example.com/authorize
+          tokenUrl: https://example.com/token
+          scopes:
+            read:pets: Read pets
+            write:pets: Modify pets
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps the security schemes of the Authentication chapter', async () => {
+    const schemes = (await roundTrips[format](AUTH_SPEC)).components.securitySchemes;
+
+    expect(schemes.api_key).toEqual({ type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Issued per client' });
+    expect(schemes.oauth.type).toBe('oauth2');
+    expect(schemes.oauth.flows.authorizationCode).toEqual({
+      authorizationUrl: 'https://example.com/authorize',
+      tokenUrl: 'https://example.com/token',
+      scopes: { 'read:pets': 'Read pets', 'write:pets': 'Modify pets' },
+    });
+  });
+});
+
+const OPENAPI_31_SPEC = `
+openapi: 3.1.0
+info:
+  title: Shapes
+  version: 1.0.0
+paths: {}
+components:
+  schemas:
+    Shape:
+      type: object
+      $defs:
+        Point:
+          type: object
+          properties:
+            x:
+              type: number
+      properties:
+        kind:
+          type: string
+          const: polygon
+        origin:
+          $ref: '#/components/schemas/Shape/$defs/Point'
+          description: Where the shape starts.
+        label:
+          type: string
+          examples: [Square, Hexagon]
+        sides:
+          type: integer
+          example: 4
+        meta:
+          type: object
+          unevaluatedProperties:
+            type: string
+        extra:
+          type: object
+          additionalProperties: false
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps OpenAPI 3.1 schema keywords', async () => {
+    const shape = (await roundTrips[format](OPENAPI_31_SPEC)).components.schemas.Shape;
+
+    expect(shape.$defs).toEqual({ Point: { type: 'object', properties: { x: { type: 'number' } } } });
+    expect(shape.properties.kind.const).toBe('polygon');
+    expect(shape.properties.origin).toEqual({ $ref: '#/components/schemas/Shape/$defs/Point', description: 'Where the shape starts.' });
+    expect(shape.properties.label.examples).toEqual(['Square', 'Hexagon']);
+    expect(shape.properties.sides.example).toBe(4);
+    expect(shape.properties.meta.unevaluatedProperties).toMatchObject({ type: 'string' });
+    expect(shape.properties.meta.additionalProperties).toBeUndefined();
+    expect(shape.properties.extra.additionalProperties).toBe(false);
+  });
+});
+
+const SECURITY_SPEC = `
+openapi: 3.0.3
+info:
+  title: Security
+  version: 1.0.0
+security:
+  - api_key*: []
+  - "oauth (v2)": [read:pets, write_pets]
+  - "<Bearer>|x": []
+paths: {}
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps global security names with special characters', async () => {
+    const spec = await roundTrips[format](SECURITY_SPEC);
+
+    expect(spec.security).toEqual([{ 'api_key*': [] }, { 'oauth (v2)': ['read:pets', 'write_pets'] }, { '<Bearer>|x': [] }]);
+  });
+});
+
+const PARAMETERS_SPEC = `
+openapi: 3.0.3
+info:
+  title: Parameters
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      parameters:
+        - name: limit
+          in: query
+          description: Page size
+          schema:
+            type: integer
+            format: int32
+            minimum: 1
+            default: 20
+        - name: tags
+          in: query
+          style: form
+          explode: false
+          schema:
+            type: array
+            items:
+              type: string
+          examples:
+            pair:
+              value: [cat, dog]
+      responses:
+        '200':
+          description: OK
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps parameter schemas, serialization settings and examples', async () => {
+    const spec = await roundTrips[format](PARAMETERS_SPEC);
+    const [limit, tags] = spec.paths['/pets'].get.parameters;
+
+    expect(limit).toMatchObject({ name: 'limit', description: 'Page size', schema: { type: 'integer', format: 'int32', minimum: 1, default: 20 } });
+    expect(tags).toMatchObject({ name: 'tags', style: 'form', explode: false, schema: { type: 'array', items: { type: 'string' } } });
+    expect(tags.examples).toEqual({ pair: { value: ['cat', 'dog'] } });
+  });
+});
+
+const MEDIA_TYPES_SPEC = `
+openapi: 3.0.3
+info:
+  title: Media types
+  version: 1.0.0
+paths:
+  /pets:
+    post:
+      requestBody:
+        description: The pet to add
+        required: true
+        content:
+          application/json:
+            schema:
+              type: object
+              properties:
+                name:
+                  type: string
+          multipart/form-data:
+            schema:
+              type: object
+              properties:
+                photo:
+                  type: string
+                  format: binary
+            encoding:
+              photo:
+                contentType: image/png
+      responses:
+        '200':
+          description: OK
+          content:
+            text/csv:
+              schema:
+                type: string
+              example: "id,name\\n1,Rex"
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps every media type, the body description, required flag and encoding', async () => {
+    const operation = (await roundTrips[format](MEDIA_TYPES_SPEC)).paths['/pets'].post;
+
+    expect(operation.requestBody.description).toBe('The pet to add');
+    expect(operation.requestBody.required).toBe(true);
+    expect(Object.keys(operation.requestBody.content)).toEqual(['application/json', 'multipart/form-data']);
+    expect(operation.requestBody.content['multipart/form-data'].encoding).toEqual({ photo: { contentType: 'image/png' } });
+    expect(operation.responses['200'].content['text/csv']).toEqual({ schema: { type: 'string' }, example: 'id,name\n1,Rex' });
+  });
+});
+
+const ENUM_SPEC = `
+openapi: 3.0.3
+info:
+  title: Enums
+  version: 1.0.0
+paths: {}
+components:
+  schemas:
+    Pet:
+      type: object
+      properties:
+        status:
+          type: string
+          enum: [available, sold]
+        code:
+          type: string
+          enum: ['1', '2']
+        size:
+          type: integer
+          enum: [1, 2, 3]
+        flag:
+          type: boolean
+          enum: [true]
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps the allowed values of schema properties', async () => {
+    const pet = (await roundTrips[format](ENUM_SPEC)).components.schemas.Pet;
+
+    expect(pet.properties.status.enum).toEqual(['available', 'sold']);
+    expect(pet.properties.code.enum).toEqual(['1', '2']);
+    expect(pet.properties.size.enum).toEqual([1, 2, 3]);
+    expect(pet.properties.flag.enum).toEqual([true]);
+  });
+});
+
+const UNIONS_SPEC = `
+openapi: 3.0.3
+info:
+  title: Unions
+  version: 1.0.0
+paths: {}
+components:
+  schemas:
+    Cat:
+      type: object
+      properties:
+        kind:
+          type: string
+        lives:
+          type: integer
+    Dog:
+      type: object
+      properties:
+        kind:
+          type: string
+        bark:
+          type: boolean
+    Owner:
+      type: object
+      properties:
+        name:
+          type: string
+        pet:
+          oneOf:
+            - $ref: '#/components/schemas/Cat'
+            - $ref: '#/components/schemas/Dog'
+          discriminator:
+            propertyName: kind
+            mapping:
+              cat: '#/components/schemas/Cat'
+              dog: '#/components/schemas/Dog'
+        contact:
+          anyOf:
+            - type: object
+              properties:
+                email:
+                  type: string
+            - type: object
+              properties:
+                phone:
+                  type: string
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps oneOf/anyOf variants and the discriminator mapping', async () => {
+    const owner = (await roundTrips[format](UNIONS_SPEC)).components.schemas.Owner;
+
+    expect(owner.properties.name.type).toBe('string');
+    expect(owner.properties.pet.oneOf).toEqual([{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }]);
+    expect(owner.properties.pet.discriminator).toEqual({
+      propertyName: 'kind',
+      mapping: { cat: '#/components/schemas/Cat', dog: '#/components/schemas/Dog' }
+    });
+    expect(owner.properties.contact.anyOf).toHaveLength(2);
+    expect(owner.properties.contact.anyOf[0].properties.email.type).toBe('string');
+    expect(owner.properties.contact.anyOf[1].properties.phone.type).toBe('string');
+  });
+});
+
+const WEBHOOKS_SPEC = `
+openapi: 3.1.0
+info:
+  title: Hooks
+  version: 1.0.0
+paths:
+  /subscriptions:
+    post:
+      operationId: subscribe
+      responses:
+        '201':
+          description: Subscribed
+      callbacks:
+        onEvent:
+          '{$request.body#/callbackUrl}':
+            post:
+              operationId: notify
+              requestBody:
+                content:
+                  application/json:
+                    schema:
+                      type: object
+                      properties:
+                        event:
+                          type: string
+              responses:
+                '204':
+                  description: Received
+webhooks:
+  newPet:
+    post:
+      operationId: newPet
+      summary: A pet was added
+      responses:
+        '200':
+          description: Acknowledged
+`;
+
+describe.each(Object.keys(roundTrips))('%s round trip', format => {
+  it('keeps webhooks and operation callbacks', async () => {
+    const spec = await roundTrips[format](WEBHOOKS_SPEC);
+    const subscribe = spec.paths['/subscriptions'].post;
+    const notify = subscribe.callbacks.onEvent['{$request.body#/callbackUrl}'].post;
+
+    expect(subscribe.operationId).toBe('subscribe');
+    expect(notify.operationId).toBe('notify');
+    expect(notify.requestBody.content['application/json'].schema.properties.event.type).toBe('string');
+    expect(notify.responses['204'].description).toBe('Received');
+    expect(spec.webhooks.newPet.post).toMatchObject({ operationId: 'newPet', summary: 'A pet was added' });
+    expect(spec.webhooks.newPet.post.responses['200'].description).toBe('Acknowledged');
+  });
+});
@@ -0,0 +1,4 @@
+import { DOMParser } from 'linkedom';
+
+// The HTML and DOCX parsers rely on the browser DOMParser, as in the CLI
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
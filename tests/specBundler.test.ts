@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { bundleSpecFiles } from '../services/specBundler';
+
+describe('bundleSpecFiles', () => {
+  it('picks the entry document, hoists external schemas and inlines other objects', () => {
+    const { entry, spec } = bundleSpecFiles({
+      'api/openapi.yaml': `
+openapi: 3.0.3
+info: { title: Pets, version: 1.0.0 }
+paths:
+  /pets:
+    $ref: './paths/pets.yaml'
+`,
+      'api/paths/pets.yaml': `
+get:
+  responses:
+    '200':
+      description: The pets
+      content:
+        application/json:
+          schema:
+            $ref: '../schemas/Pet.yaml'
+`,
+      'api/schemas/Pet.yaml': `
+type: object
+properties:
+  parent:
+    $ref: './Pet.yaml'
+`,
+    });
+
+    expect(entry).toBe('api/openapi.yaml');
+    expect(spec.paths['/pets'].get.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(spec.components.schemas.Pet.properties.parent).toEqual({ $ref: '#/components/schemas/Pet' });
+  });
+
+  it('reports references to files that are not part of the upload', () => {
+    expect(() => bundleSpecFiles({
+      'openapi.yaml': `
+openapi: 3.0.3
+info: { title: Pets, version: 1.0.0 }
+paths:
+  /pets:
+    $ref: './missing.yaml'
+`,
+    })).toThrow('missing.yaml is not part of the upload');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { compareSpecs } from '../services/specDiff';
+
+const spec = (version: string, operation: string) => `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: ${version}
+paths:
+  /pets:
+    get:
+${operation}
+`;
+
+describe('compareSpecs', () => {
+  it('flags a new required parameter and a removed response as breaking', () => {
+    const diff = compareSpecs(
+      spec('1.0.0', `      responses:
+        '200':
+          description: OK
+        '404':
+          description: Not found`),
+      spec('2.0.0', `      parameters:
+        - name: owner
+          in: query
+          required: true
+          schema:
+            type: string
+        - name: limit
+          in: query
+          schema:
+            type: integer
+      responses:
+        '200':
+          description: OK`)
+    );
+
+    expect(diff).toMatchObject({ title: 'Pets', oldVersion: '1.0.0', newVersion: '2.0.0' });
+    expect(diff.changes).toEqual([
+      { kind: 'added', breaking: true, location: 'GET /pets', message: 'Query parameter `owner` added (required)' },
+      { kind: 'added', breaking: false, location: 'GET /pets', message: 'Query parameter `limit` added' },
+      { kind: 'removed', breaking: true, location: 'GET /pets', message: 'Response 404 removed' },
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { lintSpec } from '../services/specLinter';
+
+const SPEC = `openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths:
+  /pets:
+    get:
+      operationId: listPets
+      summary: List pets
+      responses:
+        '200':
+          description: OK
+    post:
+      operationId: listPets
+      summary: Add a pet
+      responses:
+        '201':
+          description: Created
+`;
+
+describe('lintSpec', () => {
+  it('reports issues with their pointer and input line', () => {
+    const issues = lintSpec(SPEC);
+
+    expect(issues.find(issue => issue.rule === 'operation-operationId-unique')).toEqual({
+      rule: 'operation-operationId-unique',
+      severity: 'error',
+      pointer: '/paths/~1pets/post/operationId',
+      line: 14,
+      message: 'operationId "listPets" is also used by GET /pets',
+    });
+    expect(issues.find(issue => issue.rule === 'info-description')).toMatchObject({ pointer: '/info', line: 2 });
+  });
+
+  it('applies the configured severities and skips disabled rules', () => {
+    const issues = lintSpec(SPEC, { 'operation-operationId-unique': 'warning', 'info-description': 'off' });
+
+    expect(issues.find(issue => issue.rule === 'operation-operationId-unique')?.severity).toBe('warning');
+    expect(issues.some(issue => issue.rule === 'info-description')).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { diffStructures } from '../services/structuralDiff';
+
+const operation = (summary: string) => ({
+  summary,
+  parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+  responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'object' } } } } },
+});
+
+describe('diffStructures', () => {
+  it('weighs a dropped path by every value it held', () => {
+    const expected = { paths: { '/a/{id}': { get: operation('A') }, '/b/{id}': { get: operation('B') } } };
+    const actual = { paths: { '/a/{id}': { get: operation('A') } } };
+
+    const { issues, checked } = diffStructures(expected, actual);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ pointer: '/paths/~1b~1{id}', kind: 'missing', severity: 'error', values: 7 });
+    // Half of the checked values are gone
+    expect(checked).toBe(14);
+  });
+
+  it('weighs a changed scalar as one value', () => {
+    const expected = { paths: { '/a/{id}': { get: operation('A') } } };
+    const actual = { paths: { '/a/{id}': { get: { ...operation('A'), parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }] } } } };
+
+    const { issues, checked } = diffStructures(expected, actual);
+
+    expect(issues).toEqual([expect.objectContaining({ kind: 'changed', values: 1 })]);
+    expect(checked).toBe(7);
+  });
+});
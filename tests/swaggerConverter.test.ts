@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { isSwagger2, upgradeSwagger2 } from '../services/swaggerConverter';
+
+const SWAGGER = {
+  swagger: '2.0',
+  info: { title: 'Pets', version: '1.0.0' },
+  host: 'api.example.com',
+  basePath: '/v1',
+  schemes: ['https'],
+  consumes: ['application/json'],
+  produces: ['application/json'],
+  paths: {
+    '/pets': {
+      get: {
+        parameters: [{ name: 'tags', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'csv' }],
+        responses: { '200': { description: 'The pets', schema: { type: 'array', items: { $ref: '#/definitions/Pet' } } } },
+      },
+      post: {
+        parameters: [{ name: 'pet', in: 'body', required: true, schema: { $ref: '#/definitions/Pet' } }],
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+  },
+  definitions: {
+    Pet: { type: 'object', properties: { name: { type: 'string' } } },
+  },
+  securityDefinitions: {
+    basicAuth: { type: 'basic' },
+  },
+};
+
+describe('upgradeSwagger2', () => {
+  it('moves definitions, body parameters and response schemas to their OpenAPI 3 places', () => {
+    expect(isSwagger2(SWAGGER)).toBe(true);
+    const spec = upgradeSwagger2(SWAGGER);
+
+    expect(spec.openapi).toBe('3.0.3');
+    expect(spec.servers).toEqual([{ url: 'https://api.example.com/v1' }]);
+    expect(spec.components.schemas.Pet).toEqual({ type: 'object', properties: { name: { type: 'string' } } });
+    expect(spec.components.securitySchemes.basicAuth).toEqual({ type: 'http', scheme: 'basic' });
+
+    const pets = spec.paths['/pets'];
+    expect(pets.get.parameters[0]).toMatchObject({ name: 'tags', in: 'query', style: 'form', explode: false, schema: { type: 'array', items: { type: 'string' } } });
+    expect(pets.get.responses['200'].content['application/json'].schema).toEqual({ type: 'array', items: { $ref: '#/components/schemas/Pet' } });
+    expect(pets.post.requestBody).toEqual({ required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } });
+  });
+});
@@ -1,6 +1,7 @@
 export enum ConversionMode {
   SPEC_TO_DOC = 'SPEC_TO_DOC',
   DOC_TO_SPEC = 'DOC_TO_SPEC',
+  COMPARE = 'COMPARE',
 }
 
 export enum SpecFormat {
@@ -8,15 +9,70 @@ export enum SpecFormat {
   JSON = 'JSON',
 }
 
+export enum DocFormat {
+  HTML = 'HTML',
+  MARKDOWN = 'MARKDOWN',
+}
+
 export interface ConversionOptions {
   includeExamples: boolean;
   includeAuthentication: boolean;
+  groupByTag: boolean; // One endpoint chapter per tag (and x-tagGroups) instead of a single list
   outputFormat: SpecFormat; // Only relevant for Doc -> Spec
+  docFormat: DocFormat; // Only relevant for Spec -> Doc
+}
+
+// Chapters of the generated Word document, in the order they can be arranged
+export enum DocSection {
+  SUMMARY = 'SUMMARY',
+  SERVERS = 'SERVERS',
+  SECURITY = 'SECURITY',
+  TAGS = 'TAGS',
+  AUTHENTICATION = 'AUTHENTICATION',
+  ENDPOINTS = 'ENDPOINTS',
+  DATA_MODELS = 'DATA_MODELS',
+}
+
+export interface DocxTemplate {
+  referenceDocx?: { name: string, data: ArrayBuffer }; // Styles, numbering, headers, footers and the cover page come from this document
+  logo?: { name: string, data: ArrayBuffer, width: number, height: number }; // Size in pixels as placed in the header
+  headerText?: string;
+  footerText?: string;
+  accentColor: string; // Hex without '#', used for status codes
+  tableBorderColor: string; // Also underlines operation headings
+  tableHeaderFill: string;
+  sections: DocSection[]; // Chapters to include, in output order
+  coverPage: boolean;
+  tableOfContents: boolean;
+  revisionHistory: boolean;
+  pageNumbers: boolean; // "Page X of Y" footer; replaces the reference footer
 }
 
 export interface HistoryItem {
   id: string;
   timestamp: number;
   mode: ConversionMode;
-  preview: string;
-}
\ No newline at end of file
+  preview: string; // Short label for the history list, e.g. "User API 1.2.0"
+  input: string;
+  baseInput?: string; // Old spec in Compare mode
+  docx?: { name: string, data: ArrayBuffer }; // Uploaded Word document in Doc to Spec mode
+  output: string;
+  options: ConversionOptions;
+  template?: DocxTemplate; // Word template of a Spec to Doc conversion, reference document included
+}
+
+export type FidelitySeverity = 'error' | 'warning' | 'info';
+
+export interface FidelityIssue {
+  pointer: string; // JSON pointer into the original spec, e.g. /paths/~1users/get/parameters/0/schema/enum
+  kind: 'missing' | 'changed' | 'added';
+  severity: FidelitySeverity;
+  expected?: any;
+  actual?: any;
+  values: number; // Original values the issue covers: every leaf of a missing or changed subtree (1 for an added value)
+}
+
+export interface FidelityReport {
+  score: number;
+  issues: FidelityIssue[];
+}
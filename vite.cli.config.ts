@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the Node command line (cli/specweaver.ts) into dist-cli/specweaver.js.
+// Dependencies stay external and are loaded from node_modules at runtime.
+export default defineConfig({
+  build: {
+    ssr: 'cli/specweaver.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'specweaver.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests run in Node; tests/setup.ts provides the browser APIs the readers use
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+  },
+});